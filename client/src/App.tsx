@@ -5,6 +5,9 @@ import World from "./components/World";
 import Metrics from "./components/Metrics";
 import SimulationControls from "./components/SimulationControls";
 import TimeControls from "./components/TimeControls";
+import WorldBrowser from "./components/WorldBrowser";
+import LineagePanel from "./components/LineagePanel";
+import SocialGraphPanel from "./components/SocialGraphPanel";
 import "@fontsource/inter";
 
 /**
@@ -12,6 +15,9 @@ import "@fontsource/inter";
  */
 function App() {
   const [showControls, setShowControls] = useState(true);
+  const [showWorlds, setShowWorlds] = useState(false);
+  const [showLineage, setShowLineage] = useState(false);
+  const [showSocial, setShowSocial] = useState(false);
 
   return (
     <SimulationProvider>
@@ -39,6 +45,48 @@ function App() {
           {showControls ? "Steuerung ausblenden" : "Steuerung anzeigen"}
         </button>
         
+        <button 
+          onClick={() => setShowWorlds(!showWorlds)} 
+          className="absolute top-16 right-4 bg-slate-800 hover:bg-slate-700 text-white p-2 rounded shadow-lg z-10"
+        >
+          {showWorlds ? "Welten ausblenden" : "Welten anzeigen"}
+        </button>
+        
+        <button 
+          onClick={() => setShowLineage(!showLineage)} 
+          className="absolute top-28 right-4 bg-slate-800 hover:bg-slate-700 text-white p-2 rounded shadow-lg z-10"
+        >
+          {showLineage ? "Stammbaum ausblenden" : "Stammbaum anzeigen"}
+        </button>
+        
+        <button 
+          onClick={() => setShowSocial(!showSocial)} 
+          className="absolute top-40 right-4 bg-slate-800 hover:bg-slate-700 text-white p-2 rounded shadow-lg z-10"
+        >
+          {showSocial ? "Beziehungen ausblenden" : "Beziehungen anzeigen"}
+        </button>
+        
+        {/* Stammbaum aller Agenten seit Adam und Eva */}
+        {showLineage && (
+          <div className="absolute top-4 left-96 w-96 bg-slate-800/90 text-white rounded shadow-lg p-4 backdrop-blur-sm z-10">
+            <LineagePanel />
+          </div>
+        )}
+        
+        {/* Beziehungsnetz der lebenden Agenten */}
+        {showSocial && (
+          <div className="absolute bottom-4 left-96 w-96 bg-slate-800/90 text-white rounded shadow-lg p-4 backdrop-blur-sm z-10">
+            <SocialGraphPanel />
+          </div>
+        )}
+        
+        {/* Weltenbrowser für parallele Simulationen */}
+        {showWorlds && (
+          <div className="absolute top-52 right-4 w-80 bg-slate-800/90 text-white rounded shadow-lg p-4 backdrop-blur-sm z-10">
+            <WorldBrowser />
+          </div>
+        )}
+        
         {showControls && (
           <div className="absolute top-4 left-4 w-80 bg-slate-800/90 text-white rounded shadow-lg p-4 backdrop-blur-sm z-10">
             <SimulationControls />
@@ -1,10 +1,29 @@
-import { useRef, useEffect, useState } from 'react';
+import { Fragment, useRef, useEffect, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { Agent as AgentType } from '../lib/types';
+import { Agent as AgentType, TrophicLevel } from '../lib/types';
 import { useSimulation } from '../lib/stores/useSimulation';
+import { matingTypeLabel } from '../lib/matingTypes';
+import { preferredSignal, REFERENTS } from '../lib/language';
+import ConsciousnessHistoryChart from './ConsciousnessHistoryChart';
 import { Text, Html } from '@react-three/drei';
 
+// Stable hue per group
+function groupColor(groupId: string): string {
+  let hash = 0;
+  for (let i = 0; i < groupId.length; i++) {
+    hash = (hash * 31 + groupId.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 80%, 60%)`;
+}
+
+// What each trophic level eats
+const DIETS: Record<TrophicLevel, string> = {
+  herbivore: 'plants',
+  predator: 'herbivores',
+  apex: 'predators'
+};
+
 interface AgentProps {
   agent: AgentType;
   isFocused: boolean;
@@ -17,6 +36,9 @@ const Agent: React.FC<AgentProps> = ({ agent, isFocused }) => {
   const textRef = useRef<any>(null);
   const [showDetails, setShowDetails] = useState(false);
   const { setFocusedAgent } = useSimulation();
+  const species = useSimulation(state => state.world.species.find(entry => entry.id === agent.speciesId));
+  const matingTypes = useSimulation(state => state.world.settings.matingTypes);
+  const group = useSimulation(state => state.world.groups.find(entry => entry.memberIds.includes(agent.id)));
   
   // Store the agent's current position in a ref to avoid recreating the mesh on every update
   const positionRef = useRef({
@@ -164,6 +186,14 @@ const Agent: React.FC<AgentProps> = ({ agent, isFocused }) => {
           </mesh>
         </group>
         
+        {/* Group ring on the ground, tinted per group */}
+        {group && (
+          <mesh position={[0, -0.45, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+            <ringGeometry args={[0.45, 0.6, 24]} />
+            <meshBasicMaterial color={groupColor(group.id)} transparent opacity={0.7} side={THREE.DoubleSide} />
+          </mesh>
+        )}
+        
         {/* Generation indicator (dots on back) */}
         {Array.from({ length: Math.min(5, agent.generation) }).map((_, i) => (
           <mesh key={i} position={[0, 0.4 - i * 0.15, -0.3]}>
@@ -206,9 +236,31 @@ const Agent: React.FC<AgentProps> = ({ agent, isFocused }) => {
               <div>Consciousness:</div>
               <div>{agent.consciousnessValue.toFixed(1)}</div>
               
+              {agent.phi && (
+                <>
+                  <div>Φ:</div>
+                  <div>{agent.phi.value.toFixed(2)} bits</div>
+                </>
+              )}
+              
               <div>Generation:</div>
               <div>{agent.generation}</div>
               
+              <div>Species:</div>
+              <div className="italic truncate">{species?.name ?? 'unknown'}</div>
+              
+              <div>Diet:</div>
+              <div>{DIETS[agent.trophicLevel]}</div>
+              
+              <div>Group:</div>
+              <div>{group ? `${group.memberIds.length} agents` : 'alone'}</div>
+              
+              <div>Altruism:</div>
+              <div>{agent.altruism.toFixed(2)}</div>
+              
+              <div>{matingTypes === 2 ? 'Sex:' : 'Mating type:'}</div>
+              <div>{matingTypeLabel(agent.matingType, matingTypes)}</div>
+              
               <div>Age:</div>
               <div>{agent.age.toFixed(1)}</div>
               
@@ -219,6 +271,30 @@ const Agent: React.FC<AgentProps> = ({ agent, isFocused }) => {
                   style={{ width: `${agent.energy}%` }}
                 ></div>
               </div>
+              
+              <div>Hunger:</div>
+              <div className="relative w-full bg-gray-700 h-2 rounded">
+                <div 
+                  className="absolute left-0 top-0 bg-orange-500 h-2 rounded" 
+                  style={{ width: `${agent.needs.hunger}%` }}
+                ></div>
+              </div>
+              
+              <div>Thirst:</div>
+              <div className="relative w-full bg-gray-700 h-2 rounded">
+                <div 
+                  className="absolute left-0 top-0 bg-sky-500 h-2 rounded" 
+                  style={{ width: `${agent.needs.thirst}%` }}
+                ></div>
+              </div>
+              
+              <div>Fatigue:</div>
+              <div className="relative w-full bg-gray-700 h-2 rounded">
+                <div 
+                  className="absolute left-0 top-0 bg-purple-500 h-2 rounded" 
+                  style={{ width: `${agent.needs.fatigue}%` }}
+                ></div>
+              </div>
             </div>
             
             <div className="mt-1 mb-1 font-bold text-xs">Traits:</div>
@@ -238,6 +314,43 @@ const Agent: React.FC<AgentProps> = ({ agent, isFocused }) => {
               <div>Adaptability:</div>
               <div>{(agent.traits.adaptability * 100).toFixed(0)}%</div>
             </div>
+            
+            {agent.lexicon.length > 0 && (
+              <>
+                <div className="mt-1 mb-1 font-bold text-xs">Signals:</div>
+                <div className="grid grid-cols-2 gap-x-2 text-xs">
+                  {REFERENTS.map(referent => {
+                    const entry = preferredSignal(agent, referent);
+                    return entry && (
+                      <Fragment key={referent}>
+                        <div>{referent}:</div>
+                        <div className="italic">“{entry.signal}”</div>
+                      </Fragment>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+            
+            <div className="mt-1 mb-1 font-bold text-xs">Consciousness components:</div>
+            <ConsciousnessHistoryChart samples={agent.consciousnessHistory} height={64} />
+            
+            {agent.actionScores && (
+              <>
+                <div className="mt-1 mb-1 font-bold text-xs">Action utilities:</div>
+                <div className="grid grid-cols-2 gap-x-2 text-xs">
+                  {Object.entries(agent.actionScores)
+                    .sort(([, a], [, b]) => b - a)
+                    .slice(0, 4)
+                    .map(([action, score]) => (
+                      <Fragment key={action}>
+                        <div className={action === agent.lastAction ? 'text-yellow-300' : ''}>{action}:</div>
+                        <div>{score.toFixed(2)}</div>
+                      </Fragment>
+                    ))}
+                </div>
+              </>
+            )}
           </div>
         </Html>
       )}
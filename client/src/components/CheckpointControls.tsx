@@ -0,0 +1,103 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSimulation } from '../lib/stores/useSimulation';
+import { simulationApi } from '../lib/queryClient';
+
+interface CheckpointSummary {
+  id: number;
+  name: string;
+  time_elapsed: number;
+  created_at: string;
+}
+
+/**
+ * Save and restore named checkpoints of the current simulation
+ */
+const CheckpointControls: React.FC = () => {
+  const { simulationId, saveCheckpoint, restoreCheckpoint } = useSimulation();
+
+  const [checkpoints, setCheckpoints] = useState<CheckpointSummary[]>([]);
+  const [name, setName] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (simulationId === undefined) {
+      setCheckpoints([]);
+      return;
+    }
+    try {
+      const list: CheckpointSummary[] = await simulationApi.getSnapshots(simulationId);
+      setCheckpoints(list ?? []);
+      setSelectedId(list?.[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load checkpoints:', error);
+    }
+  }, [simulationId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleSave = async () => {
+    setBusy(true);
+    const saved = await saveCheckpoint(name.trim() || `Checkpoint ${checkpoints.length + 1}`);
+    setBusy(false);
+    if (saved) {
+      setName('');
+      refresh();
+    }
+  };
+
+  const handleRestore = async () => {
+    if (selectedId === null) return;
+    setBusy(true);
+    await restoreCheckpoint(selectedId);
+    setBusy(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Checkpoint name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="bg-slate-700 text-white px-2 py-1 rounded text-xs flex-1"
+        />
+        <button
+          onClick={handleSave}
+          disabled={busy}
+          className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded text-xs disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      {checkpoints.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => setSelectedId(parseInt(e.target.value))}
+            className="bg-slate-700 text-white px-2 py-1 rounded text-xs flex-1"
+          >
+            {checkpoints.map(checkpoint => (
+              <option key={checkpoint.id} value={checkpoint.id}>
+                {checkpoint.name} (day {Math.floor(checkpoint.time_elapsed)})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleRestore}
+            disabled={busy || selectedId === null}
+            className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded text-xs disabled:opacity-50"
+          >
+            Restore
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckpointControls;
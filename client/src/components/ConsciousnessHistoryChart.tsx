@@ -0,0 +1,59 @@
+import React from 'react';
+import { ConsciousnessSample } from '../lib/types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface ConsciousnessHistoryChartProps {
+  samples: ConsciousnessSample[];
+  height?: number;
+}
+
+// Components of consciousness, each between 0 and 1
+const COMPONENTS = [
+  { key: 'integration', name: 'Φ integration', color: '#4c6ef5' },
+  { key: 'selfModeling', name: 'σ self-modeling', color: '#37b24d' },
+  { key: 'decisionFreedom', name: 'δ decision freedom', color: '#f59f00' }
+];
+
+/**
+ * Φ, σ and δ over time, for one agent or the population average
+ */
+const ConsciousnessHistoryChart: React.FC<ConsciousnessHistoryChartProps> = ({ samples, height = 96 }) => {
+  if (samples.length < 2) {
+    return <div className="text-xs text-slate-400">Not enough samples yet.</div>;
+  }
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={samples} margin={{ top: 0, right: 0, bottom: 0, left: -30 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="time" tick={{ fontSize: 8 }} tickFormatter={(time) => Math.floor(time).toString()} />
+          <YAxis domain={[0, 1]} tick={{ fontSize: 8 }} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1e293b',
+              border: 'none',
+              fontSize: '10px',
+              color: 'white'
+            }}
+            labelFormatter={(time) => `Day ${Math.floor(Number(time))}`}
+            formatter={(value: number) => value.toFixed(2)}
+          />
+          {COMPONENTS.map(component => (
+            <Line
+              key={component.key}
+              type="monotone"
+              dataKey={component.key}
+              name={component.name}
+              stroke={component.color}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default ConsciousnessHistoryChart;
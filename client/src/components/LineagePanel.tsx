@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSimulation } from '../lib/stores/useSimulation';
+import { simulationApi } from '../lib/queryClient';
+import { buildLineageTree, countDescendants, LineageRecord } from '../lib/lineage';
+
+type ColorMode = 'species' | 'consciousness';
+
+// Generations of descendants shown below the selected agent
+const TREE_DEPTH = 3;
+
+const agentLabel = (agentId: string) =>
+  agentId === 'adam' || agentId === 'eve' ? agentId : agentId.substring(0, 4);
+
+// Stable hue per species
+function speciesColor(speciesId: string): string {
+  let hash = 0;
+  for (let i = 0; i < speciesId.length; i++) {
+    hash = (hash * 31 + speciesId.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 65%, 55%)`;
+}
+
+// Blue (0) to red (100)
+function consciousnessColor(consciousness: number): string {
+  const value = Math.max(0, Math.min(100, consciousness));
+  return `hsl(${240 - value * 2.4}, 70%, 55%)`;
+}
+
+/**
+ * Family tree of the current simulation, starting from Adam and Eve
+ */
+const LineagePanel: React.FC = () => {
+  const { simulationId, world, setFocusedAgent } = useSimulation();
+
+  const [records, setRecords] = useState<LineageRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [colorMode, setColorMode] = useState<ColorMode>('species');
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (simulationId === undefined) {
+      setRecords([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const lineage: LineageRecord[] = await simulationApi.getLineage(simulationId);
+      setRecords(lineage ?? []);
+    } catch (error) {
+      console.error('Failed to load lineage:', error);
+    }
+    setLoading(false);
+  }, [simulationId]);
+
+  useEffect(() => {
+    setSelectedId(null);
+    refresh();
+  }, [refresh]);
+
+  const tree = useMemo(() => buildLineageTree(records), [records]);
+  const selected = (selectedId ? tree.records.get(selectedId) : undefined) ?? tree.roots[0];
+
+  const living = new Set(world.agents.map(agent => agent.id));
+  const speciesNames = new Map(world.species.map(species => [species.id, species.name]));
+
+  const colorOf = (record: LineageRecord) =>
+    colorMode === 'species' ? speciesColor(record.speciesId) : consciousnessColor(record.consciousness);
+
+  const renderChip = (record: LineageRecord) => (
+    <button
+      key={record.agentId}
+      onClick={() => setSelectedId(record.agentId)}
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded ${
+        record.agentId === selected?.agentId ? 'bg-blue-900/60 ring-1 ring-blue-500' : 'bg-slate-700/60 hover:bg-slate-600'
+      } ${living.has(record.agentId) ? '' : 'opacity-60'}`}
+      title={speciesNames.get(record.speciesId) ?? record.speciesId}
+    >
+      <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(record) }} />
+      {agentLabel(record.agentId)}
+      {record.deathTime !== undefined && <span className="text-slate-400">†</span>}
+    </button>
+  );
+
+  // Children of an agent, nested down to TREE_DEPTH generations
+  const renderDescendants = (record: LineageRecord, depth: number): React.ReactNode => {
+    const children = tree.children.get(record.agentId) ?? [];
+    if (children.length === 0) return null;
+
+    if (depth >= TREE_DEPTH) {
+      return (
+        <div className="ml-3 text-slate-400">
+          … {countDescendants(tree, record.agentId)} more
+        </div>
+      );
+    }
+
+    return (
+      <ul className="ml-3 border-l border-slate-600 pl-2 space-y-1">
+        {children.map(child => (
+          <li key={child.agentId}>
+            {renderChip(child)}
+            {renderDescendants(child, depth + 1)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  if (simulationId === undefined) {
+    return <div className="text-xs text-slate-400">Open a stored world to see its family tree.</div>;
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold">Family Tree</h2>
+        <div className="flex gap-2">
+          <select
+            value={colorMode}
+            onChange={(e) => setColorMode(e.target.value as ColorMode)}
+            className="bg-slate-700 text-white px-2 py-1 rounded"
+          >
+            <option value="species">Color by species</option>
+            <option value="consciousness">Color by consciousness</option>
+          </select>
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="bg-slate-700 hover:bg-slate-600 px-2 py-1 rounded disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1 items-center">
+        <span className="text-slate-400">Founders:</span>
+        {tree.roots.map(renderChip)}
+      </div>
+
+      {selected ? (
+        <>
+          <div className="bg-slate-700/40 rounded p-2 space-y-1">
+            <div className="flex justify-between items-center">
+              <span className="font-semibold">{agentLabel(selected.agentId)}</span>
+              {living.has(selected.agentId) && (
+                <button
+                  onClick={() => setFocusedAgent(selected.agentId)}
+                  className="bg-slate-600 hover:bg-slate-500 px-2 py-0.5 rounded"
+                >
+                  Show in world
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-x-2">
+              <div>Generation:</div>
+              <div>{selected.generation}</div>
+              <div>Species:</div>
+              <div className="italic truncate">{speciesNames.get(selected.speciesId) ?? 'unknown'}</div>
+              <div>Born:</div>
+              <div>Day {Math.floor(selected.birthTime)}</div>
+              <div>{selected.deathTime !== undefined ? 'Died:' : 'Status:'}</div>
+              <div>
+                {selected.deathTime !== undefined
+                  ? `Day ${Math.floor(selected.deathTime)}${selected.deathCause ? ` (${selected.deathCause})` : ''}`
+                  : 'alive'}
+              </div>
+              <div>Consciousness:</div>
+              <div>{selected.consciousness.toFixed(1)}</div>
+              <div>Descendants:</div>
+              <div>{countDescendants(tree, selected.agentId)}</div>
+            </div>
+            {selected.parentIds.length > 0 && (
+              <div className="flex flex-wrap gap-1 items-center pt-1">
+                <span className="text-slate-400">Parents:</span>
+                {selected.parentIds.map(parentId => {
+                  const parent = tree.records.get(parentId);
+                  return parent
+                    ? renderChip(parent)
+                    : <span key={parentId} className="text-slate-500">{agentLabel(parentId)}</span>;
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            {renderChip(selected)}
+            {renderDescendants(selected, 0) ?? (
+              <div className="text-slate-400 mt-1">No descendants yet.</div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="text-slate-400">{loading ? 'Loading…' : 'No lineage recorded yet.'}</div>
+      )}
+    </div>
+  );
+};
+
+export default LineagePanel;
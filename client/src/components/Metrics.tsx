@@ -1,10 +1,19 @@
 import React from 'react';
 import { useSimulation } from '../lib/stores/useSimulation';
+import { livingSpecies } from '../lib/speciation';
+import { matingTypeLabel } from '../lib/matingTypes';
+import { CONSCIOUSNESS_MODELS } from '../lib/consciousness';
+import { ConsciousnessModelId } from '../lib/types';
+import ConsciousnessHistoryChart from './ConsciousnessHistoryChart';
 import { 
   BarChart, 
   Bar, 
   LineChart, 
   Line, 
+  AreaChart,
+  Area,
+  ScatterChart,
+  Scatter,
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -12,9 +21,20 @@ import {
   ResponsiveContainer 
 } from 'recharts';
 
+// Colors of the species in the population chart
+const SPECIES_COLORS = ['#4c6ef5', '#f59f00', '#37b24d', '#f03e3e', '#ae3ec9', '#15aabf'];
+
+// Trophic levels in the predator-prey charts
+const TROPHIC_SERIES = [
+  { key: 'herbivore', name: 'Herbivores', color: '#37b24d' },
+  { key: 'predator', name: 'Predators', color: '#f03e3e' },
+  { key: 'apex', name: 'Apex predators', color: '#ae3ec9' }
+];
+
 const Metrics: React.FC = () => {
   const { world, elapsedYears, timeline } = useSimulation();
   const { statistics } = world;
+  const { cooperation } = statistics;
   
   // Format years with appropriate precision
   const formatYears = (years: number) => {
@@ -41,6 +61,46 @@ const Metrics: React.FC = () => {
     return distribution;
   }, [world.agents]);
   
+  // Species shown in the population chart: the largest ones ever recorded
+  const chartedSpecies = React.useMemo(() => {
+    return [...world.species]
+      .sort((a, b) =>
+        Math.max(0, ...b.history.map(census => census.population)) -
+        Math.max(0, ...a.history.map(census => census.population))
+      )
+      .slice(0, SPECIES_COLORS.length);
+  }, [world.species]);
+  
+  // One row per census time with the population of each charted species (0 outside its lifetime)
+  const speciesHistory = React.useMemo(() => {
+    const rows = new Map<number, Record<string, number>>();
+    const emptyRow = (time: number) => {
+      const row: Record<string, number> = { time };
+      chartedSpecies.forEach(species => {
+        row[species.id] = 0;
+      });
+      return row;
+    };
+    chartedSpecies.forEach(species => {
+      species.history.forEach(census => {
+        const row = rows.get(census.time) ?? emptyRow(census.time);
+        row[species.id] = census.population;
+        rows.set(census.time, row);
+      });
+    });
+    return Array.from(rows.values()).sort((a, b) => a.time - b.time);
+  }, [chartedSpecies]);
+  
+  const speciesNames = new Map(world.species.map(species => [species.id, species.name]));
+  
+  // Average consciousness under each evaluated model
+  const modelComparison = (Object.keys(statistics.consciousnessByModel) as ConsciousnessModelId[])
+    .map(model => ({
+      model: CONSCIOUSNESS_MODELS[model].name,
+      average: statistics.consciousnessByModel[model] ?? 0,
+      active: model === world.settings.consciousnessModel
+    }));
+  
   // Recent timeline events
   const recentEvents = timeline
     .slice(-5)
@@ -88,16 +148,81 @@ const Metrics: React.FC = () => {
             </BarChart>
           </ResponsiveContainer>
         </div>
+        
+        {/* Population averages of the components over time */}
+        <div className="text-xs font-semibold mt-2 mb-1">Components (Φ, σ, δ)</div>
+        <ConsciousnessHistoryChart samples={world.consciousnessHistory} />
       </div>
       
+      {/* Consciousness models side by side */}
+      {modelComparison.length > 1 && (
+        <div className="border-t border-slate-700 pt-2">
+          <h3 className="text-sm font-semibold mb-1">Consciousness Models</h3>
+          <div className="grid grid-cols-2 gap-x-2 text-xs">
+            {modelComparison.map(entry => (
+              <React.Fragment key={entry.model}>
+                <div className={entry.active ? 'font-semibold' : ''}>{entry.model}:</div>
+                <div>{entry.average.toFixed(1)}</div>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="h-24 mt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={modelComparison} margin={{ top: 0, right: 0, bottom: 0, left: -30 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="model" tick={{ fontSize: 8 }} tickFormatter={(name: string) => name.split(' ')[0]} />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 8 }} />
+                <Tooltip 
+                  contentStyle={{ 
+                    backgroundColor: '#1e293b', 
+                    border: 'none', 
+                    fontSize: '10px',
+                    color: 'white'
+                  }} 
+                />
+                <Bar dataKey="average" fill="#ae3ec9" isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+      
       {/* Complexity Stats */}
       <div className="border-t border-slate-700 pt-2">
         <h3 className="text-sm font-semibold mb-1">Emergent Complexity</h3>
         <div className="grid grid-cols-2 gap-2 text-xs">
           <div>Social: {(statistics.socialComplexity * 100).toFixed(0)}%</div>
-          <div>Language: {(statistics.languageComplexity * 100).toFixed(0)}%</div>
+          <div title="Share of the referents the population names with the same signal">
+            Language: {(statistics.languageComplexity * 100).toFixed(0)}%
+          </div>
           <div>Species: {statistics.speciesCount}</div>
           <div>Generations: {statistics.totalGenerations}</div>
+          <div className="col-span-2" title="Groups of agents moving together, their mean size and how long they have held together">
+            Groups: {statistics.groupCount} · {statistics.meanGroupSize.toFixed(1)} agents · {statistics.meanGroupLifetime.toFixed(0)} days
+          </div>
+          <div className="col-span-2" title="Clustering of the social network and how clearly it splits into communities">
+            Network: {statistics.clusteringCoefficient.toFixed(2)} clustering · {statistics.modularity.toFixed(2)} modularity
+          </div>
+          <div className="col-span-2" title="Referents an agent has a signal for, and how often two agents use the same signal">
+            Vocabulary: {statistics.vocabularySize.toFixed(1)} words · {(statistics.languageAgreement * 100).toFixed(0)}% agreement
+          </div>
+          <div className="col-span-2" title="Variance of offspring per living agent; high values mean strong sexual selection">
+            Mating success variance: {statistics.matingSuccessVariance.toFixed(2)}
+          </div>
+          {statistics.matingTypeCounts.length > 0 && (
+            <div className="col-span-2" title="Rarest mating type relative to the most common one (1 = balanced)">
+              Sex ratio: {statistics.sexRatio.toFixed(2)} (
+              {statistics.matingTypeCounts
+                .map((count, matingType) => `${count} ${matingTypeLabel(matingType, statistics.matingTypeCounts.length)}`)
+                .join(', ')}
+              )
+            </div>
+          )}
+          {world.settings.reproductionMode === 'heritable' && (
+            <div className="col-span-2" title="Share of living agents that reproduce by budding">
+              Asexual: {(statistics.asexualShare * 100).toFixed(0)}%
+            </div>
+          )}
         </div>
         
         {/* Complexity Growth Chart */}
@@ -128,6 +253,190 @@ const Metrics: React.FC = () => {
         </div>
       </div>
       
+      {/* Species */}
+      <div className="border-t border-slate-700 pt-2">
+        <h3 className="text-sm font-semibold mb-1">Species</h3>
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div>Living: {livingSpecies(world.species).length}</div>
+          <div>Extinct: {world.species.length - livingSpecies(world.species).length}</div>
+        </div>
+        
+        <div className="text-xs space-y-1 mt-1 max-h-24 overflow-y-auto">
+          {livingSpecies(world.species)
+            .sort((a, b) => b.population - a.population)
+            .map(species => (
+              <div key={species.id} className="flex justify-between gap-2">
+                <span className="italic truncate">{species.name}</span>
+                <span className="text-slate-400 whitespace-nowrap">
+                  {species.population} · since day {Math.floor(species.originTime)}
+                  {species.parentSpeciesId && ` · from ${speciesNames.get(species.parentSpeciesId)}`}
+                </span>
+              </div>
+            ))}
+        </div>
+        
+        {/* Population per species over time */}
+        <div className="h-24 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={speciesHistory} margin={{ top: 0, right: 0, bottom: 0, left: -30 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="time" tick={{ fontSize: 8 }} tickFormatter={(time) => Math.floor(time).toString()} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 8 }} />
+              <Tooltip 
+                contentStyle={{ 
+                  backgroundColor: '#1e293b', 
+                  border: 'none', 
+                  fontSize: '10px',
+                  color: 'white'
+                }} 
+                labelFormatter={(time) => `Day ${Math.floor(Number(time))}`}
+              />
+              {chartedSpecies.map((species, i) => (
+                <Area
+                  key={species.id}
+                  type="stepAfter"
+                  dataKey={species.id}
+                  name={species.name}
+                  stackId="species"
+                  stroke={SPECIES_COLORS[i]}
+                  fill={SPECIES_COLORS[i]}
+                  fillOpacity={0.4}
+                  isAnimationActive={false}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      
+      {/* Predators and prey */}
+      <div className="border-t border-slate-700 pt-2">
+        <h3 className="text-sm font-semibold mb-1">Food Chain</h3>
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div>Herbivores: {statistics.populationByTrophicLevel.herbivore}</div>
+          <div>Predators: {statistics.populationByTrophicLevel.predator}</div>
+          <div>Apex: {statistics.populationByTrophicLevel.apex}</div>
+        </div>
+        
+        {/* Populations over time (Lotka–Volterra cycles) */}
+        <div className="h-24 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={world.trophicHistory} margin={{ top: 0, right: 0, bottom: 0, left: -30 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="time" tick={{ fontSize: 8 }} tickFormatter={(time) => Math.floor(time).toString()} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 8 }} />
+              <Tooltip 
+                contentStyle={{ 
+                  backgroundColor: '#1e293b', 
+                  border: 'none', 
+                  fontSize: '10px',
+                  color: 'white'
+                }} 
+                labelFormatter={(time) => `Day ${Math.floor(Number(time))}`}
+              />
+              {TROPHIC_SERIES
+                .filter(series => series.key !== 'apex' || world.trophicHistory.some(census => census.apex > 0))
+                .map(series => (
+                  <Line
+                    key={series.key}
+                    type="monotone"
+                    dataKey={series.key}
+                    name={series.name}
+                    stroke={series.color}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        
+        {/* Phase portrait: predators against herbivores */}
+        <div className="text-xs font-semibold mt-2 mb-1">Predators vs. herbivores</div>
+        <div className="h-24">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 0, right: 0, bottom: 0, left: -30 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="herbivore" name="Herbivores" allowDecimals={false} tick={{ fontSize: 8 }} />
+              <YAxis type="number" dataKey="predator" name="Predators" allowDecimals={false} tick={{ fontSize: 8 }} />
+              <Tooltip 
+                contentStyle={{ 
+                  backgroundColor: '#1e293b', 
+                  border: 'none', 
+                  fontSize: '10px',
+                  color: 'white'
+                }} 
+              />
+              <Scatter data={world.trophicHistory} line fill="#f03e3e" isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      
+      {/* Sharing and cooperative harvests */}
+      <div className="border-t border-slate-700 pt-2">
+        <h3 className="text-sm font-semibold mb-1">Cooperation</h3>
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div title="Share of living agents that gave food or harvested together in the last step">
+            Cooperating: {(statistics.cooperationRate * 100).toFixed(0)}%
+          </div>
+          <div>Altruism: {statistics.averageAltruism.toFixed(2)}</div>
+          <div>Gifts: {cooperation.gifts} ({cooperation.kinGifts} to kin)</div>
+          <div>Shared: {cooperation.energyShared.toFixed(0)} energy</div>
+          <div className="col-span-2">Harvests together: {cooperation.cooperativeHarvests}</div>
+          <div
+            className="col-span-2"
+            title="Hamilton's rule rB > C: relatedness times the recipient's benefit against the donor's cost, averaged over all gifts"
+          >
+            Hamilton: {cooperation.gifts > 0
+              ? `${(cooperation.hamiltonSatisfied / cooperation.gifts * 100).toFixed(0)}% of gifts rB > C · ` +
+                `r ${(cooperation.relatedness / cooperation.gifts).toFixed(2)} · ` +
+                `B ${(cooperation.benefit / cooperation.gifts).toFixed(1)} · ` +
+                `C ${(cooperation.cost / cooperation.gifts).toFixed(1)}`
+              : 'no gifts yet'}
+          </div>
+        </div>
+      </div>
+      
+      {/* Needs and Mortality */}
+      <div className="border-t border-slate-700 pt-2">
+        <h3 className="text-sm font-semibold mb-1">Needs & Mortality</h3>
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div>Hunger: {statistics.averageNeeds.hunger.toFixed(0)}</div>
+          <div>Thirst: {statistics.averageNeeds.thirst.toFixed(0)}</div>
+          <div>Fatigue: {statistics.averageNeeds.fatigue.toFixed(0)}</div>
+        </div>
+        
+        {/* Deaths by cause */}
+        <div className="h-20 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={[
+                { cause: 'Starvation', count: statistics.deathsByCause.starvation },
+                { cause: 'Thirst', count: statistics.deathsByCause.dehydration },
+                { cause: 'Exhaustion', count: statistics.deathsByCause.exhaustion },
+                { cause: 'Old age', count: statistics.deathsByCause.oldAge },
+                { cause: 'Eaten', count: statistics.deathsByCause.predation }
+              ]}
+              margin={{ top: 0, right: 0, bottom: 0, left: -30 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="cause" tick={{ fontSize: 8 }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 8 }} />
+              <Tooltip 
+                contentStyle={{ 
+                  backgroundColor: '#1e293b', 
+                  border: 'none', 
+                  fontSize: '10px',
+                  color: 'white'
+                }} 
+              />
+              <Bar dataKey="count" fill="#f59f00" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      
       {/* Timeline Events */}
       <div className="border-t border-slate-700 pt-2">
         <h3 className="text-sm font-semibold mb-1">Recent Events</h3>
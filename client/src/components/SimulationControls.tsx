@@ -1,6 +1,10 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useSimulation } from '../lib/stores/useSimulation';
 import { useAudio } from '../lib/stores/useAudio';
+import CheckpointControls from './CheckpointControls';
+import { parseWorldFile, worldFileName } from '../lib/worldFile';
+import { WorldSettings } from '../lib/types';
+import { CONSCIOUSNESS_MODELS } from '../lib/consciousness';
 
 const SimulationControls: React.FC = () => {
   const { 
@@ -10,18 +14,63 @@ const SimulationControls: React.FC = () => {
     resetSimulation,
     setEnvironmentalParameter,
     setWeatherCondition,
-    triggerCatastrophe
+    setWorldSettings,
+    triggerCatastrophe,
+    serverConnected,
+    connectToServer,
+    disconnectFromServer,
+    exportWorld,
+    importWorld
   } = useSimulation();
   
   const { toggleMute, isMuted } = useAudio();
   
   const [catastropheType, setCatastropheType] = useState('earthquake');
   const [catastropheIntensity, setCatastropheIntensity] = useState(0.5);
+  const [seedInput, setSeedInput] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const handleCatastrophe = () => {
     triggerCatastrophe(catastropheType, catastropheIntensity);
   };
   
+  // Reset with the entered seed, or a fresh random one if the field is empty
+  const handleReset = () => {
+    const seed = parseInt(seedInput, 10);
+    resetSimulation(Number.isNaN(seed) ? undefined : seed);
+  };
+  
+  // Download the current world as a JSON file
+  const handleExport = () => {
+    const name = `World ${world.seed} day ${Math.floor(world.timeElapsed)}`;
+    const blob = new Blob([JSON.stringify(exportWorld(name))], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = worldFileName(name);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  // Validate the chosen file and load it as a new simulation
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const data = JSON.parse(await file.text());
+      parseWorldFile(data);
+      setImportError(null);
+      if (!await importWorld(data)) {
+        setImportError('Import failed');
+      }
+    } catch (error) {
+      setImportError(error instanceof SyntaxError ? 'File is not valid JSON' : (error as Error).message);
+    }
+  };
+  
   return (
     <div className="flex flex-col space-y-4">
       <div className="flex justify-between items-center">
@@ -34,7 +83,7 @@ const SimulationControls: React.FC = () => {
             {running ? "Pause" : "Start"}
           </button>
           <button 
-            onClick={resetSimulation}
+            onClick={handleReset}
             className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-sm"
           >
             Reset
@@ -42,6 +91,40 @@ const SimulationControls: React.FC = () => {
         </div>
       </div>
       
+      {/* Server-side simulation loop */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm">
+          Server loop:
+          <span className="tooltip ml-1 text-xs text-slate-400">
+            ⓘ
+            <span className="tooltip-text">
+              Let the server run this world so it keeps evolving after the tab
+              is closed and can be watched by several people.
+            </span>
+          </span>
+        </span>
+        <button 
+          onClick={() => serverConnected ? disconnectFromServer() : connectToServer()}
+          className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded text-sm"
+        >
+          {serverConnected ? "Disconnect" : "Run on server"}
+        </button>
+      </div>
+      
+      {/* World seed */}
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor="seed" className="text-sm">Seed:</label>
+        <input
+          id="seed"
+          type="text"
+          inputMode="numeric"
+          placeholder={String(world.seed)}
+          value={seedInput}
+          onChange={(e) => setSeedInput(e.target.value)}
+          className="bg-slate-700 text-white px-2 py-1 rounded text-xs w-32"
+        />
+      </div>
+      
       {/* Sound toggle */}
       <div className="flex items-center justify-between">
         <span className="text-sm">Sound:</span>
@@ -132,6 +215,123 @@ const SimulationControls: React.FC = () => {
         </div>
       </div>
       
+      {/* World settings */}
+      <div className="border-t border-slate-700 pt-2">
+        <h3 className="text-sm font-semibold mb-2">World Settings</h3>
+        <div className="flex flex-col">
+          <label htmlFor="agentController" className="text-xs mb-1">
+            Agent Controller
+          </label>
+          <select
+            id="agentController"
+            value={world.settings.controller}
+            onChange={(e) => setWorldSettings({ controller: e.target.value as WorldSettings['controller'] })}
+            className="bg-slate-700 text-white px-2 py-1 rounded text-xs"
+          >
+            <option value="utility">Utility AI</option>
+            <option value="neural">Neural network (evolving)</option>
+          </select>
+        </div>
+        <div className="flex flex-col mt-2">
+          <label htmlFor="matingTypes" className="text-xs mb-1">
+            Mating Types
+          </label>
+          <select
+            id="matingTypes"
+            value={world.settings.matingTypes}
+            onChange={(e) => setWorldSettings({ matingTypes: Number(e.target.value) })}
+            className="bg-slate-700 text-white px-2 py-1 rounded text-xs"
+          >
+            <option value={0}>Hermaphrodites</option>
+            <option value={2}>Two sexes</option>
+            <option value={3}>3 mating types</option>
+            <option value={4}>4 mating types</option>
+          </select>
+        </div>
+        <div className="flex flex-col mt-2">
+          <label htmlFor="reproductionMode" className="text-xs mb-1">
+            Reproduction
+          </label>
+          <select
+            id="reproductionMode"
+            value={world.settings.reproductionMode}
+            onChange={(e) => setWorldSettings({ reproductionMode: e.target.value as WorldSettings['reproductionMode'] })}
+            className="bg-slate-700 text-white px-2 py-1 rounded text-xs"
+          >
+            <option value="sexual">Sexual (mating)</option>
+            <option value="asexual">Asexual (budding)</option>
+            <option value="heritable">Decided by asexuality gene</option>
+          </select>
+        </div>
+        <div className="flex flex-col mt-2">
+          <label htmlFor="consciousnessModel" className="text-xs mb-1">
+            Consciousness Model
+          </label>
+          <select
+            id="consciousnessModel"
+            value={world.settings.consciousnessModel}
+            onChange={(e) => setWorldSettings({ consciousnessModel: e.target.value as WorldSettings['consciousnessModel'] })}
+            className="bg-slate-700 text-white px-2 py-1 rounded text-xs"
+          >
+            {Object.values(CONSCIOUSNESS_MODELS).map(model => (
+              <option key={model.id} value={model.id}>{model.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-slate-300 mt-1">
+            <input
+              type="checkbox"
+              checked={world.settings.compareConsciousnessModels}
+              onChange={(e) => setWorldSettings({ compareConsciousnessModels: e.target.checked })}
+            />
+            Compare all models
+          </label>
+        </div>
+      </div>
+      
+      {/* Checkpoints */}
+      <div className="border-t border-slate-700 pt-2">
+        <h3 className="text-sm font-semibold mb-2">Checkpoints</h3>
+        <CheckpointControls />
+      </div>
+      
+      {/* World files */}
+      <div className="border-t border-slate-700 pt-2">
+        <h3 className="text-sm font-semibold mb-2">
+          World File
+          <span className="tooltip ml-1 text-xs text-slate-400">
+            ⓘ
+            <span className="tooltip-text">
+              Download the world as JSON to share it, or import a shared
+              world as a new simulation.
+            </span>
+          </span>
+        </h3>
+        <div className="flex gap-2">
+          <button 
+            onClick={handleExport}
+            className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded text-xs flex-1"
+          >
+            Export
+          </button>
+          <button 
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded text-xs flex-1"
+          >
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+        {importError && (
+          <div className="text-xs text-red-400 mt-1">{importError}</div>
+        )}
+      </div>
+      
       {/* Catastrophe Controls */}
       <div className="border-t border-slate-700 pt-2">
         <h3 className="text-sm font-semibold mb-2">
@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { useSimulation } from '../lib/stores/useSimulation';
+import { socialCommunities, socialEdges } from '../lib/relationships';
+import { simulationConfig } from '../config/simulationConfig';
+
+// Stable hue per community
+function communityColor(communityId: string): string {
+  let hash = 0;
+  for (let i = 0; i < communityId.length; i++) {
+    hash = (hash * 31 + communityId.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 65%, 55%)`;
+}
+
+/**
+ * Social network of the living agents, drawn where they stand in the world
+ * (seen from above). Bonds are green when the agents trust each other and
+ * red when they distrust each other; nodes are colored by community.
+ */
+const SocialGraphPanel: React.FC = () => {
+  const { world, focusedAgentId, setFocusedAgent } = useSimulation();
+  const { agents, statistics } = world;
+
+  const edges = useMemo(() => socialEdges(agents), [agents]);
+  const communities = useMemo(() => socialCommunities(agents, edges), [agents, edges]);
+  const positions = useMemo(() => new Map(agents.map(agent => [agent.id, agent.position])), [agents]);
+  const communityCount = new Set(
+    edges.flatMap(edge => [communities.get(edge.source), communities.get(edge.target)])
+  ).size;
+
+  const half = simulationConfig.world.size / 2;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <h2 className="text-lg font-bold">Social Network</h2>
+
+      {agents.length === 0 ? (
+        <div className="text-slate-400">No living agents.</div>
+      ) : (
+        <svg
+          viewBox={`${-half} ${-half} ${half * 2} ${half * 2}`}
+          className="w-full aspect-square bg-slate-900/60 rounded"
+        >
+          {edges.map(edge => {
+            const from = positions.get(edge.source)!;
+            const to = positions.get(edge.target)!;
+            return (
+              <line
+                key={`${edge.source}|${edge.target}`}
+                x1={from.x}
+                y1={from.z}
+                x2={to.x}
+                y2={to.z}
+                stroke={edge.trust > 0 ? '#37b24d' : edge.trust < 0 ? '#f03e3e' : '#868e96'}
+                strokeWidth={0.2 + edge.weight * 0.8}
+                strokeOpacity={0.7}
+              />
+            );
+          })}
+          {agents.map(agent => (
+            <circle
+              key={agent.id}
+              cx={agent.position.x}
+              cy={agent.position.z}
+              r={agent.id === focusedAgentId ? 2 : 1.2}
+              fill={communityColor(communities.get(agent.id) ?? agent.id)}
+              stroke={agent.id === focusedAgentId ? 'white' : 'none'}
+              strokeWidth={0.4}
+              className="cursor-pointer"
+              onClick={() => setFocusedAgent(agent.id)}
+            >
+              <title>{agent.id.substring(0, 4)}: {agent.relationships.length} known</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+
+      <div className="grid grid-cols-2 gap-x-2">
+        <div>Bonds:</div>
+        <div>{edges.length}</div>
+        <div>Communities:</div>
+        <div>{communityCount}</div>
+        <div title="How often two agents with a common friend are friends themselves">Clustering:</div>
+        <div>{statistics.clusteringCoefficient.toFixed(2)}</div>
+        <div title="How much more the bonds stay within communities than by chance">Modularity:</div>
+        <div>{statistics.modularity.toFixed(2)}</div>
+      </div>
+    </div>
+  );
+};
+
+export default SocialGraphPanel;
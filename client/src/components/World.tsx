@@ -115,7 +115,7 @@ const World: React.FC = () => {
           castShadow
         >
           {resource.type === 'food' ? (
-            <sphereGeometry args={[0.5, 8, 8]} />
+            <sphereGeometry args={[resource.harvesters ? 1 : 0.5, 8, 8]} />
           ) : resource.type === 'water' ? (
             <cylinderGeometry args={[0.5, 0.5, 0.2, 16]} />
           ) : (
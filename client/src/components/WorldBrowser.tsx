@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSimulation } from '../lib/stores/useSimulation';
+import { simulationApi } from '../lib/queryClient';
+
+interface SimulationSummary {
+  id: number;
+  name: string;
+  created_at: string;
+  last_updated: string;
+  last_viewed: string | null;
+  time_elapsed: number;
+  seed: number | null;
+  running: boolean;
+  archived: boolean;
+  population: number;
+}
+
+/**
+ * Browse, create, clone, archive and delete the stored worlds
+ */
+const WorldBrowser: React.FC = () => {
+  const { simulationId, selectSimulation, createNewSimulation } = useSimulation();
+
+  const [simulations, setSimulations] = useState<SimulationSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list: SimulationSummary[] = await simulationApi.listSimulations();
+      setSimulations(list ?? []);
+    } catch (error) {
+      console.error('Failed to load simulations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, simulationId]);
+
+  // Run an action with the buttons disabled and refresh the list afterwards
+  const withBusy = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('World browser action failed:', error);
+    }
+    setBusy(false);
+    refresh();
+  };
+
+  const handleCreate = () => withBusy(async () => {
+    const created = await createNewSimulation(name.trim() || `World ${simulations.length + 1}`);
+    if (created) setName('');
+  });
+
+  const handleDelete = (simulation: SimulationSummary) => {
+    if (!window.confirm(`Delete "${simulation.name}" with all its checkpoints?`)) return;
+    withBusy(() => simulationApi.deleteSimulation(simulation.id));
+  };
+
+  const visible = simulations.filter(simulation => showArchived || !simulation.archived);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold">Worlds</h2>
+        <label className="flex items-center gap-1 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Archived
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="New world name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="bg-slate-700 text-white px-2 py-1 rounded text-xs flex-1"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={busy}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-xs disabled:opacity-50"
+        >
+          Create
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {visible.length === 0 && (
+          <div className="text-xs text-slate-400">No stored worlds yet.</div>
+        )}
+
+        {visible.map(simulation => (
+          <div
+            key={simulation.id}
+            className={`p-2 rounded text-xs ${
+              simulation.id === simulationId ? 'bg-blue-900/60 ring-1 ring-blue-500' : 'bg-slate-700/60'
+            } ${simulation.archived ? 'opacity-60' : ''}`}
+          >
+            <div className="flex justify-between items-center">
+              <span className="font-semibold truncate">{simulation.name}</span>
+              {simulation.running && (
+                <span className="text-green-400">● running</span>
+              )}
+            </div>
+            <div className="text-slate-400 mt-1">
+              Day {Math.floor(simulation.time_elapsed)} · {simulation.population} agents
+              {simulation.seed !== null && ` · seed ${simulation.seed}`}
+            </div>
+            <div className="flex gap-1 mt-2">
+              <button
+                onClick={() => withBusy(() => selectSimulation(simulation.id))}
+                disabled={busy || simulation.id === simulationId}
+                className="bg-slate-600 hover:bg-slate-500 px-2 py-0.5 rounded disabled:opacity-50"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => withBusy(() => simulationApi.cloneSimulation(simulation.id))}
+                disabled={busy}
+                className="bg-slate-600 hover:bg-slate-500 px-2 py-0.5 rounded disabled:opacity-50"
+              >
+                Clone
+              </button>
+              <button
+                onClick={() => withBusy(() => simulationApi.archiveSimulation(simulation.id, !simulation.archived))}
+                disabled={busy}
+                className="bg-slate-600 hover:bg-slate-500 px-2 py-0.5 rounded disabled:opacity-50"
+              >
+                {simulation.archived ? 'Unarchive' : 'Archive'}
+              </button>
+              <button
+                onClick={() => handleDelete(simulation)}
+                disabled={busy || simulation.id === simulationId}
+                className="bg-red-700 hover:bg-red-600 px-2 py-0.5 rounded disabled:opacity-50 ml-auto"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WorldBrowser;
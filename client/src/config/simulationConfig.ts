@@ -11,7 +11,15 @@ export const simulationConfig = {
       water: 15,
       light: 10
     },
-    maxAgents: 100 // Maximum number of agents to prevent performance issues
+    maxAgents: 100, // Maximum number of agents to prevent performance issues
+    maxEvents: 500, // Most recent world events kept, older ones are dropped
+    defaultSettings: {
+      controller: 'utility' as 'utility' | 'neural', // Utility AI or evolvable neural brains
+      matingTypes: 0, // 0 for hermaphrodites, 2 for two sexes, N for N self-incompatible types
+      reproductionMode: 'sexual' as 'sexual' | 'asexual' | 'heritable', // Mating, budding, or decided by the asexuality gene
+      consciousnessModel: 'product' as 'product' | 'weightedSum' | 'globalWorkspace' | 'partition', // See consciousness.ts
+      compareConsciousnessModels: false // Evaluate all consciousness models side by side
+    }
   },
   
   // Time parameters
@@ -22,9 +30,18 @@ export const simulationConfig = {
     minTimeScale: 0.1 // Minimum time slow-motion
   },
   
+  // Server-side simulation loop
+  server: {
+    tickIntervalMs: 1000, // Same fixed interval as the client-side updater
+    tickDelta: 1 / 60, // Simulated time per tick at timeScale 1
+    persistEveryTicks: 30 // Save the world to the database every N ticks
+  },
+  
   // Agent parameters
   agents: {
     initialCount: 2, // Adam and Eve
+    interactionRange: 2, // Distance within which agents consume, communicate and mate
+    baseMovementSpeed: 0.5, // World units per simulated day of the founders; see genetics.loci for the inherited range
     initialTraits: {
       adam: {
         curiosity: 0.7,
@@ -42,17 +59,184 @@ export const simulationConfig = {
       }
     },
     reproductionSettings: {
-      defaultThreshold: 70, // Default consciousness threshold for reproduction
+      thresholds: {
+        // Consciousness needed to reproduce under each model (see consciousness.ts); the
+        // models spread adults over different ranges, so each threshold sits just below
+        // the lowest tenth of adult values with either controller
+        product: 15,
+        weightedSum: 45,
+        globalWorkspace: 30,
+        partition: 45
+      },
       cooldown: 100, // Time between reproductions
-      energyCost: 20 // Energy cost of reproduction
+      energyCost: 20, // Energy cost of reproduction
+      buddingEnergy: 80, // Energy an asexual agent needs before it buds
+      founderAsexuality: 0.3 // Asexuality gene of the founders (agents bud from 0.5 when the genes decide)
+    },
+    mating: {
+      courtshipCost: 3, // Energy a suitor spends on each courtship
+      maxCourtships: 2, // Partners an agent courts per step before giving up
+      defaultPreferences: {
+        // Mate preferences of the founders (0-1)
+        colorSimilarity: 0.3,
+        consciousness: 0.3,
+        complementarity: 0.3,
+        choosiness: 0.2
+      }
+    },
+    memory: {
+      shortTermCapacity: 50, // Recent experiences kept; the weakest is forgotten first
+      shortTermDecay: 0.02, // Share of a short-term memory's intensity lost per day
+      longTermCapacity: 20, // Generalized memories kept; the weakest is forgotten first
+      longTermDecay: 0.002, // Share of a long-term memory's strength lost per day
+      forgetThreshold: 0.05, // Memories weaker than this are forgotten
+      consolidationThreshold: 3, // Similar experiences needed before a place is remembered for good
+      generalizationRadius: 8, // Experiences this close together count as the same place
+      reinforcement: 0.2, // Share of the missing strength each further experience adds
+      extinctionRate: 0.5, // Share of strength lost per day while a remembered place is in sight but empty
+      sharedPlaceStrength: 0.5 // Strength of a place learned from a signal, relative to the speaker's memory
+    },
+    relationships: {
+      encounterFamiliarity: 0.05, // Familiarity gained per day spent within reach of another agent
+      conversationFamiliarity: 0.05, // Familiarity gained by speaker and hearer per conversation
+      understoodTrust: 0.05, // Trust gained by speaker and hearer when a signal is understood
+      mateBond: 0.3, // Familiarity and trust mates gain
+      birthFamiliarity: 0.8, // Familiarity between a parent and its newborn
+      refusalDistrust: 0.2, // Trust a suitor loses in a partner that refused it
+      sharingTrust: 0.05, // Trust gained per day consuming a plentiful resource together
+      competitionDistrust: 0.1, // Trust lost per day competing for a scarce resource
+      scarceAmount: 20, // Resource amount below which sharing turns into competition
+      familiarityDecay: 0.01, // Share of familiarity lost per day
+      trustDecay: 0.005, // Share of trust lost per day
+      forgetThreshold: 0.02, // Relationships with non-kin less familiar than this are forgotten
+      maxRelationships: 20, // Relationships kept per agent, closest first
+      bondThreshold: 0.2, // Familiarity that makes a relationship a bond of the social network
+      rivalTrust: -0.3 // Trust below which another agent is avoided
+    },
+    predation: {
+      initialPredators: 2, // Predator founders, a mating pair placed far from Adam and Eve
+      initialApexPredators: 0, // Founders of the optional third level, which hunts predators
+      founderSpeed: 0.75, // Movement speed of the hunting founders, faster than Adam and Eve (baseMovementSpeed)
+      founderPerception: 15, // Perception radius of the hunting founders (Adam and Eve see 10)
+      founderOffset: 20, // Hunting founders start around (±offset, ±offset) from the centre
+      huntingHunger: 60, // Hunger (or energy missing) from which hunters go after prey
+      scentRadius: 60, // Hungry hunters follow prey out of sight up to this distance
+      attackRange: 3, // Distance from which a hunter strikes prey; beyond interactionRange so fleeing prey can be caught
+      catchChance: 0.15, // Chance per attack to catch prey as fast as the hunter (faster hunters catch more)
+      energyTransfer: 0.8, // Share of the prey's energy the hunter gains
+      breedingEnergy: 50, // Energy a hunter needs to breed, so predators multiply with the prey they catch
+      hungerRelief: 60, // Hunger a catch removes
+      threatFlee: 0.8, // Urge to flee from a hunter in sight, rising to 1 as it comes closer
+      censusInterval: 5, // Days between counts of the trophic levels
+      maxCensusPoints: 500 // Counts kept per world
+    },
+    flocking: {
+      neighbourRadius: 8, // Agents farther away than this do not steer an agent
+      separationDistance: 1.5, // Agents closer than this push each other apart
+      cohesionWeight: 1.0, // Pull towards the neighbours' centre (scaled by social affinity)
+      alignmentWeight: 1.0, // Turn towards the neighbours' heading (scaled by social affinity)
+      separationWeight: 1.5, // Push away from neighbours that are too close
+      groupRadius: 4, // Agents this close to each other belong to the same group
+      minGroupSize: 2 // Smallest number of agents that counts as a group
+    },
+    cooperation: {
+      founderAltruism: 0.3, // Altruism gene of the founders
+      needThreshold: 40, // Hunger (or energy missing) from which another agent counts as in need
+      donorReserve: 50, // Energy a donor keeps for itself
+      shareAmount: 10, // Energy given per gift
+      shareHungerRelief: 0.8, // Hunger removed per unit of energy given (as when eating the food)
+      giftTrust: 0.1, // Trust a recipient gains in its donor
+      largeFoodCount: 5, // Large food resources in a new world
+      largeFoodAmount: 100, // Starting amount of a large food resource
+      harvesters: 2, // Agents it takes to harvest a large food resource (Adam and Eve can manage one together)
+      harvestBonus: 0.2, // Extra appeal of a large resource once enough harvesters are there or on their way
+      harvestAmount: 10, // Food each harvester gets from a large resource per harvest
+      harvestTrust: 0.05 // Familiarity and trust harvesters gain in each other
+    },
+    language: {
+      initialScore: 0.5, // Confidence in an invented or newly heard signal (0-1)
+      successReward: 0.1, // Confidence speaker and hearer gain when a signal is understood
+      failurePenalty: 0.1, // Confidence the speaker loses when a signal is misunderstood
+      inhibition: 0.2, // Confidence competing signals for the same referent lose after a success
+      transmissionFidelity: 0.9 // Chance that a newborn learns each of its parents' signals
+    },
+    utility: {
+      minTemperature: 0.05, // Softmax temperature at adaptability 0 (nearly always the best action)
+      maxTemperature: 0.3, // Softmax temperature at adaptability 1
+      memoryWindow: 20, // Days within which repeating an interaction is less appealing
+      crowdSize: 3 // Agents within reach that count as a crowd
+    },
+    neural: {
+      hiddenSize: 8, // Hidden units per brain
+      recurrent: true, // Feed the hidden state back in on the next step
+      initialWeightScale: 0.5, // Standard deviation of the initial weights
+      mutationStrength: 0.3 // Standard deviation of weight mutations
+    },
+    genetics: {
+      crossover: 'uniform' as 'uniform' | 'singlePoint', // How each parent's two chromosomes recombine
+      dominantChance: 0.5, // Chance that a founder allele is dominant
+      gaussianStrength: 0.08, // Standard deviation of gaussian mutations (allele values are 0-1)
+      mutationOperators: {
+        // Relative weight of each operator when an allele mutates
+        gaussian: 0.7, // Small step around the current value
+        reset: 0.1, // Entirely new value
+        dominanceFlip: 0.2 // Dominant becomes recessive and vice versa
+      },
+      loci: {
+        // Expressed range of the non-trait loci (traits are 0-1, colors 0-255)
+        perceptionRadius: [2, 20] as [number, number],
+        movementSpeed: [0.1, 1] as [number, number],
+        lifespan: [500, 2000] as [number, number],
+        mutationRate: [0.01, 0.3] as [number, number]
+      }
+    },
+    needs: {
+      // Increase per day at neutral temperature (100 is fatal)
+      hungerRate: 0.12,
+      thirstRate: 0.2,
+      fatigueRate: 0.1,
+      movementFatigue: 0.5, // Extra fatigue factor while moving
+      restRecovery: 0.6, // Fatigue recovered per day while idle in full light
+      heatThirstFactor: 2.0, // Thirst multiplier added per unit of temperature above neutral
+      coldHungerFactor: 1.5, // Hunger multiplier added per unit of temperature below neutral
+      extremeFatigueFactor: 1.0, // Fatigue multiplier added per unit of distance from neutral
+      weatherThirst: {
+        clear: 1.0,
+        rain: 0.7,
+        storm: 0.8,
+        drought: 1.6
+      },
+      relief: {
+        food: 4, // Hunger removed per unit of food consumed
+        water: 6, // Thirst removed per unit of water consumed
+        light: 3 // Fatigue removed per unit of light absorbed (light is not used up)
+      },
+      urgentThreshold: 50 // Needs above this take priority over other behaviour
     },
     consciciousnessCalculation: {
+      // Component weights of the weighted-sum model
       integrationWeight: 0.4,
       selfModelingWeight: 0.3,
-      decisionFreedomWeight: 0.3
+      decisionFreedomWeight: 0.3,
+      ignitionThreshold: 0.3, // Signal a module needs to enter the global workspace
+      phiInterval: 10, // Days between Φ estimates of an agent's brain (neural controller only)
+      phiMaxUnits: 10, // Largest brain (hidden units) Φ is estimated for; larger ones use the approximation
+      phiScale: 1, // Bits of Φ that bring the integration component halfway to 1
+      historyInterval: 5, // Days between samples of the consciousness components
+      agentHistoryLength: 50, // Samples kept per agent
+      populationHistoryLength: 500 // Population averages kept per world
     }
   },
   
+  // Species tracking
+  speciation: {
+    compatibilityThreshold: 0.3, // Genetic distance below which two agents belong to one species
+    disjointWeight: 1.0, // Weight of loci only one genome carries
+    alleleWeight: 1.0, // Weight of the mean allele difference at shared loci
+    censusInterval: 10, // Days between population samples of each species
+    maxCensusPoints: 500 // Population samples kept per species
+  },
+  
   // Environmental parameters
   environment: {
     defaultParameters: {
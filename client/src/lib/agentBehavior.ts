@@ -1,4 +1,3 @@
-import { v4 as uuidv4 } from 'uuid';
 import { 
   Agent, 
   Vector3D, 
@@ -6,17 +5,56 @@ import {
   Resource,
   EnvironmentalParameters,
   WorldEvent,
-  Cell
+  WorldSettings,
+  Cell,
+  DeathCause,
+  Genome,
+  BrainGenome,
+  TrophicLevel
 } from './types';
-import { calculateConsciousness } from './consciousness';
+import { reproductionThreshold, updateConsciousness } from './consciousness';
+import { recordConsciousnessSample } from './consciousnessHistory';
+import { addMemory, updateMemories } from './memory';
+import { inheritLexicon } from './language';
+import { strengthenRelationship } from './relationships';
+import { flockingDirection } from './flocking';
+import { fedEnoughToBreed, huntsAgents, isPreyOf } from './predation';
 import { mutateAgent } from './evolutionSystem';
+import { cloneAgent, trackChanges, turnOrder } from './agentChanges';
+import { Random } from './random';
+import { mostUrgentNeed, nearestPerceived, NEED_RESOURCES, selectAction } from './utilityAI';
+import { brainInputs, createBrain, crossoverBrains, decideNeuralAction } from './neuralBrain';
+import { estimatePhi, phiDue } from './integratedInformation';
+import { crossoverGenomes, expressGenome, genomeFromPhenotype } from './genome';
+import { acceptsMate, mateAttractiveness } from './mateChoice';
+import { compatibleMatingTypes, randomMatingType } from './matingTypes';
+import { readyToBud, reproducesAsexually } from './budding';
+import { simulationConfig } from '../config/simulationConfig';
+
+const DEATH_DESCRIPTIONS: Record<DeathCause, string> = {
+  starvation: 'starved',
+  dehydration: 'died of thirst',
+  exhaustion: 'died of exhaustion',
+  oldAge: 'died of old age',
+  predation: 'was eaten'
+};
+
+// Founder colors of the hunting levels
+const HUNTER_COLORS: Record<Exclude<TrophicLevel, 'herbivore'>, string> = {
+  predator: '#8B1A1A', // dark red
+  apex: '#5F3DC4' // violet
+};
 
 /**
- * Create the initial Adam and Eve agents
+ * Create the initial Adam and Eve agents; with mating types Eve is type 0
+ * (female) and Adam type 1 (male). The configured predator and apex
+ * founders start on opposite sides of Adam and Eve.
  */
-export function createInitialAgents(): Agent[] {
+export function createInitialAgents(settings: WorldSettings, rng: Random): Agent[] {
+  const withMatingTypes = settings.matingTypes >= 2;
+
   // Create Adam
-  const adam: Agent = {
+  const adamPhenotype: Omit<Agent, 'genome'> = {
     id: 'adam',
     position: { x: -2, y: 0, z: 0 },
     rotation: { x: 0, y: 0, z: 0 },
@@ -28,7 +66,7 @@ export function createInitialAgents(): Agent[] {
     lifespan: 1000, // in simulation time units
     generation: 1,
     perceptionRadius: 10,
-    movementSpeed: 0.05,
+    movementSpeed: simulationConfig.agents.baseMovementSpeed,
     sensorValues: {
       visualInput: [],
       auditoryInput: [],
@@ -37,7 +75,10 @@ export function createInitialAgents(): Agent[] {
       resourceLevels: { light: 0, food: 0, water: 0 }
     },
     memory: [],
-    reproductionThreshold: 70, // consciousness threshold for reproduction
+    longTermMemory: [],
+    lexicon: [],
+    relationships: [],
+    reproductionThreshold: reproductionThreshold(settings.consciousnessModel),
     mutationRate: 0.1,
     consciousnessValue: 0, // Will be calculated
     lastReproductionTime: 0,
@@ -49,29 +90,83 @@ export function createInitialAgents(): Agent[] {
       resourceAffinity: 0.5,
       exploration: 0.8,
       adaptability: 0.6
-    }
+    },
+    needs: { hunger: 0, thirst: 0, fatigue: 0 },
+    matePreferences: { ...simulationConfig.agents.mating.defaultPreferences },
+    offspringCount: 0,
+    matingType: withMatingTypes ? 1 : 0,
+    asexuality: simulationConfig.agents.reproductionSettings.founderAsexuality,
+    altruism: simulationConfig.agents.cooperation.founderAltruism,
+    parentIds: [],
+    speciesId: '', // Assigned when the world sorts its founders into species
+    trophicLevel: 'herbivore',
+    brain: createBrain(rng),
+    brainState: [],
+    consciousnessHistory: []
   };
+  const adam: Agent = { ...adamPhenotype, genome: genomeFromPhenotype(adamPhenotype, rng) };
   
   // Create Eve with slightly different traits
-  const eve: Agent = {
-    ...adam,
+  const evePhenotype: Omit<Agent, 'genome'> = {
+    ...adamPhenotype,
     id: 'eve',
     position: { x: 2, y: 0, z: 0 },
     color: '#EA4335', // red
+    matingType: 0,
     traits: {
       curiosity: 0.6,
       socialAffinity: 0.8,
       resourceAffinity: 0.7,
       exploration: 0.5,
       adaptability: 0.7
-    }
+    },
+    needs: { hunger: 0, thirst: 0, fatigue: 0 },
+    brain: createBrain(rng)
   };
+  const eve: Agent = { ...evePhenotype, genome: genomeFromPhenotype(evePhenotype, rng) };
   
   // Calculate initial consciousness values
-  adam.consciousnessValue = calculateConsciousness(adam);
-  eve.consciousnessValue = calculateConsciousness(eve);
-  
-  return [adam, eve];
+  recordConsciousnessSample(adam, updateConsciousness(adam, settings), 0);
+  recordConsciousnessSample(eve, updateConsciousness(eve, settings), 0);
+  
+  const { initialPredators, initialApexPredators, founderOffset } = simulationConfig.agents.predation;
+  return [
+    adam,
+    eve,
+    ...createHunters('predator', initialPredators, { x: founderOffset, y: 0, z: founderOffset }, adamPhenotype, settings, rng),
+    ...createHunters('apex', initialApexPredators, { x: -founderOffset, y: 0, z: -founderOffset }, adamPhenotype, settings, rng)
+  ];
+}
+
+/**
+ * Founders of a hunting level, side by side from `corner` with alternating mating types
+ */
+function createHunters(
+  level: Exclude<TrophicLevel, 'herbivore'>,
+  count: number,
+  corner: Vector3D,
+  template: Omit<Agent, 'genome'>,
+  settings: WorldSettings,
+  rng: Random
+): Agent[] {
+  return Array.from({ length: count }, (_, i) => {
+    const phenotype: Omit<Agent, 'genome'> = {
+      ...template,
+      id: `${level}-${i + 1}`,
+      position: { x: corner.x - Math.sign(corner.x) * i * 2, y: 0, z: corner.z },
+      color: HUNTER_COLORS[level],
+      movementSpeed: simulationConfig.agents.predation.founderSpeed,
+      perceptionRadius: simulationConfig.agents.predation.founderPerception,
+      matingType: settings.matingTypes >= 2 ? i % settings.matingTypes : 0,
+      trophicLevel: level,
+      traits: { ...template.traits, socialAffinity: 0.4, exploration: 0.7 },
+      needs: { hunger: 0, thirst: 0, fatigue: 0 },
+      brain: createBrain(rng)
+    };
+    const hunter: Agent = { ...phenotype, genome: genomeFromPhenotype(phenotype, rng) };
+    recordConsciousnessSample(hunter, updateConsciousness(hunter, settings), 0);
+    return hunter;
+  });
 }
 
 /**
@@ -82,30 +177,26 @@ export function updateAgents(
   resources: Resource[],
   environmentalParameters: EnvironmentalParameters,
   cellGrid: Cell[][],
-  deltaTime: number
-): { updatedAgents: Agent[], newAgents: Agent[], events: WorldEvent[] } {
+  deltaTime: number,
+  currentTime: number,
+  settings: WorldSettings,
+  rng: Random
+): { updatedAgents: Agent[], events: WorldEvent[] } {
   const updatedAgents: Agent[] = [];
   const events: WorldEvent[] = [];
   
   // Agents that are alive after this update
   for (const agent of agents) {
-    // Skip if agent has no energy left
-    if (agent.energy <= 0) {
-      // Record death event
-      events.push({
-        id: uuidv4(),
-        type: 'death',
-        timestamp: Date.now(),
-        duration: 0,
-        affectedAgents: [agent.id],
-        description: `Agent ${agent.id} died at age ${agent.age}`
-      });
+    // Skip if agent has no energy left or a need has become fatal
+    const cause = fatalNeed(agent);
+    if (cause) {
+      events.push(createDeathEvent(agent, cause, agent.age, currentTime, rng));
       continue;
     }
     
-    // Age the agent
+    // Age the agent (nested state is copied so the input agents stay untouched)
     const updatedAgent = {
-      ...agent,
+      ...cloneAgent(agent),
       age: agent.age + deltaTime
     };
     
@@ -116,33 +207,39 @@ export function updateAgents(
     updateSensorValues(updatedAgent, agents, resources, cellGrid);
     
     // Decide and perform action
-    const action = decideAction(updatedAgent, agents, resources);
-    performAction(updatedAgent, action, resources, agents, deltaTime);
+    const action = decideAction(updatedAgent, agents, resources, currentTime, settings, rng);
+    
+    // Brains that drive the agent get a cached estimate of their integrated information
+    if (settings.controller !== 'neural') {
+      updatedAgent.phi = undefined;
+    } else if (phiDue(updatedAgent, currentTime)) {
+      updatedAgent.phi = estimatePhi(updatedAgent.brain, brainInputs(updatedAgent, resources), currentTime);
+    }
+    
+    performAction(updatedAgent, action, resources, agents, deltaTime, currentTime, rng);
+    
+    // Hunger, thirst and fatigue grow depending on temperature and activity
+    updateNeeds(updatedAgent, action, environmentalParameters, deltaTime);
     
     // Record the action in memory if significant
     if (action !== 'idle') {
       addMemory(updatedAgent, {
-        timestamp: Date.now(),
+        timestamp: currentTime,
         type: 'action',
         data: { action },
         intensity: 0.5
       });
     }
     
-    // Update consciousness value
-    updatedAgent.consciousnessValue = calculateConsciousness(updatedAgent);
+    // Let memories fade and consolidate repeated experiences
+    updateMemories(updatedAgent, resources, deltaTime, currentTime);
+    
+    // Update consciousness value and sample its components
+    recordConsciousnessSample(updatedAgent, updateConsciousness(updatedAgent, settings), currentTime);
     
     // Check if agent has died of old age
     if (updatedAgent.age >= updatedAgent.lifespan) {
-      // Record death event
-      events.push({
-        id: uuidv4(),
-        type: 'death',
-        timestamp: Date.now(),
-        duration: 0,
-        affectedAgents: [agent.id],
-        description: `Agent ${agent.id} died of old age at ${updatedAgent.age}`
-      });
+      events.push(createDeathEvent(agent, 'oldAge', updatedAgent.age, currentTime, rng));
       continue;
     }
     
@@ -150,7 +247,81 @@ export function updateAgents(
     updatedAgents.push(updatedAgent);
   }
   
-  return { updatedAgents, newAgents: [], events };
+  return { updatedAgents, events };
+}
+
+/**
+ * Cause of death if the agent has run out of energy or a need has become fatal
+ */
+function fatalNeed(agent: Agent): DeathCause | null {
+  if (agent.needs.thirst >= 100) return 'dehydration';
+  if (agent.needs.hunger >= 100 || agent.energy <= 0) return 'starvation';
+  if (agent.needs.fatigue >= 100) return 'exhaustion';
+  return null;
+}
+
+/**
+ * Record the death of an agent
+ */
+function createDeathEvent(
+  agent: Agent,
+  cause: DeathCause,
+  age: number,
+  currentTime: number,
+  rng: Random
+): WorldEvent {
+  return {
+    id: rng.id(),
+    type: 'death',
+    timestamp: currentTime,
+    duration: 0,
+    affectedAgents: [agent.id],
+    description: `Agent ${agent.id} ${DEATH_DESCRIPTIONS[cause]} at age ${age.toFixed(1)}`,
+    cause
+  };
+}
+
+/**
+ * Let the agent's needs grow. Heat makes agents thirsty, cold makes them
+ * hungry and both extremes tire them; resting recovers from fatigue,
+ * faster in bright cells.
+ */
+function updateNeeds(
+  agent: Agent,
+  action: AgentAction,
+  environmentalParameters: EnvironmentalParameters,
+  deltaTime: number
+): void {
+  const config = simulationConfig.agents.needs;
+  const { temperature, weatherCondition } = environmentalParameters;
+  
+  const heat = Math.max(0, temperature - 0.5) * 2;
+  const cold = Math.max(0, 0.5 - temperature) * 2;
+  
+  const hungerRate = config.hungerRate * (1 + cold * config.coldHungerFactor);
+  const thirstRate = config.thirstRate
+    * (1 + heat * config.heatThirstFactor)
+    * config.weatherThirst[weatherCondition];
+  
+  const moving = action === 'move' || action === 'explore' || action === 'approach' || action === 'avoid';
+  const fatigueRate = config.fatigueRate
+    * (1 + (heat + cold) * config.extremeFatigueFactor)
+    * (moving ? 1 + config.movementFatigue : 1);
+  
+  // Resting recovers fatigue, more so in well-lit cells
+  const recovery = action === 'idle'
+    ? config.restRecovery * (0.5 + 0.5 * agent.sensorValues.resourceLevels.light)
+    : 0;
+  
+  agent.needs = {
+    hunger: clampNeed(agent.needs.hunger + hungerRate * deltaTime),
+    thirst: clampNeed(agent.needs.thirst + thirstRate * deltaTime),
+    fatigue: clampNeed(agent.needs.fatigue + (fatigueRate - recovery) * deltaTime)
+  };
+}
+
+function clampNeed(value: number): number {
+  return Math.max(0, Math.min(100, value));
 }
 
 /**
@@ -174,15 +345,16 @@ function updateSensorValues(
           type: 'agent',
           distance,
           direction: calculateDirection(agent.position, otherAgent.position),
-          id: otherAgent.id
+          id: otherAgent.id,
+          threat: isPreyOf(otherAgent, agent)
         });
       }
     }
   });
   
-  // Detect nearby resources
+  // Detect nearby resources (on the ground plane, light sources hang above it)
   resources.forEach(resource => {
-    const distance = calculateDistance(agent.position, resource.position);
+    const distance = calculateDistance(agent.position, { ...resource.position, y: agent.position.y });
     if (distance <= agent.perceptionRadius) {
       agent.sensorValues.proximity.push({
         type: 'resource',
@@ -208,71 +380,31 @@ function updateSensorValues(
 }
 
 /**
- * Decide which action the agent should take based on its current state
+ * Decide which action the agent should take based on its current state.
+ *
+ * Depending on the world's controller setting, actions are chosen by the
+ * utility AI (`utilityAI.ts`) or the agent's own neural network
+ * (`neuralBrain.ts`); the scores are kept on the agent for inspection.
+ * Targeted actions are aimed at `targetId`: resources and agents within
+ * `simulationConfig.agents.interactionRange` are interacted with, farther
+ * ones approached. The utility AI may instead head for `targetPosition`, a
+ * remembered place out of sight.
  */
 function decideAction(
   agent: Agent,
   allAgents: Agent[],
-  resources: Resource[]
+  resources: Resource[],
+  currentTime: number,
+  settings: WorldSettings,
+  rng: Random
 ): AgentAction {
-  // Low energy? Look for food
-  if (agent.energy < 30) {
-    const nearbyFood = agent.sensorValues.proximity.find(
-      p => p.type === 'resource' && resources.find(r => r.id === p.id)?.type === 'food'
-    );
-    if (nearbyFood) {
-      return 'approach';
-    }
-    return 'explore';
-  }
-  
-  // Reproduction ready?
-  if (
-    agent.consciousnessValue >= agent.reproductionThreshold && 
-    agent.age > agent.lastReproductionTime + agent.reproductionCooldown
-  ) {
-    // Look for another agent to reproduce with
-    const nearbyAgent = agent.sensorValues.proximity.find(p => p.type === 'agent');
-    if (nearbyAgent) {
-      // Find the other agent
-      const partner = allAgents.find(a => a.id === nearbyAgent.id);
-      if (
-        partner && 
-        partner.consciousnessValue >= partner.reproductionThreshold &&
-        partner.age > partner.lastReproductionTime + partner.reproductionCooldown
-      ) {
-        return 'reproduce';
-      }
-      return 'approach';
-    }
-    return 'explore';
-  }
-  
-  // Default behaviors based on traits
-  
-  // Curious agents explore more
-  if (Math.random() < agent.traits.curiosity * 0.3) {
-    return 'explore';
-  }
-  
-  // Social agents approach others
-  if (Math.random() < agent.traits.socialAffinity * 0.3) {
-    const nearbyAgent = agent.sensorValues.proximity.find(p => p.type === 'agent');
-    if (nearbyAgent) {
-      return 'approach';
-    }
-  }
-  
-  // Resource-focused agents seek resources
-  if (Math.random() < agent.traits.resourceAffinity * 0.3) {
-    const nearbyResource = agent.sensorValues.proximity.find(p => p.type === 'resource');
-    if (nearbyResource) {
-      return 'approach';
-    }
-  }
-  
-  // Default: explore or idle
-  return Math.random() < 0.7 ? 'explore' : 'idle';
+  const { action, targetId, targetPosition, scores } = settings.controller === 'neural'
+    ? decideNeuralAction(agent, resources, rng)
+    : selectAction({ agent, allAgents, resources, currentTime, settings }, rng);
+  agent.targetId = targetId;
+  agent.targetPosition = targetPosition;
+  agent.actionScores = scores;
+  return action;
 }
 
 /**
@@ -283,36 +415,48 @@ function performAction(
   action: AgentAction,
   resources: Resource[],
   allAgents: Agent[],
-  deltaTime: number
+  deltaTime: number,
+  currentTime: number,
+  rng: Random
 ): void {
   agent.lastAction = action;
   
   switch (action) {
     case 'move':
-      // Simple random movement
+      // Random movement, drawn along by the agents around (flocking.ts)
+      const flock = flockingDirection(agent, allAgents);
       agent.velocity = {
-        x: (Math.random() * 2 - 1) * agent.movementSpeed,
+        x: (rng.next() * 2 - 1 + flock.x) * agent.movementSpeed,
         y: 0,
-        z: (Math.random() * 2 - 1) * agent.movementSpeed
+        z: (rng.next() * 2 - 1 + flock.z) * agent.movementSpeed
       };
       break;
       
     case 'explore':
-      // More purposeful movement in a direction
-      const angle = Math.random() * Math.PI * 2;
+      // More purposeful movement: keep the current heading with a slight turn,
+      // steered like a boid by the agents around
+      const heading = agent.rotation.y + (rng.next() - 0.5) * Math.PI / 2;
+      const steering = flockingDirection(agent, allAgents);
+      const exploreDirection = normalizeVector({
+        x: Math.sin(heading) + steering.x,
+        y: 0,
+        z: Math.cos(heading) + steering.z
+      });
       agent.velocity = {
-        x: Math.cos(angle) * agent.movementSpeed,
+        x: exploreDirection.x * agent.movementSpeed,
         y: 0,
-        z: Math.sin(angle) * agent.movementSpeed
+        z: exploreDirection.z * agent.movementSpeed
       };
       break;
       
     case 'approach':
-      // Move toward the nearest entity of interest
-      const nearest = agent.sensorValues.proximity.sort((a, b) => a.distance - b.distance)[0];
-      if (nearest) {
-        const direction = nearest.direction;
-        const normalizedDir = normalizeVector(direction);
+      // Move toward the target, a remembered place, or the nearest entity of interest without either
+      const target = agent.sensorValues.proximity.find(p => p.id === agent.targetId);
+      const approachDirection = target?.direction
+        ?? (agent.targetPosition && calculateDirection(agent.position, agent.targetPosition))
+        ?? agent.sensorValues.proximity.sort((a, b) => a.distance - b.distance)[0]?.direction;
+      if (approachDirection) {
+        const normalizedDir = normalizeVector(approachDirection);
         agent.velocity = {
           x: normalizedDir.x * agent.movementSpeed,
           y: 0,
@@ -322,8 +466,9 @@ function performAction(
       break;
       
     case 'avoid':
-      // Move away from the nearest entity
-      const threat = agent.sensorValues.proximity.sort((a, b) => a.distance - b.distance)[0];
+      // Move away from the target, or the nearest entity without one
+      const threat = agent.sensorValues.proximity.find(p => p.id === agent.targetId)
+        ?? agent.sensorValues.proximity.sort((a, b) => a.distance - b.distance)[0];
       if (threat) {
         const direction = threat.direction;
         const normalizedDir = normalizeVector(direction);
@@ -336,25 +481,42 @@ function performAction(
       break;
       
     case 'consume':
-      // Consume nearby resources for energy
-      const nearbyFood = agent.sensorValues.proximity.find(p => p.type === 'resource');
-      if (nearbyFood) {
-        const resourceIndex = resources.findIndex(r => r.id === nearbyFood.id);
-        if (resourceIndex !== -1) {
+      // Stop and consume the targeted resource (or the one relieving the most pressing need)
+      agent.velocity = { x: 0, y: 0, z: 0 };
+      const consumable = findConsumable(agent, resources);
+      if (consumable && consumable.distance <= simulationConfig.agents.interactionRange) {
+        const resourceIndex = resources.findIndex(r => r.id === consumable.id);
+        if (resourceIndex !== -1 && resources[resourceIndex].harvesters) {
+          // Large resources are harvested together once every agent has acted (cooperation.ts)
+          agent.targetId = consumable.id;
+        } else if (resourceIndex !== -1) {
           const resource = resources[resourceIndex];
+          const relief = simulationConfig.agents.needs.relief;
           
-          // Consume some of the resource
+          // Consume some of the resource (light is absorbed, not used up)
           const amountConsumed = Math.min(resource.amount, 10);
-          resources[resourceIndex].amount -= amountConsumed;
+          if (resource.type !== 'light') {
+            resources[resourceIndex].amount -= amountConsumed;
+          }
           
-          // Gain energy
-          agent.energy = Math.min(100, agent.energy + amountConsumed * 5);
+          switch (resource.type) {
+            case 'food':
+              agent.energy = Math.min(100, agent.energy + amountConsumed * 5);
+              agent.needs.hunger = clampNeed(agent.needs.hunger - amountConsumed * relief.food);
+              break;
+            case 'water':
+              agent.needs.thirst = clampNeed(agent.needs.thirst - amountConsumed * relief.water);
+              break;
+            case 'light':
+              agent.needs.fatigue = clampNeed(agent.needs.fatigue - amountConsumed * relief.light);
+              break;
+          }
           
           // Add memory of consumption
           addMemory(agent, {
-            timestamp: Date.now(),
+            timestamp: currentTime,
             type: 'action',
-            data: { action: 'consume', resourceType: resource.type, amount: amountConsumed },
+            data: { action: 'consume', resourceType: resource.type, amount: amountConsumed, position: { ...resource.position } },
             intensity: 0.7
           });
         }
@@ -363,16 +525,20 @@ function performAction(
       
     case 'reproduce':
       // Reproduction is handled separately
-      // Just mark the agent as ready
+      // Just mark the agent as ready and wait for the partner
+      agent.velocity = { x: 0, y: 0, z: 0 };
       break;
       
     case 'communicate':
-      // Simple communication
-      // In a more complex simulation, this would involve language evolution
-      const nearbyAgent = agent.sensorValues.proximity.find(p => p.type === 'agent');
+      // Stop and address the target (or the nearest agent); the naming game
+      // with the hearer is played once every agent has acted (language.ts)
+      agent.velocity = { x: 0, y: 0, z: 0 };
+      const nearbyAgent = agent.sensorValues.proximity.find(p => p.id === agent.targetId && p.type === 'agent')
+        ?? nearestPerceived(agent, p => p.type === 'agent');
+      agent.targetId = nearbyAgent?.id;
       if (nearbyAgent) {
         addMemory(agent, {
-          timestamp: Date.now(),
+          timestamp: currentTime,
           type: 'action',
           data: { action: 'communicate', targetId: nearbyAgent.id },
           intensity: 0.6
@@ -380,6 +546,20 @@ function performAction(
       }
       break;
       
+    case 'share':
+      // Stop and give food to the target; the energy changes hands once
+      // every agent has acted (cooperation.ts)
+      agent.velocity = { x: 0, y: 0, z: 0 };
+      if (agent.targetId) {
+        addMemory(agent, {
+          timestamp: currentTime,
+          type: 'action',
+          data: { action: 'share', targetId: agent.targetId },
+          intensity: 0.6
+        });
+      }
+      break;
+      
     case 'idle':
     default:
       // Do nothing
@@ -402,79 +582,207 @@ function performAction(
 }
 
 /**
- * Handle agent reproduction
+ * Nearby resource to consume: the target, one matching the most pressing need, else the nearest
+ */
+function findConsumable(agent: Agent, resources: Resource[]) {
+  // Hunters cannot digest plants, and their attacks on prey are resolved by huntPrey
+  const hunter = huntsAgents(agent);
+  if (hunter && agent.sensorValues.proximity.some(p => p.id === agent.targetId && p.type === 'agent')) {
+    return undefined;
+  }
+  const nearbyResources = agent.sensorValues.proximity.filter(
+    p => p.type === 'resource' && !(hunter && resources.find(r => r.id === p.id)?.type === 'food')
+  );
+  const target = nearbyResources.find(p => p.id === agent.targetId);
+  if (target) return target;
+  
+  const need = mostUrgentNeed(agent);
+  
+  if (need) {
+    const matching = nearbyResources.find(
+      p => resources.find(r => r.id === p.id)?.type === NEED_RESOURCES[need]
+    );
+    if (matching) return matching;
+  }
+  
+  return nearestPerceived(agent, p => nearbyResources.includes(p));
+}
+
+/**
+ * Resolve the attacks of hunters on prey within reach. An attack succeeds
+ * with the catch chance, scaled by how much faster the hunter is than its
+ * prey; caught prey dies and feeds the hunter, prey that escapes remembers
+ * the attack.
+ */
+export function huntPrey(
+  agents: Agent[],
+  currentTime: number,
+  rng: Random
+): { survivors: Agent[], events: WorldEvent[] } {
+  const { predation } = simulationConfig.agents;
+  const changes = trackChanges(agents);
+  const caught = new Set<string>();
+  const events: WorldEvent[] = [];
+  
+  const attackers = agents.filter(agent => huntsAgents(agent) && agent.lastAction === 'consume' && agent.targetId);
+  
+  for (const attacker of turnOrder(attackers, rng)) {
+    const prey = changes.current(attacker.targetId!);
+    if (caught.has(attacker.id) || !prey || caught.has(prey.id) || !isPreyOf(attacker, prey)) continue;
+    if (calculateDistance(attacker.position, prey.position) > predation.attackRange) continue;
+    
+    const chance = predation.catchChance * attacker.movementSpeed / Math.max(0.01, prey.movementSpeed);
+    if (rng.next() >= Math.min(1, chance)) {
+      addMemory(changes.change(prey), {
+        timestamp: currentTime,
+        type: 'encounter',
+        data: { event: 'attacked', by: attacker.id },
+        intensity: 0.9
+      });
+      continue;
+    }
+    
+    caught.add(prey.id);
+    events.push(createDeathEvent(prey, 'predation', prey.age, currentTime, rng));
+    
+    const hunter = changes.change(attacker);
+    hunter.energy = Math.min(100, hunter.energy + prey.energy * predation.energyTransfer);
+    hunter.needs.hunger = clampNeed(hunter.needs.hunger - predation.hungerRelief);
+    addMemory(hunter, {
+      timestamp: currentTime,
+      type: 'action',
+      data: { action: 'hunt', preyId: prey.id },
+      intensity: 0.8
+    });
+  }
+  
+  return {
+    survivors: changes.apply(agents.filter(agent => !caught.has(agent.id))),
+    events
+  };
+}
+
+/**
+ * Handle agent reproduction. Ready sexual agents court the most attractive
+ * ready partners within reach, paying energy for each courtship, and only
+ * mate when both accept each other; asexual agents with an energy surplus
+ * bud off a mutated clone.
  */
 export function reproduceAgents(
   agents: Agent[],
-  currentTime: number
+  currentTime: number,
+  settings: WorldSettings,
+  rng: Random
 ): { reproducedAgents: Agent[], offspringAgents: Agent[] } {
-  const reproducedAgents: Agent[] = [];
+  const { interactionRange, mating, reproductionSettings, relationships } = simulationConfig.agents;
+  const changes = trackChanges(agents);
   const offspringAgents: Agent[] = [];
+  const mated = new Set<string>();
   
   // Group potential reproduction partners
   const readyAgents = agents.filter(
     agent => 
+      !reproducesAsexually(agent, settings) &&
       agent.consciousnessValue >= agent.reproductionThreshold && 
       agent.lastAction === 'reproduce' &&
-      agent.age > agent.lastReproductionTime + agent.reproductionCooldown
+      agent.age > agent.lastReproductionTime + agent.reproductionCooldown &&
+      fedEnoughToBreed(agent)
   );
   
-  // Find pairs of agents that are close to each other
-  for (let i = 0; i < readyAgents.length; i++) {
-    const agent1 = readyAgents[i];
-    
+  for (const suitor of turnOrder(readyAgents, rng)) {
     // Already reproduced in this cycle
-    if (reproducedAgents.includes(agent1)) continue;
+    if (mated.has(suitor.id)) continue;
     
-    for (let j = i + 1; j < readyAgents.length; j++) {
-      const agent2 = readyAgents[j];
-      
-      // Already reproduced in this cycle
-      if (reproducedAgents.includes(agent2)) continue;
+    // Acceptable partners within reach, most attractive first
+    const candidates = readyAgents
+      .filter(candidate =>
+        candidate.id !== suitor.id &&
+        !mated.has(candidate.id) &&
+        candidate.trophicLevel === suitor.trophicLevel &&
+        compatibleMatingTypes(suitor, candidate, settings.matingTypes) &&
+        calculateDistance(suitor.position, candidate.position) <= interactionRange &&
+        acceptsMate(suitor, candidate)
+      )
+      .sort((a, b) => mateAttractiveness(suitor, b) - mateAttractiveness(suitor, a))
+      .slice(0, mating.maxCourtships);
+    
+    for (const candidate of candidates) {
+      // Courtship costs energy whether or not it succeeds
+      const parent1 = changes.change(suitor);
+      parent1.energy = Math.max(10, parent1.energy - mating.courtshipCost);
       
-      // Check if agents are close to each other
-      const distance = calculateDistance(agent1.position, agent2.position);
-      if (distance <= 2) {
-        // Create offspring
-        const offspring = createOffspring(agent1, agent2);
-        
-        // Update parent agents
-        agent1.lastReproductionTime = currentTime;
-        agent2.lastReproductionTime = currentTime;
-        agent1.energy = Math.max(10, agent1.energy - 20);
-        agent2.energy = Math.max(10, agent2.energy - 20);
-        
-        // Add memory of reproduction
-        addMemory(agent1, {
-          timestamp: currentTime,
-          type: 'action',
-          data: { action: 'reproduce', partnerId: agent2.id, offspringId: offspring.id },
-          intensity: 0.9
-        });
-        
-        addMemory(agent2, {
+      if (!acceptsMate(candidate, suitor)) {
+        addMemory(parent1, {
           timestamp: currentTime,
-          type: 'action',
-          data: { action: 'reproduce', partnerId: agent1.id, offspringId: offspring.id },
-          intensity: 0.9
+          type: 'feedback',
+          data: { event: 'refused', by: candidate.id },
+          intensity: 0.6
         });
-        
-        // Add to results
-        reproducedAgents.push(agent1, agent2);
-        offspringAgents.push(offspring);
-        
-        // Continue to next agent
-        break;
+        strengthenRelationship(parent1, candidate, { trust: -relationships.refusalDistrust }, currentTime);
+        continue;
+      }
+      
+      // Create offspring
+      const offspring = createOffspring(suitor, candidate, currentTime, settings, rng);
+      
+      // Update copies of the parent agents
+      const parent2 = changes.change(candidate);
+      for (const parent of [parent1, parent2]) {
+        parent.lastReproductionTime = parent.age;
+        parent.energy = Math.max(10, parent.energy - reproductionSettings.energyCost);
+        parent.offspringCount += 1;
+        strengthenRelationship(parent, offspring, { familiarity: relationships.birthFamiliarity }, currentTime);
       }
+      const bond = { familiarity: relationships.mateBond, trust: relationships.mateBond };
+      strengthenRelationship(parent1, parent2, bond, currentTime);
+      strengthenRelationship(parent2, parent1, bond, currentTime);
+      
+      // Add memory of reproduction
+      addMemory(parent1, {
+        timestamp: currentTime,
+        type: 'action',
+        data: { action: 'reproduce', partnerId: candidate.id, offspringId: offspring.id },
+        intensity: 0.9
+      });
+      
+      addMemory(parent2, {
+        timestamp: currentTime,
+        type: 'action',
+        data: { action: 'reproduce', partnerId: suitor.id, offspringId: offspring.id },
+        intensity: 0.9
+      });
+      
+      mated.add(suitor.id);
+      mated.add(candidate.id);
+      offspringAgents.push(offspring);
+      break;
     }
   }
   
-  // Return all agents that haven't reproduced, plus the reproduced ones and new offspring
+  // Asexual agents bud without a partner
+  for (const agent of agents) {
+    if (!readyToBud(agent, settings)) continue;
+    
+    const bud = createBud(agent, currentTime, settings, rng);
+    const parent = changes.change(agent);
+    parent.lastReproductionTime = parent.age;
+    parent.energy = Math.max(10, parent.energy - reproductionSettings.energyCost);
+    parent.offspringCount += 1;
+    strengthenRelationship(parent, bud, { familiarity: relationships.birthFamiliarity }, currentTime);
+    
+    addMemory(parent, {
+      timestamp: currentTime,
+      type: 'action',
+      data: { action: 'reproduce', offspringId: bud.id, asexual: true },
+      intensity: 0.9
+    });
+    
+    offspringAgents.push(bud);
+  }
+  
+  // Return all agents that haven't reproduced, plus the changed ones and new offspring
   return {
-    reproducedAgents: agents.map(agent => {
-      const reproduced = reproducedAgents.find(a => a.id === agent.id);
-      return reproduced || agent;
-    }),
+    reproducedAgents: changes.apply(agents),
     offspringAgents
   };
 }
@@ -482,7 +790,13 @@ export function reproduceAgents(
 /**
  * Create a new agent offspring from two parents
  */
-function createOffspring(parent1: Agent, parent2: Agent): Agent {
+function createOffspring(
+  parent1: Agent,
+  parent2: Agent,
+  currentTime: number,
+  settings: WorldSettings,
+  rng: Random
+): Agent {
   // Average position between parents
   const position = {
     x: (parent1.position.x + parent2.position.x) / 2,
@@ -490,26 +804,69 @@ function createOffspring(parent1: Agent, parent2: Agent): Agent {
     z: (parent1.position.z + parent2.position.z) / 2
   };
   
-  // Determine generation
-  const generation = Math.max(parent1.generation, parent2.generation) + 1;
+  // Each parent passes on one allele per locus
+  const genome = crossoverGenomes(parent1.genome, parent2.genome, rng);
+  const brain = crossoverBrains(parent1.brain, parent2.brain, rng);
   
-  // Average traits between parents
-  const baseTrait = (trait1: number, trait2: number) => (trait1 + trait2) / 2;
+  return createNewborn(
+    [parent1, parent2],
+    position,
+    genome,
+    brain,
+    randomMatingType(settings.matingTypes, rng),
+    currentTime,
+    settings,
+    rng
+  );
+}
+
+/**
+ * Create a bud of an asexual parent: a clone of its genome and brain, mutated as usual
+ */
+function createBud(parent: Agent, currentTime: number, settings: WorldSettings, rng: Random): Agent {
+  return createNewborn(
+    [parent],
+    { ...parent.position },
+    parent.genome,
+    parent.brain,
+    parent.matingType,
+    currentTime,
+    settings,
+    rng
+  );
+}
+
+/**
+ * Create a newborn from the genetic material of one or two parents
+ */
+function createNewborn(
+  parents: Agent[],
+  position: Vector3D,
+  genome: Genome,
+  brain: BrainGenome,
+  matingType: number,
+  currentTime: number,
+  settings: WorldSettings,
+  rng: Random
+): Agent {
+  const parent1 = parents[0];
+  const average = (value: (parent: Agent) => number) =>
+    parents.reduce((sum, parent) => sum + value(parent), 0) / parents.length;
+  
+  // Determine generation
+  const generation = Math.max(...parents.map(parent => parent.generation)) + 1;
   
   // Create base offspring
   const offspring: Agent = {
-    id: uuidv4(),
+    ...expressGenome(genome, parent1),
+    id: rng.id(),
     position,
     rotation: { x: 0, y: 0, z: 0 },
     velocity: { x: 0, y: 0, z: 0 },
     scale: 0.7, // Start smaller
-    color: blendColors(parent1.color, parent2.color),
     energy: 50, // Start with half energy
     age: 0,
-    lifespan: (parent1.lifespan + parent2.lifespan) / 2 * 1.1, // Slight increase in lifespan
     generation,
-    perceptionRadius: (parent1.perceptionRadius + parent2.perceptionRadius) / 2,
-    movementSpeed: (parent1.movementSpeed + parent2.movementSpeed) / 2,
     sensorValues: {
       visualInput: [],
       auditoryInput: [],
@@ -518,57 +875,51 @@ function createOffspring(parent1: Agent, parent2: Agent): Agent {
       resourceLevels: { light: 0, food: 0, water: 0 }
     },
     memory: [],
-    reproductionThreshold: (parent1.reproductionThreshold + parent2.reproductionThreshold) / 2,
-    mutationRate: (parent1.mutationRate + parent2.mutationRate) / 2,
+    longTermMemory: [],
+    lexicon: inheritLexicon(parents, rng),
+    relationships: [],
+    reproductionThreshold: average(parent => parent.reproductionThreshold),
     consciousnessValue: 0, // Will be calculated
     lastReproductionTime: 0,
     lastAction: 'idle',
-    reproductionCooldown: (parent1.reproductionCooldown + parent2.reproductionCooldown) / 2,
-    traits: {
-      curiosity: baseTrait(parent1.traits.curiosity, parent2.traits.curiosity),
-      socialAffinity: baseTrait(parent1.traits.socialAffinity, parent2.traits.socialAffinity),
-      resourceAffinity: baseTrait(parent1.traits.resourceAffinity, parent2.traits.resourceAffinity),
-      exploration: baseTrait(parent1.traits.exploration, parent2.traits.exploration),
-      adaptability: baseTrait(parent1.traits.adaptability, parent2.traits.adaptability)
-    }
+    reproductionCooldown: average(parent => parent.reproductionCooldown),
+    needs: { hunger: 0, thirst: 0, fatigue: 0 },
+    offspringCount: 0,
+    matingType,
+    parentIds: parents.map(parent => parent.id),
+    speciesId: parent1.speciesId, // Re-checked against the species by the engine
+    trophicLevel: parent1.trophicLevel,
+    genome,
+    brain,
+    brainState: [],
+    consciousnessHistory: []
   };
   
   // Apply mutations based on consciousness level and mutation rate
-  const mutatedOffspring = mutateAgent(offspring);
+  const mutatedOffspring = mutateAgent(offspring, rng);
+  
+  // The newborn knows its parents
+  parents.forEach(parent => strengthenRelationship(
+    mutatedOffspring,
+    parent,
+    { familiarity: simulationConfig.agents.relationships.birthFamiliarity },
+    currentTime
+  ));
   
   // Calculate initial consciousness value
-  mutatedOffspring.consciousnessValue = calculateConsciousness(mutatedOffspring);
+  recordConsciousnessSample(mutatedOffspring, updateConsciousness(mutatedOffspring, settings), currentTime);
   
   // Give the offspring its first memory - being born
   addMemory(mutatedOffspring, {
-    timestamp: Date.now(),
+    timestamp: currentTime,
     type: 'observation',
-    data: { event: 'birth', parent1Id: parent1.id, parent2Id: parent2.id },
+    data: { event: 'birth', parent1Id: parent1.id, parent2Id: parents[1]?.id },
     intensity: 1.0
   });
   
   return mutatedOffspring;
 }
 
-/**
- * Add a memory to an agent's memory store
- */
-function addMemory(agent: Agent, memory: any): void {
-  // Limit memory size
-  if (agent.memory.length >= 50) {
-    // Remove oldest or least intense memory
-    agent.memory.sort((a, b) => {
-      if (a.intensity === b.intensity) {
-        return a.timestamp - b.timestamp;
-      }
-      return a.intensity - b.intensity;
-    });
-    agent.memory.shift();
-  }
-  
-  agent.memory.push(memory);
-}
-
 // Utility functions
 
 /**
@@ -605,30 +956,3 @@ export function normalizeVector(vector: Vector3D): Vector3D {
     z: vector.z / length
   };
 }
-
-/**
- * Blend two hex colors
- */
-function blendColors(color1: string, color2: string): string {
-  // Convert hex to RGB
-  const r1 = parseInt(color1.substring(1, 3), 16);
-  const g1 = parseInt(color1.substring(3, 5), 16);
-  const b1 = parseInt(color1.substring(5, 7), 16);
-  
-  const r2 = parseInt(color2.substring(1, 3), 16);
-  const g2 = parseInt(color2.substring(3, 5), 16);
-  const b2 = parseInt(color2.substring(5, 7), 16);
-  
-  // Calculate average with slight mutation
-  const r = Math.floor((r1 + r2) / 2 + (Math.random() * 20 - 10));
-  const g = Math.floor((g1 + g2) / 2 + (Math.random() * 20 - 10));
-  const b = Math.floor((b1 + b2) / 2 + (Math.random() * 20 - 10));
-  
-  // Ensure values are in valid range
-  const validR = Math.max(0, Math.min(255, r));
-  const validG = Math.max(0, Math.min(255, g));
-  const validB = Math.max(0, Math.min(255, b));
-  
-  // Convert back to hex
-  return `#${validR.toString(16).padStart(2, '0')}${validG.toString(16).padStart(2, '0')}${validB.toString(16).padStart(2, '0')}`;
-}
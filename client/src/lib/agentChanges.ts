@@ -0,0 +1,73 @@
+import { Agent } from './types';
+import { Random } from './random';
+
+/**
+ * Copy-on-write changes to agents.
+ *
+ * The phases that let agents act on each other after they have all moved
+ * (hunting, harvesting, sharing, naming games, mating) never touch their
+ * input: an agent is cloned the first time the phase changes it, later
+ * changes go to the same copy, and the copies replace the originals at the
+ * end. Acting agents take their turns in random order so the array order
+ * favours nobody.
+ */
+
+export interface AgentChanges {
+  /** The agent as changed so far, or as it was */
+  current(agentId: string): Agent | undefined;
+  /** Copy of the agent to change, made on first use */
+  change(agent: Agent): Agent;
+  /** The agents with the changed ones replaced; the same array if none changed */
+  apply(agents: Agent[]): Agent[];
+}
+
+/**
+ * Track the changes a phase makes to the given agents
+ */
+export function trackChanges(agents: Agent[]): AgentChanges {
+  const byId = new Map(agents.map(agent => [agent.id, agent]));
+  const copies = new Map<string, Agent>();
+
+  return {
+    current: (agentId) => copies.get(agentId) ?? byId.get(agentId),
+    change: (agent) => {
+      let copy = copies.get(agent.id);
+      if (!copy) {
+        copy = cloneAgent(agent);
+        copies.set(agent.id, copy);
+      }
+      return copy;
+    },
+    apply: (list) => copies.size === 0 ? list : list.map(agent => copies.get(agent.id) ?? agent)
+  };
+}
+
+/**
+ * Acting agents in the random order they take their turns in
+ */
+export function turnOrder<T>(actors: T[], rng: Random): T[] {
+  return rng.shuffle(actors);
+}
+
+/**
+ * Copy an agent together with the nested state that actions mutate
+ */
+export function cloneAgent(agent: Agent): Agent {
+  return {
+    ...agent,
+    position: { ...agent.position },
+    rotation: { ...agent.rotation },
+    velocity: { ...agent.velocity },
+    sensorValues: {
+      ...agent.sensorValues,
+      proximity: [...agent.sensorValues.proximity],
+      resourceLevels: { ...agent.sensorValues.resourceLevels }
+    },
+    memory: [...agent.memory],
+    longTermMemory: [...agent.longTermMemory],
+    lexicon: agent.lexicon.map(entry => ({ ...entry })),
+    traits: { ...agent.traits },
+    needs: { ...agent.needs },
+    brainState: [...agent.brainState]
+  };
+}
@@ -0,0 +1,37 @@
+import { Agent, WorldSettings } from './types';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Asexual reproduction (budding).
+ *
+ * A budding agent needs no partner: once it has an energy surplus it pays
+ * the usual reproduction energy cost and splits off a mutated clone. The
+ * world setting `reproductionMode` makes every agent sexual or asexual, or
+ * leaves the choice to the heritable `asexuality` gene so sexual and asexual
+ * lineages compete in the same environment. Asexual agents never mate.
+ */
+
+/**
+ * Whether an agent reproduces by budding instead of mating
+ */
+export function reproducesAsexually(agent: Agent, settings: WorldSettings): boolean {
+  switch (settings.reproductionMode) {
+    case 'sexual':
+      return false;
+    case 'asexual':
+      return true;
+    case 'heritable':
+      return agent.asexuality >= 0.5;
+  }
+}
+
+/**
+ * Whether an asexual agent has the energy surplus to bud now
+ */
+export function readyToBud(agent: Agent, settings: WorldSettings): boolean {
+  return (
+    reproducesAsexually(agent, settings) &&
+    agent.energy >= simulationConfig.agents.reproductionSettings.buddingEnergy &&
+    agent.age > agent.lastReproductionTime + agent.reproductionCooldown
+  );
+}
@@ -1,23 +1,134 @@
-import { Agent, ConsciousnessComponents } from './types';
+import { Agent, ConsciousnessComponents, ConsciousnessModelId, WorldSettings } from './types';
+import { simulationConfig } from '../config/simulationConfig';
 
 /**
- * Calculate consciousness value based on the formula: B(S) = Φ(S) · σ(S) · δ(S)
+ * Consciousness models.
+ *
+ * Every model turns an agent's state into a consciousness value between 0
+ * and 100. The default is the product formula B(S) = Φ(S) · σ(S) · δ(S)
+ * with
  * 
  * Φ (Phi) - Information integration
  * σ (Sigma) - Self-modeling capability
  * δ (Delta) - Decision freedom/autonomy
  * 
+ * The model is a world setting (`WorldSettings.consciousnessModel`). When
+ * `compareConsciousnessModels` is on, every model is evaluated each step and
+ * the results are kept on the agent so their divergence can be charted; the
+ * selected model alone drives behaviour and reproduction. Each model has its
+ * own reproduction threshold (`reproductionSettings.thresholds`).
+ */
+export interface ConsciousnessModel {
+  id: ConsciousnessModelId;
+  name: string;
+  /** Consciousness of an agent (0-100), given its Φ, σ and δ components */
+  evaluate(agent: Agent, components: ConsciousnessComponents): number;
+}
+
+export const CONSCIOUSNESS_MODELS: Record<ConsciousnessModelId, ConsciousnessModel> = {
+  // B(S) = Φ(S) · σ(S) · δ(S): every component is necessary
+  product: {
+    id: 'product',
+    name: 'Product (Φ·σ·δ)',
+    evaluate: (_agent, { integration, selfModeling, decisionFreedom }) =>
+      Math.min(100, integration * selfModeling * decisionFreedom * 100)
+  },
+  // Weighted sum of the components: they can compensate for each other
+  weightedSum: {
+    id: 'weightedSum',
+    name: 'Weighted sum',
+    evaluate: (_agent, { integration, selfModeling, decisionFreedom }) => {
+      const { integrationWeight, selfModelingWeight, decisionFreedomWeight } =
+        simulationConfig.agents.consciciousnessCalculation;
+      const totalWeight = integrationWeight + selfModelingWeight + decisionFreedomWeight;
+      return Math.min(100, 100 * (
+        integration * integrationWeight +
+        selfModeling * selfModelingWeight +
+        decisionFreedom * decisionFreedomWeight
+      ) / totalWeight);
+    }
+  },
+  // Global workspace: specialist modules whose signal is strong enough "ignite"
+  // and are broadcast; the score grows with the share of modules that reach the
+  // workspace and the strength of what they broadcast
+  globalWorkspace: {
+    id: 'globalWorkspace',
+    name: 'Global workspace',
+    evaluate: (agent) => {
+      const { ignitionThreshold } = simulationConfig.agents.consciciousnessCalculation;
+      const signals = workspaceSignals(agent);
+      const ignited = signals.filter(signal => signal >= ignitionThreshold);
+      if (ignited.length === 0) return 0;
+      const strength = ignited.reduce((sum, signal) => sum + signal, 0) / ignited.length;
+      return 100 * (ignited.length / signals.length) * strength;
+    }
+  },
+  // IIT-inspired: the system is only as integrated as its weakest cut. Each
+  // bipartition of the components is scored by how strongly both sides carry
+  // information (geometric mean); the minimum over all cuts is the value.
+  partition: {
+    id: 'partition',
+    name: 'Partition (IIT-inspired)',
+    evaluate: (_agent, { integration, selfModeling, decisionFreedom }) => {
+      const parts = [integration, selfModeling, decisionFreedom];
+      const cuts = parts.map((part, i) => {
+        const rest = parts.filter((_, j) => j !== i);
+        return Math.sqrt(part * rest.reduce((sum, value) => sum + value, 0) / rest.length);
+      });
+      return Math.min(100, 100 * Math.min(...cuts));
+    }
+  }
+};
+
+/**
+ * Consciousness a founder needs to reproduce under the given model
+ */
+export function reproductionThreshold(model: ConsciousnessModelId): number {
+  return simulationConfig.agents.reproductionSettings.thresholds[model];
+}
+
+/**
+ * Carry the agents' reproduction thresholds over to another model,
+ * keeping their ratio to the model's founder threshold
+ */
+export function convertReproductionThresholds(
+  agents: Agent[],
+  from: ConsciousnessModelId,
+  to: ConsciousnessModelId
+): Agent[] {
+  const scale = reproductionThreshold(to) / reproductionThreshold(from);
+  return agents.map(agent => ({ ...agent, reproductionThreshold: agent.reproductionThreshold * scale }));
+}
+
+/**
+ * Consciousness value of an agent under the given model (the product formula by default)
+ * 
  * @param agent The agent to calculate consciousness for
  * @returns A consciousness value between 0 and 100
  */
-export function calculateConsciousness(agent: Agent): number {
+export function calculateConsciousness(agent: Agent, model: ConsciousnessModelId = 'product'): number {
+  return CONSCIOUSNESS_MODELS[model].evaluate(agent, calculateConsciousnessComponents(agent));
+}
+
+/**
+ * Update an agent's consciousness under the world's model, and under every
+ * model when the world compares them. Returns the components it was computed from.
+ */
+export function updateConsciousness(agent: Agent, settings: WorldSettings): ConsciousnessComponents {
   const components = calculateConsciousnessComponents(agent);
   
-  // Apply the consciousness formula: B(S) = Φ(S) · σ(S) · δ(S)
-  const rawConsciousness = components.integration * components.selfModeling * components.decisionFreedom;
-  
-  // Scale to a 0-100 range for easier understanding
-  return Math.min(100, rawConsciousness * 100);
+  if (settings.compareConsciousnessModels) {
+    const scores = {} as Record<ConsciousnessModelId, number>;
+    for (const model of Object.values(CONSCIOUSNESS_MODELS)) {
+      scores[model.id] = model.evaluate(agent, components);
+    }
+    agent.consciousnessScores = scores;
+    agent.consciousnessValue = scores[settings.consciousnessModel];
+  } else {
+    agent.consciousnessScores = undefined;
+    agent.consciousnessValue = CONSCIOUSNESS_MODELS[settings.consciousnessModel].evaluate(agent, components);
+  }
+  return components;
 }
 
 /**
@@ -45,9 +156,15 @@ export function calculateConsciousnessComponents(agent: Agent): ConsciousnessCom
 
 /**
  * Calculate information integration (Φ) component
- * Measures how effectively the agent processes and combines information
+ * Measures how effectively the agent processes and combines information.
+ * Agents driven by their brain use its estimated integrated information
+ * (`integratedInformation.ts`); all others use the approximation below.
  */
 function calculateInformationIntegration(agent: Agent): number {
+  if (agent.phi) {
+    return agent.phi.normalized;
+  }
+  
   // Base integration value from agent traits
   const traitFactor = (
     agent.traits.curiosity * 0.3 + 
@@ -150,6 +267,28 @@ function calculateDecisionFreedom(agent: Agent): number {
   );
 }
 
+/**
+ * Signals of the specialist modules competing for the global workspace (0-1 each)
+ */
+function workspaceSignals(agent: Agent): number[] {
+  const { resourceLevels, proximity } = agent.sensorValues;
+  const scores = Object.values(agent.actionScores ?? {});
+  return [
+    // Perception: how much the agent sees around it
+    Math.min(1, proximity.length / 5),
+    // Resources: how strongly resources are sensed
+    (resourceLevels.food + resourceLevels.water + resourceLevels.light) / 3,
+    // Drives: the most pressing need
+    Math.max(agent.needs.hunger, agent.needs.thirst, agent.needs.fatigue) / 100,
+    // Memory: how much experience is available
+    Math.min(1, agent.memory.length / 20),
+    // Social: other agents nearby
+    Math.min(1, proximity.filter(p => p.type === 'agent').length / 5),
+    // Deliberation: salience of the best option in the last decision
+    scores.length > 0 ? Math.min(1, Math.max(...scores)) : 0
+  ];
+}
+
 /**
  * Check if an agent's consciousness exceeds the reproduction threshold
  */
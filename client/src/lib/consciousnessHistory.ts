@@ -0,0 +1,65 @@
+import { Agent, ConsciousnessComponents, ConsciousnessSample } from './types';
+import { calculateConsciousnessComponents } from './consciousness';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Consciousness component history.
+ *
+ * The consciousness value is a single number, but how it comes about (Φ
+ * integration, σ self-modeling, δ decision freedom) changes over an agent's
+ * life and over generations. Every agent samples its components into a
+ * short ring buffer every `historyInterval` days, and the world records the
+ * population averages at the same interval in a longer series.
+ *
+ * Samples are appended to new arrays so that a world state's history never
+ * changes once the state has been handed out.
+ */
+
+/**
+ * Append a sample of the agent's components if its last one is due
+ */
+export function recordConsciousnessSample(agent: Agent, components: ConsciousnessComponents, time: number): void {
+  const { historyInterval, agentHistoryLength } = simulationConfig.agents.consciciousnessCalculation;
+  const history = agent.consciousnessHistory;
+  const last = history[history.length - 1];
+  if (last && time - last.time < historyInterval) return;
+
+  agent.consciousnessHistory = [
+    ...history,
+    { time, ...components, value: agent.consciousnessValue }
+  ].slice(-agentHistoryLength);
+}
+
+/**
+ * Append the population's average components when a sampling interval has
+ * passed. Returns the input array unchanged otherwise.
+ */
+export function recordPopulationSample(
+  history: ConsciousnessSample[],
+  agents: Agent[],
+  previousTime: number,
+  time: number
+): ConsciousnessSample[] {
+  const { historyInterval, populationHistoryLength } = simulationConfig.agents.consciciousnessCalculation;
+  const due = history.length === 0 ||
+    Math.floor(time / historyInterval) > Math.floor(previousTime / historyInterval);
+  if (!due || agents.length === 0) return history;
+
+  const sum = { integration: 0, selfModeling: 0, decisionFreedom: 0, value: 0 };
+  agents.forEach(agent => {
+    const components = calculateConsciousnessComponents(agent);
+    sum.integration += components.integration;
+    sum.selfModeling += components.selfModeling;
+    sum.decisionFreedom += components.decisionFreedom;
+    sum.value += agent.consciousnessValue;
+  });
+
+  const sample: ConsciousnessSample = {
+    time,
+    integration: sum.integration / agents.length,
+    selfModeling: sum.selfModeling / agents.length,
+    decisionFreedom: sum.decisionFreedom / agents.length,
+    value: sum.value / agents.length
+  };
+  return [...history, sample].slice(-populationHistoryLength);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { harvestTogether } from './cooperation';
+import { SimulationEngine } from './simulationEngine';
+import { initializeWorld } from './worldResources';
+import { Agent, Resource } from './types';
+
+// The founders consuming the world's first large resource, standing right at it
+function harvestScene(): { agents: Agent[]; resource: Resource } {
+  const world = initializeWorld(42);
+  const resource = { ...world.resources.find(candidate => candidate.harvesters)! };
+  const agents = world.agents
+    .filter(agent => agent.trophicLevel === 'herbivore')
+    .map(agent => ({
+      ...agent,
+      position: { ...resource.position, y: 0 },
+      lastAction: 'consume' as const,
+      targetId: resource.id,
+      needs: { ...agent.needs, hunger: 60 }
+    }));
+  return { agents, resource };
+}
+
+describe('harvestTogether', () => {
+  it('shares a large resource among enough harvesters', () => {
+    const { agents, resource } = harvestScene();
+    const amount = resource.amount;
+    const result = harvestTogether(agents, [resource], 1);
+
+    expect(result.harvests).toEqual([{ resourceId: resource.id, harvesterIds: agents.map(agent => agent.id) }]);
+    expect(resource.amount).toBeLessThan(amount);
+    result.agents.forEach(agent => expect(agent.needs.hunger).toBeLessThan(60));
+    agents.forEach(agent => expect(agent.needs.hunger).toBe(60));
+  });
+
+  it('leaves a large resource to a lone agent untouched', () => {
+    const { agents, resource } = harvestScene();
+    const amount = resource.amount;
+    const result = harvestTogether(agents.slice(0, 1), [resource], 1);
+
+    expect(result.harvests).toEqual([]);
+    expect(result.agents[0]).toBe(agents[0]);
+    expect(resource.amount).toBe(amount);
+  });
+
+  it('happens at the default configuration', () => {
+    let world = initializeWorld(3);
+    for (let i = 0; i < 1000 && world.statistics.cooperation.cooperativeHarvests === 0; i++) {
+      world = SimulationEngine.step(world, 0.5).world;
+    }
+    expect(world.statistics.cooperation.cooperativeHarvests).toBeGreaterThan(0);
+  });
+});
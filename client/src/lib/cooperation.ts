@@ -0,0 +1,189 @@
+import { Agent, CooperationTally, Resource } from './types';
+import { Random } from './random';
+import { addMemory, groundDistance } from './memory';
+import { kinship, strengthenRelationship } from './relationships';
+import { needUrgency } from './utilityAI';
+import { trackChanges, turnOrder } from './agentChanges';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Cooperation and altruism.
+ *
+ * Agents carry a heritable altruism gene. An altruistic agent with energy
+ * to spare may give some of it to a hungry agent of its own kind within
+ * reach (the `share` action), more readily to kin and friends; the
+ * recipient comes to trust its donor. Every gift is checked against
+ * Hamilton's rule rB > C: r is the kinship of donor and recipient, B the
+ * energy given weighted by the recipient's need and C the same energy
+ * weighted by the donor's own need. The running sums show whether the
+ * altruism that evolves is kin-selected.
+ *
+ * Large food resources cannot be harvested alone: an agent consuming one
+ * waits until enough agents of its kind consume it with it, then all of
+ * them get a share and grow to trust each other.
+ */
+
+// Food given by one agent to another
+export interface Gift {
+  donorId: string;
+  recipientId: string;
+  energy: number;
+  relatedness: number; // r
+  benefit: number;     // B
+  cost: number;        // C
+}
+
+// A large resource harvested together
+export interface Harvest {
+  resourceId: string;
+  harvesterIds: string[];
+}
+
+/**
+ * Cooperation counts, all zero
+ */
+export function emptyCooperationTally(): CooperationTally {
+  return {
+    gifts: 0,
+    kinGifts: 0,
+    hamiltonSatisfied: 0,
+    relatedness: 0,
+    benefit: 0,
+    cost: 0,
+    energyShared: 0,
+    cooperativeHarvests: 0
+  };
+}
+
+/**
+ * Add the gifts and harvests of a step to a running tally
+ */
+export function countCooperation(
+  tally: CooperationTally = emptyCooperationTally(),
+  gifts: Gift[],
+  harvests: Harvest[]
+): CooperationTally {
+  const updated = { ...tally, cooperativeHarvests: tally.cooperativeHarvests + harvests.length };
+  gifts.forEach(gift => {
+    updated.gifts++;
+    if (gift.relatedness > 0) updated.kinGifts++;
+    if (gift.relatedness * gift.benefit > gift.cost) updated.hamiltonSatisfied++;
+    updated.relatedness += gift.relatedness;
+    updated.benefit += gift.benefit;
+    updated.cost += gift.cost;
+    updated.energyShared += gift.energy;
+  });
+  return updated;
+}
+
+/**
+ * Share of the living agents that gave food or harvested together in a step
+ */
+export function cooperationRate(agents: Agent[], gifts: Gift[], harvests: Harvest[]): number {
+  if (agents.length === 0) return 0;
+  const cooperators = new Set([
+    ...gifts.map(gift => gift.donorId),
+    ...harvests.flatMap(harvest => harvest.harvesterIds)
+  ]);
+  return agents.filter(agent => cooperators.has(agent.id)).length / agents.length;
+}
+
+/**
+ * Hand over the food of every agent that shared this step.
+ * Returns the agents with donors and recipients replaced by updated copies.
+ */
+export function shareFood(agents: Agent[], currentTime: number, rng: Random): { agents: Agent[], gifts: Gift[] } {
+  const { interactionRange } = simulationConfig.agents;
+  const { shareAmount, donorReserve, shareHungerRelief, giftTrust } = simulationConfig.agents.cooperation;
+  const changes = trackChanges(agents);
+  const gifts: Gift[] = [];
+
+  const donors = agents.filter(agent => agent.lastAction === 'share' && agent.targetId);
+
+  for (const { id } of turnOrder(donors, rng)) {
+    const donor = changes.current(id)!;
+    const recipient = changes.current(donor.targetId!);
+    if (!recipient || recipient.trophicLevel !== donor.trophicLevel) continue;
+    if (groundDistance(donor.position, recipient.position) > interactionRange) continue;
+
+    const energy = Math.min(shareAmount, donor.energy - donorReserve, 100 - recipient.energy);
+    if (energy <= 0) continue;
+
+    const relatedness = kinship(donor, recipient);
+    gifts.push({
+      donorId: donor.id,
+      recipientId: recipient.id,
+      energy,
+      relatedness,
+      benefit: energy * needUrgency(recipient, 'hunger'),
+      cost: energy * needUrgency(donor, 'hunger')
+    });
+
+    const giver = changes.change(donor);
+    const receiver = changes.change(recipient);
+    giver.energy -= energy;
+    receiver.energy += energy;
+    receiver.needs.hunger = Math.max(0, receiver.needs.hunger - energy * shareHungerRelief);
+
+    addMemory(receiver, {
+      timestamp: currentTime,
+      type: 'encounter',
+      data: { event: 'gift', from: giver.id, energy },
+      intensity: 0.7
+    });
+    strengthenRelationship(receiver, giver, { trust: giftTrust }, currentTime);
+  }
+
+  return { agents: changes.apply(agents), gifts };
+}
+
+/**
+ * Let agents that consume the same large resource harvest it together once
+ * there are enough of them. The resources are the step's own copies and
+ * are drawn down in place, like single agents consuming ordinary ones.
+ */
+export function harvestTogether(
+  agents: Agent[],
+  resources: Resource[],
+  currentTime: number
+): { agents: Agent[], harvests: Harvest[] } {
+  const { interactionRange } = simulationConfig.agents;
+  const { harvestAmount, harvestTrust } = simulationConfig.agents.cooperation;
+  const relief = simulationConfig.agents.needs.relief;
+  const changes = trackChanges(agents);
+  const harvests: Harvest[] = [];
+
+  resources.forEach(resource => {
+    if (!resource.harvesters || resource.amount <= 0) return;
+
+    const team = agents.filter(agent =>
+      agent.lastAction === 'consume' &&
+      agent.targetId === resource.id &&
+      groundDistance(agent.position, resource.position) <= interactionRange
+    );
+    if (team.length < resource.harvesters) return;
+
+    const share = Math.min(harvestAmount, resource.amount / team.length);
+    resource.amount -= share * team.length;
+    const members = team.map(agent => {
+      const copy = changes.change(agent);
+      copy.energy = Math.min(100, copy.energy + share * 5);
+      copy.needs.hunger = Math.max(0, copy.needs.hunger - share * relief.food);
+      addMemory(copy, {
+        timestamp: currentTime,
+        type: 'action',
+        data: { action: 'consume', resourceType: resource.type, amount: share, position: { ...resource.position }, together: team.length },
+        intensity: 0.8
+      });
+      return copy;
+    });
+    members.forEach(member => {
+      members.forEach(other => {
+        if (other !== member) strengthenRelationship(member, other, { familiarity: harvestTrust, trust: harvestTrust }, currentTime);
+      });
+    });
+    harvests.push({ resourceId: resource.id, harvesterIds: team.map(agent => agent.id) });
+  });
+
+  return { agents: changes.apply(agents), harvests };
+}
@@ -0,0 +1,149 @@
+import { Agent, AgentGroup, SimulationStatistics, Vector3D } from './types';
+import { Random } from './random';
+import { groundDistance } from './memory';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Flocking and group formation.
+ *
+ * Agents that wander without a target steer like boids: towards the centre
+ * of the agents around them (cohesion), along their mean heading
+ * (alignment) and away from agents that come too close (separation).
+ * Cohesion and alignment are weighted by the agent's social affinity, so
+ * loners keep to themselves while sociable agents herd together. Agents
+ * only flock with their own trophic level.
+ *
+ * Groups are detected rather than joined: agents within `groupRadius` of
+ * each other are linked, and every connected component with at least
+ * `minGroupSize` agents is a group. A group keeps its id and founding time
+ * from step to step as long as it shares members with its earlier self.
+ */
+
+export type GroupStatistics = Pick<SimulationStatistics, 'groupCount' | 'meanGroupSize' | 'meanGroupLifetime'>;
+
+/**
+ * Boids steering of an agent from the agents around it, on the ground plane.
+ * Zero when no other agent is in range.
+ */
+export function flockingDirection(agent: Agent, allAgents: Agent[]): Vector3D {
+  const {
+    neighbourRadius, separationDistance, cohesionWeight, alignmentWeight, separationWeight
+  } = simulationConfig.agents.flocking;
+  const range = Math.min(neighbourRadius, agent.perceptionRadius);
+
+  let neighbours = 0;
+  const centre = { x: 0, z: 0 };
+  const heading = { x: 0, z: 0 };
+  const separation = { x: 0, z: 0 };
+  for (const other of allAgents) {
+    if (other.id === agent.id || other.trophicLevel !== agent.trophicLevel) continue;
+    const distance = groundDistance(agent.position, other.position);
+    if (distance > range) continue;
+
+    neighbours++;
+    centre.x += other.position.x;
+    centre.z += other.position.z;
+    heading.x += other.velocity.x;
+    heading.z += other.velocity.z;
+    if (distance > 0 && distance < separationDistance) {
+      // Push away harder the closer the other agent is
+      const push = (1 - distance / separationDistance) / distance;
+      separation.x += (agent.position.x - other.position.x) * push;
+      separation.z += (agent.position.z - other.position.z) * push;
+    }
+  }
+  if (neighbours === 0) return { x: 0, y: 0, z: 0 };
+
+  const cohesion = unit(centre.x / neighbours - agent.position.x, centre.z / neighbours - agent.position.z);
+  const alignment = unit(heading.x, heading.z);
+  const affinity = agent.traits.socialAffinity;
+  return {
+    x: (cohesion.x * cohesionWeight + alignment.x * alignmentWeight) * affinity + separation.x * separationWeight,
+    y: 0,
+    z: (cohesion.z * cohesionWeight + alignment.z * alignmentWeight) * affinity + separation.z * separationWeight
+  };
+}
+
+/**
+ * Detect the groups of the living agents and match them with the groups of
+ * the previous step. Returns the input array unchanged when no group changed.
+ */
+export function updateGroups(agents: Agent[], groups: AgentGroup[], time: number, rng: Random): AgentGroup[] {
+  const { minGroupSize } = simulationConfig.agents.flocking;
+  const components = connectedComponents(agents)
+    .filter(memberIds => memberIds.length >= minGroupSize)
+    .sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+
+  // Larger groups claim the earlier group they share the most members with first
+  const unclaimed = new Set(groups.map(group => group.id));
+  const detected = components.map(memberIds => {
+    const members = new Set(memberIds);
+    let best: AgentGroup | undefined;
+    let bestOverlap = 0;
+    for (const group of groups) {
+      if (!unclaimed.has(group.id)) continue;
+      const overlap = group.memberIds.filter(id => members.has(id)).length;
+      if (overlap > bestOverlap) {
+        best = group;
+        bestOverlap = overlap;
+      }
+    }
+    if (!best) {
+      return { id: rng.id(), memberIds, formedAt: time };
+    }
+
+    unclaimed.delete(best.id);
+    const same = best.memberIds.length === memberIds.length && bestOverlap === memberIds.length;
+    return same ? best : { ...best, memberIds };
+  });
+
+  detected.sort((a, b) => a.formedAt - b.formedAt || a.id.localeCompare(b.id));
+  const unchanged = detected.length === groups.length && detected.every((group, i) => group === groups[i]);
+  return unchanged ? groups : detected;
+}
+
+/**
+ * Number of groups, their mean size and how long they have held together on average
+ */
+export function groupStatistics(groups: AgentGroup[], time: number): GroupStatistics {
+  if (groups.length === 0) {
+    return { groupCount: 0, meanGroupSize: 0, meanGroupLifetime: 0 };
+  }
+  return {
+    groupCount: groups.length,
+    meanGroupSize: groups.reduce((sum, group) => sum + group.memberIds.length, 0) / groups.length,
+    meanGroupLifetime: groups.reduce((sum, group) => sum + (time - group.formedAt), 0) / groups.length
+  };
+}
+
+// Agents of one trophic level linked by chains of neighbours within the group radius, ids sorted
+function connectedComponents(agents: Agent[]): string[][] {
+  const { groupRadius } = simulationConfig.agents.flocking;
+  const visited = new Set<string>();
+  const components: string[][] = [];
+
+  for (const start of agents) {
+    if (visited.has(start.id)) continue;
+    visited.add(start.id);
+
+    const component: string[] = [];
+    const queue = [start];
+    while (queue.length > 0) {
+      const agent = queue.pop()!;
+      component.push(agent.id);
+      for (const other of agents) {
+        if (visited.has(other.id) || other.trophicLevel !== agent.trophicLevel) continue;
+        if (groundDistance(agent.position, other.position) > groupRadius) continue;
+        visited.add(other.id);
+        queue.push(other);
+      }
+    }
+    components.push(component.sort());
+  }
+  return components;
+}
+
+function unit(x: number, z: number): { x: number; z: number } {
+  const length = Math.sqrt(x * x + z * z);
+  return length === 0 ? { x: 0, z: 0 } : { x: x / length, z: z / length };
+}
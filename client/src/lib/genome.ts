@@ -0,0 +1,275 @@
+import { Agent, AgentTraits, Allele, Gene, GeneLocus, Genome, MatePreferences } from './types';
+import { Random } from './random';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Diploid genome model.
+ *
+ * Every heritable property of an agent sits at a locus and is carried by two
+ * alleles, one from each parent. Allele values are normalized to 0-1 and
+ * mapped to the locus range on expression; a dominant allele masks a
+ * recessive one, two alleles of equal dominance are expressed as their mean.
+ * Parents pass on one allele per locus, recombined by uniform or single-point
+ * crossover (budding agents pass on their whole genome), so variation is
+ * kept in the population instead of being averaged away. The expressed
+ * values are stored on the agent as usual (`traits`, `perceptionRadius`,
+ * ...), the genome is only read at birth.
+ */
+
+export type CrossoverMethod = 'uniform' | 'singlePoint';
+
+export type MutationOperator = 'gaussian' | 'reset' | 'dominanceFlip';
+
+// Heritable properties the genome expresses
+export type GenomePhenotype = Pick<
+  Agent,
+  'traits' | 'perceptionRadius' | 'movementSpeed' | 'lifespan' | 'mutationRate' | 'color' | 'matePreferences' | 'asexuality' | 'altruism'
+>;
+
+const TRAIT_LOCI: (keyof AgentTraits)[] = [
+  'curiosity', 'socialAffinity', 'resourceAffinity', 'exploration', 'adaptability'
+];
+
+const COLOR_LOCI: GeneLocus[] = ['colorRed', 'colorGreen', 'colorBlue'];
+
+const PREFERENCE_LOCI: Record<keyof MatePreferences, GeneLocus> = {
+  colorSimilarity: 'prefColorSimilarity',
+  consciousness: 'prefConsciousness',
+  complementarity: 'prefComplementarity',
+  choosiness: 'choosiness'
+};
+
+// Chromosome order of the loci; single-point crossover cuts along this order
+export const GENE_LOCI: GeneLocus[] = [
+  ...TRAIT_LOCI, 'perceptionRadius', 'movementSpeed', 'lifespan', 'mutationRate', ...COLOR_LOCI,
+  ...Object.values(PREFERENCE_LOCI), 'asexuality', 'altruism'
+];
+
+// Expressed range of each locus; traits are 0-1
+function locusRange(locus: GeneLocus): [number, number] {
+  const { loci } = simulationConfig.agents.genetics;
+  if (locus in loci) return loci[locus as keyof typeof loci];
+  if (COLOR_LOCI.includes(locus)) return [0, 255];
+  return [0, 1];
+}
+
+// How the allele changes when it mutates
+const MUTATION_OPERATORS: Record<MutationOperator, (allele: Allele, rng: Random) => Allele> = {
+  // Small step around the current value
+  gaussian: (allele, rng) => ({
+    ...allele,
+    value: clamp01(allele.value + rng.gaussian() * simulationConfig.agents.genetics.gaussianStrength)
+  }),
+  // Entirely new value
+  reset: (allele, rng) => ({ ...allele, value: rng.next() }),
+  // Dominant becomes recessive and vice versa
+  dominanceFlip: (allele) => ({ ...allele, dominant: !allele.dominant })
+};
+
+/**
+ * Build a homozygous genome that expresses the given phenotype (used for the founders)
+ */
+export function genomeFromPhenotype(phenotype: GenomePhenotype, rng: Random): Genome {
+  return completeGenome({ genes: [] }, phenotype, rng);
+}
+
+/**
+ * Add homozygous genes for the loci a genome lacks, expressing the given
+ * phenotype (for genomes stored before those loci existed)
+ */
+export function completeGenome(genome: Genome, phenotype: GenomePhenotype, rng: Random): Genome {
+  const { dominantChance } = simulationConfig.agents.genetics;
+  const values = phenotypeValues(phenotype);
+  const existing = new Map(genome.genes.map(gene => [gene.locus, gene]));
+
+  return {
+    genes: GENE_LOCI.map(locus => {
+      const gene = existing.get(locus);
+      if (gene) return gene;
+
+      const [min, max] = locusRange(locus);
+      const value = clamp01((values[locus] - min) / (max - min));
+      return {
+        locus,
+        alleles: [
+          { value, dominant: rng.next() < dominantChance },
+          { value, dominant: rng.next() < dominantChance }
+        ]
+      };
+    })
+  };
+}
+
+/**
+ * Expressed value of a gene in its locus range
+ */
+export function expressGene(gene: Gene): number {
+  const [first, second] = gene.alleles;
+  const value = first.dominant === second.dominant
+    ? (first.value + second.value) / 2
+    : first.dominant ? first.value : second.value;
+
+  const [min, max] = locusRange(gene.locus);
+  return min + value * (max - min);
+}
+
+/**
+ * Phenotype encoded by a genome; loci the genome lacks fall back to the given defaults
+ */
+export function expressGenome(genome: Genome, defaults: GenomePhenotype): GenomePhenotype {
+  const values = phenotypeValues(defaults);
+  for (const gene of genome.genes) {
+    if (gene.locus in values) {
+      values[gene.locus] = expressGene(gene);
+    }
+  }
+
+  const traits = { ...defaults.traits };
+  TRAIT_LOCI.forEach(locus => {
+    traits[locus] = values[locus];
+  });
+
+  return {
+    traits,
+    perceptionRadius: values.perceptionRadius,
+    movementSpeed: values.movementSpeed,
+    lifespan: values.lifespan,
+    mutationRate: values.mutationRate,
+    color: toHex(COLOR_LOCI.map(locus => values[locus])),
+    matePreferences: {
+      colorSimilarity: values.prefColorSimilarity,
+      consciousness: values.prefConsciousness,
+      complementarity: values.prefComplementarity,
+      choosiness: values.choosiness
+    },
+    asexuality: values.asexuality,
+    altruism: values.altruism
+  };
+}
+
+/**
+ * Combine one gamete of each parent into the child's genome
+ */
+export function crossoverGenomes(
+  genome1: Genome,
+  genome2: Genome,
+  rng: Random,
+  method: CrossoverMethod = simulationConfig.agents.genetics.crossover
+): Genome {
+  const gamete1 = createGamete(genome1, method, rng);
+  const gamete2 = createGamete(genome2, method, rng);
+
+  return {
+    genes: GENE_LOCI
+      .filter(locus => gamete1.has(locus) && gamete2.has(locus))
+      .map(locus => ({ locus, alleles: [gamete1.get(locus)!, gamete2.get(locus)!] }))
+  };
+}
+
+/**
+ * Mutate each allele with probability `rate`, using an operator picked by its configured weight
+ */
+export function mutateGenome(genome: Genome, rate: number, rng: Random): Genome {
+  return {
+    genes: genome.genes.map(gene => ({
+      ...gene,
+      alleles: gene.alleles.map(allele =>
+        rng.next() < rate ? MUTATION_OPERATORS[pickOperator(rng)](allele, rng) : allele
+      ) as Gene['alleles']
+    }))
+  };
+}
+
+/**
+ * Compatibility distance between two genomes: the share of loci only one of
+ * them carries plus the mean allele difference at the shared loci
+ */
+export function geneticDistance(genome1: Genome, genome2: Genome): number {
+  const { disjointWeight, alleleWeight } = simulationConfig.speciation;
+  const genes2 = new Map(genome2.genes.map(gene => [gene.locus, gene]));
+
+  let shared = 0;
+  let difference = 0;
+  for (const gene of genome1.genes) {
+    const other = genes2.get(gene.locus);
+    if (!other) continue;
+    shared++;
+
+    // Compare the allele pairs in whichever order matches best
+    const [a1, a2] = gene.alleles.map(allele => allele.value);
+    const [b1, b2] = other.alleles.map(allele => allele.value);
+    difference += Math.min(Math.abs(a1 - b1) + Math.abs(a2 - b2), Math.abs(a1 - b2) + Math.abs(a2 - b1)) / 2;
+  }
+
+  const disjoint = genome1.genes.length + genome2.genes.length - 2 * shared;
+  const size = Math.max(genome1.genes.length, genome2.genes.length, 1);
+  return disjointWeight * disjoint / size + alleleWeight * (shared > 0 ? difference / shared : 0);
+}
+
+/**
+ * Share of loci carrying two different alleles
+ */
+export function heterozygosity(genome: Genome): number {
+  if (genome.genes.length === 0) return 0;
+  const heterozygous = genome.genes.filter(({ alleles: [first, second] }) =>
+    first.value !== second.value || first.dominant !== second.dominant
+  );
+  return heterozygous.length / genome.genes.length;
+}
+
+// One allele per locus, recombined from the two chromosome copies
+function createGamete(genome: Genome, method: CrossoverMethod, rng: Random): Map<GeneLocus, Allele> {
+  const gamete = new Map<GeneLocus, Allele>();
+  // Single-point: copy one chromosome up to the cut, the other one after it
+  const cut = Math.floor(rng.next() * (genome.genes.length + 1));
+  const startWithFirst = rng.next() < 0.5;
+
+  genome.genes.forEach((gene, index) => {
+    const fromFirst = method === 'uniform'
+      ? rng.next() < 0.5
+      : (index < cut) === startWithFirst;
+    gamete.set(gene.locus, gene.alleles[fromFirst ? 0 : 1]);
+  });
+  return gamete;
+}
+
+function pickOperator(rng: Random): MutationOperator {
+  const weights = Object.entries(simulationConfig.agents.genetics.mutationOperators) as [MutationOperator, number][];
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let roll = rng.next() * total;
+  for (const [operator, weight] of weights) {
+    roll -= weight;
+    if (roll <= 0) return operator;
+  }
+  return weights[weights.length - 1][0];
+}
+
+// Flat locus -> value view of a phenotype
+function phenotypeValues(phenotype: GenomePhenotype): Record<GeneLocus, number> {
+  const color = phenotype.color;
+  return {
+    ...phenotype.traits,
+    perceptionRadius: phenotype.perceptionRadius,
+    movementSpeed: phenotype.movementSpeed,
+    lifespan: phenotype.lifespan,
+    mutationRate: phenotype.mutationRate,
+    colorRed: parseInt(color.substring(1, 3), 16),
+    colorGreen: parseInt(color.substring(3, 5), 16),
+    colorBlue: parseInt(color.substring(5, 7), 16),
+    prefColorSimilarity: phenotype.matePreferences.colorSimilarity,
+    prefConsciousness: phenotype.matePreferences.consciousness,
+    prefComplementarity: phenotype.matePreferences.complementarity,
+    choosiness: phenotype.matePreferences.choosiness,
+    asexuality: phenotype.asexuality,
+    altruism: phenotype.altruism
+  };
+}
+
+function toHex(channels: number[]): string {
+  return `#${channels.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { estimatePhi } from './integratedInformation';
+import { createBrain } from './neuralBrain';
+import { createRandom } from './random';
+import { BrainGenome } from './types';
+
+// Brain of `units` hidden units whose recurrent weights are given by `weight(to, from)`
+function brainWith(units: number, weight: (to: number, from: number) => number): BrainGenome {
+  const brain = createBrain(createRandom(1));
+  return {
+    ...brain,
+    hiddenSize: units,
+    recurrent: true,
+    inputWeights: new Array(units * brain.inputSize).fill(0),
+    recurrentWeights: Array.from({ length: units * units }, (_, i) => weight(Math.floor(i / units), i % units)),
+    hiddenBias: new Array(units).fill(0)
+  };
+}
+
+describe('estimatePhi', () => {
+  it('is zero for a feed-forward brain', () => {
+    const brain = { ...createBrain(createRandom(1)), recurrent: false, recurrentWeights: [] };
+    const phi = estimatePhi(brain, [], 0)!;
+    expect(phi.value).toBe(0);
+    expect(phi.normalized).toBe(0);
+  });
+
+  it('is zero for units that only feed back onto themselves', () => {
+    const phi = estimatePhi(brainWith(4, (to, from) => (to === from ? 1 : 0)), [], 0)!;
+    expect(phi.value).toBe(0);
+  });
+
+  it('is positive for units that drive each other in a loop', () => {
+    const phi = estimatePhi(brainWith(4, (to, from) => (from === (to + 1) % 4 ? 1 : 0)), [], 0)!;
+    expect(phi.value).toBeGreaterThan(0);
+  });
+
+  it('maps typical brains into the range of the integration component', () => {
+    const rng = createRandom(42);
+    const estimates = Array.from({ length: 30 }, () => estimatePhi(createBrain(rng), [], 0)!);
+    estimates.forEach(phi => {
+      expect(phi.normalized).toBeCloseTo(1 - Math.pow(2, -phi.value));
+    });
+
+    const median = estimates.map(phi => phi.normalized).sort((a, b) => a - b)[15];
+    expect(median).toBeGreaterThan(0.4);
+    expect(median).toBeLessThan(0.9);
+  });
+
+  it('leaves brains too large to evaluate to the approximation', () => {
+    expect(estimatePhi(brainWith(12, () => 1), [], 0)).toBeUndefined();
+  });
+});
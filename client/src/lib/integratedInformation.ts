@@ -0,0 +1,135 @@
+import { Agent, BrainGenome, PhiEstimate } from './types';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Integrated information (Φ) of an agent's brain.
+ *
+ * The hidden units of the recurrent network are treated as a small discrete
+ * system: each unit is on or off (the sign of its activation) and the next
+ * state follows from the recurrent weights, the bias and the agent's current
+ * sensory input, which is held fixed as background. For every bipartition
+ * {A, B} of the units the effective information
+ *
+ *   EI(A ⇄ B) = I(A_t ; B_t+1) + I(B_t ; A_t+1)
+ *
+ * is measured with the system perturbed into all states with equal
+ * probability (maximum entropy). The minimum-information partition (MIP) is
+ * the bipartition with the lowest EI normalized by the smaller part's
+ * maximum entropy, and Φ is the EI across it, in bits. A feed-forward brain
+ * has Φ = 0: its parts do not constrain each other's future.
+ *
+ * Evolved brains rarely come near the theoretical maximum of the EI, so
+ * the integration component is not Φ relative to that maximum but
+ * 1 - 2^(-Φ / phiScale): every `phiScale` bits halve the distance to full
+ * integration. This keeps typical brains (1-2 bits) in the range of the
+ * trait-based approximation the consciousness models were tuned on.
+ *
+ * The cost grows with 2^n states times 2^(n-1) bipartitions, so estimates
+ * are cached on the agent and only refreshed every
+ * `consciciousnessCalculation.phiInterval` days.
+ */
+
+/**
+ * Whether the agent's cached Φ estimate is missing or stale
+ */
+export function phiDue(agent: Agent, currentTime: number): boolean {
+  const { phiInterval } = simulationConfig.agents.consciciousnessCalculation;
+  return !agent.phi || currentTime - agent.phi.time >= phiInterval;
+}
+
+/**
+ * Estimate Φ of a brain's hidden units under the given sensory input,
+ * or undefined if the brain has more units than can be evaluated
+ */
+export function estimatePhi(brain: BrainGenome, inputs: number[], time: number): PhiEstimate | undefined {
+  const units = brain.hiddenSize;
+  if (units < 2 || units > simulationConfig.agents.consciciousnessCalculation.phiMaxUnits) {
+    return undefined;
+  }
+
+  const next = transitionTable(brain, inputs);
+  const all = (1 << units) - 1;
+
+  let mip = { phi: 0, normalized: Infinity, partition: [] as number[] };
+  // Each bipartition once: part A always contains the last unit
+  for (let a = 1 << (units - 1); a < all; a++) {
+    const b = all & ~a;
+    const phi = mutualInformation(next, units, a, b) + mutualInformation(next, units, b, a);
+    const normalized = phi / Math.min(bitCount(a), bitCount(b));
+    if (normalized < mip.normalized) {
+      mip = { phi, normalized, partition: unitsOf(a, units) };
+    }
+  }
+
+  const { phiScale } = simulationConfig.agents.consciciousnessCalculation;
+  return {
+    value: mip.phi,
+    normalized: 1 - Math.pow(2, -mip.phi / phiScale),
+    partition: mip.partition,
+    time
+  };
+}
+
+// Next state of every state of the binary hidden units (bit r set = unit r on)
+function transitionTable(brain: BrainGenome, inputs: number[]): Int32Array {
+  const units = brain.hiddenSize;
+
+  // Sensory drive is the same for every state
+  const drive = Array.from({ length: units }, (_, h) => {
+    let sum = brain.hiddenBias[h];
+    for (let i = 0; i < brain.inputSize; i++) {
+      sum += brain.inputWeights[h * brain.inputSize + i] * (inputs[i] ?? 0);
+    }
+    return sum;
+  });
+
+  const next = new Int32Array(1 << units);
+  for (let state = 0; state < next.length; state++) {
+    let successor = 0;
+    for (let h = 0; h < units; h++) {
+      let sum = drive[h];
+      if (brain.recurrent) {
+        for (let r = 0; r < units; r++) {
+          sum += brain.recurrentWeights[h * units + r] * ((state >> r) & 1 ? 1 : -1);
+        }
+      }
+      if (sum >= 0) successor |= 1 << h;
+    }
+    next[state] = successor;
+  }
+  return next;
+}
+
+// I(source_t ; target_t+1) in bits with all current states equally likely
+function mutualInformation(next: Int32Array, units: number, source: number, target: number): number {
+  const joint = new Map<number, number>();
+  const future = new Map<number, number>();
+  for (let state = 0; state < next.length; state++) {
+    const effect = next[state] & target;
+    const key = (state & source) * (1 << units) + effect;
+    joint.set(key, (joint.get(key) ?? 0) + 1);
+    future.set(effect, (future.get(effect) ?? 0) + 1);
+  }
+
+  // I = H(source) + H(target') - H(source, target'); the source is uniform
+  return Math.max(0, bitCount(source) + entropy(future, next.length) - entropy(joint, next.length));
+}
+
+function entropy(counts: Map<number, number>, total: number): number {
+  let sum = 0;
+  counts.forEach(count => {
+    const p = count / total;
+    sum -= p * Math.log2(p);
+  });
+  return sum;
+}
+
+function bitCount(mask: number): number {
+  let count = 0;
+  for (let rest = mask; rest; rest &= rest - 1) count++;
+  return count;
+}
+
+function unitsOf(mask: number, units: number): number[] {
+  return Array.from({ length: units }, (_, unit) => unit).filter(unit => (mask >> unit) & 1);
+}
@@ -0,0 +1,230 @@
+import { Agent, LexiconEntry, LongTermMemory, Referent } from './types';
+import { Random } from './random';
+import { isReadyToReproduce } from './utilityAI';
+import { addMemory, groundDistance, learnPlace } from './memory';
+import { strengthenRelationship } from './relationships';
+import { SYLLABLES } from './speciation';
+import { trackChanges, turnOrder } from './agentChanges';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Signaling system (naming game).
+ *
+ * Every agent has a lexicon of signals for a small set of referents: the
+ * three resource types, danger and a mate. When an agent communicates, it
+ * names something it has to say (a remembered resource place, a recent
+ * danger, its readiness to mate) with its most confident signal, inventing
+ * one if it has none. The hearer interprets the signal as the referent it
+ * is most confident about. If that is the intended referent the game
+ * succeeds: both raise their confidence in the signal, drop competing
+ * signals for the referent, and the hearer learns what was said (e.g. where
+ * the food is). Otherwise the hearer adopts the signal and the speaker
+ * loses confidence in it. Newborns learn most of their parents' preferred
+ * signals, so vocabularies spread culturally and drift apart between
+ * groups that rarely meet.
+ */
+
+export const REFERENTS: Referent[] = ['food', 'water', 'light', 'danger', 'mate'];
+
+// What a speaker wants to say, with the remembered place for resources
+interface Topic {
+  referent: Referent;
+  place?: LongTermMemory;
+}
+
+export interface LanguageStatistics {
+  vocabularySize: number; // Referents an agent has a signal for, on average
+  agreement: number;      // Chance that two agents who both name a referent use the same signal
+  complexity: number;     // Share of the referents the population names alike (0-1)
+}
+
+/**
+ * The signal an agent is most confident about for a referent
+ */
+export function preferredSignal(agent: Agent, referent: Referent): LexiconEntry | undefined {
+  let best: LexiconEntry | undefined;
+  for (const entry of agent.lexicon) {
+    if (entry.referent === referent && (!best || entry.score > best.score)) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+/**
+ * The referent an agent understands a signal as, or undefined if unknown
+ */
+export function interpretSignal(agent: Agent, signal: string): Referent | undefined {
+  let best: LexiconEntry | undefined;
+  for (const entry of agent.lexicon) {
+    if (entry.signal === signal && (!best || entry.score > best.score)) {
+      best = entry;
+    }
+  }
+  return best?.referent;
+}
+
+/**
+ * Play a naming game for every agent that communicated this step.
+ * Returns the agents with speakers and hearers replaced by updated copies.
+ */
+export function playNamingGames(agents: Agent[], currentTime: number, rng: Random): Agent[] {
+  const { interactionRange } = simulationConfig.agents;
+  const changes = trackChanges(agents);
+
+  const speakers = agents.filter(agent => agent.lastAction === 'communicate' && agent.targetId);
+
+  for (const { id } of turnOrder(speakers, rng)) {
+    const speaker = changes.current(id)!;
+    const hearer = changes.current(speaker.targetId!);
+    if (!hearer || groundDistance(speaker.position, hearer.position) > interactionRange) continue;
+
+    namingGame(changes.change(speaker), changes.change(hearer), currentTime, rng);
+  }
+
+  return changes.apply(agents);
+}
+
+/**
+ * Lexicon of a newborn: for each referent one parent's preferred signal,
+ * each learned with the configured fidelity
+ */
+export function inheritLexicon(parents: Agent[], rng: Random): LexiconEntry[] {
+  const { initialScore, transmissionFidelity } = simulationConfig.agents.language;
+  const lexicon: LexiconEntry[] = [];
+  REFERENTS.forEach(referent => {
+    const entry = preferredSignal(rng.pick(parents), referent);
+    if (entry && rng.next() < transmissionFidelity) {
+      lexicon.push({ referent, signal: entry.signal, score: initialScore });
+    }
+  });
+  return lexicon;
+}
+
+/**
+ * Vocabulary size, agreement and the resulting language complexity of a population
+ */
+export function languageStatistics(agents: Agent[]): LanguageStatistics {
+  if (agents.length === 0) {
+    return { vocabularySize: 0, agreement: 0, complexity: 0 };
+  }
+
+  let known = 0;
+  let agreeingPairs = 0;
+  let namingPairs = 0;
+  REFERENTS.forEach(referent => {
+    const signals = new Map<string, number>();
+    agents.forEach(agent => {
+      const entry = preferredSignal(agent, referent);
+      if (entry) signals.set(entry.signal, (signals.get(entry.signal) ?? 0) + 1);
+    });
+
+    let speakers = 0;
+    signals.forEach(count => {
+      speakers += count;
+      agreeingPairs += count * (count - 1) / 2;
+    });
+    known += speakers;
+    namingPairs += speakers * (speakers - 1) / 2;
+  });
+
+  const vocabularySize = known / agents.length;
+  const agreement = namingPairs > 0 ? agreeingPairs / namingPairs : 0;
+  return {
+    vocabularySize,
+    agreement,
+    complexity: (vocabularySize / REFERENTS.length) * agreement
+  };
+}
+
+// One round of the naming game between a speaker and a hearer (both copies)
+function namingGame(speaker: Agent, hearer: Agent, currentTime: number, rng: Random): void {
+  const { initialScore, successReward, failurePenalty } = simulationConfig.agents.language;
+  const topic = chooseTopic(speaker, currentTime, rng);
+
+  let word = preferredSignal(speaker, topic.referent);
+  if (!word) {
+    word = { referent: topic.referent, signal: inventSignal(rng), score: initialScore };
+    speaker.lexicon.push(word);
+  }
+
+  const understood = interpretSignal(hearer, word.signal) === topic.referent;
+  if (understood) {
+    align(speaker, topic.referent, word.signal, successReward);
+    align(hearer, topic.referent, word.signal, successReward);
+    if (topic.place) {
+      learnPlace(hearer, topic.place, currentTime);
+    }
+  } else {
+    word.score -= failurePenalty;
+    if (word.score <= 0) {
+      speaker.lexicon = speaker.lexicon.filter(entry => entry !== word);
+    }
+    if (!hearer.lexicon.some(entry => entry.referent === topic.referent && entry.signal === word!.signal)) {
+      hearer.lexicon.push({ referent: topic.referent, signal: word.signal, score: initialScore });
+    }
+  }
+
+  addMemory(speaker, {
+    timestamp: currentTime,
+    type: 'feedback',
+    data: { event: understood ? 'understood' : 'misunderstood', by: hearer.id, referent: topic.referent, signal: word.signal },
+    intensity: 0.5
+  });
+  addMemory(hearer, {
+    timestamp: currentTime,
+    type: 'encounter',
+    data: { event: 'signal', from: speaker.id, referent: topic.referent, signal: word.signal, understood },
+    intensity: 0.5
+  });
+
+  // Talking brings agents closer, understanding each other builds trust
+  const { conversationFamiliarity, understoodTrust } = simulationConfig.agents.relationships;
+  const change = { familiarity: conversationFamiliarity, trust: understood ? understoodTrust : 0 };
+  strengthenRelationship(speaker, hearer, change, currentTime);
+  strengthenRelationship(hearer, speaker, change, currentTime);
+}
+
+// Something worth saying: readiness to mate, a recent danger or a known resource place
+function chooseTopic(speaker: Agent, currentTime: number, rng: Random): Topic {
+  const window = simulationConfig.agents.utility.memoryWindow;
+  const topics: Topic[] = [];
+
+  if (isReadyToReproduce(speaker)) {
+    topics.push({ referent: 'mate' });
+  }
+  const fled = speaker.memory.some(memory =>
+    memory.type === 'action' && memory.data?.action === 'avoid' && currentTime - memory.timestamp < window
+  );
+  if (fled) {
+    topics.push({ referent: 'danger' });
+  }
+  speaker.longTermMemory.forEach(place => {
+    topics.push({ referent: place.resourceType, place });
+  });
+
+  return topics.length > 0 ? rng.pick(topics) : { referent: rng.pick(REFERENTS) };
+}
+
+// Reward a signal that worked and inhibit its competitors for the same referent
+function align(agent: Agent, referent: Referent, signal: string, reward: number): void {
+  const { initialScore, inhibition } = simulationConfig.agents.language;
+  let found = false;
+  agent.lexicon.forEach(entry => {
+    if (entry.referent !== referent) return;
+    if (entry.signal === signal) {
+      entry.score = Math.min(1, entry.score + reward);
+      found = true;
+    } else {
+      entry.score -= inhibition;
+    }
+  });
+  if (!found) {
+    agent.lexicon.push({ referent, signal, score: initialScore });
+  }
+  agent.lexicon = agent.lexicon.filter(entry => entry.score > 0);
+}
+
+function inventSignal(rng: Random): string {
+  return Array.from({ length: 2 }, () => rng.pick(SYLLABLES)).join('');
+}
@@ -0,0 +1,136 @@
+import { Agent, DeathCause, Memory, WorldEvent, WorldState } from './types';
+
+/**
+ * Pedigree records.
+ *
+ * Every agent that ever lived gets a lineage record with its parents, so
+ * family trees survive memory eviction and death. The server derives births
+ * and deaths from consecutive world states and stores the records; the
+ * helpers below are shared by the server and the family-tree panel.
+ */
+
+export interface LineageRecord {
+  agentId: string;
+  parentIds: string[];    // Empty for founders
+  generation: number;
+  speciesId: string;      // Species at birth, updated at death
+  color: string;
+  birthTime: number;
+  deathTime?: number;
+  deathCause?: DeathCause;
+  consciousness: number;  // At birth, updated at death
+}
+
+export interface LineageDeath {
+  agentId: string;
+  time: number;
+  cause?: DeathCause;
+  speciesId: string;
+  consciousness: number;
+}
+
+export interface LineageTree {
+  records: Map<string, LineageRecord>;
+  children: Map<string, LineageRecord[]>;
+  roots: LineageRecord[];  // Records without known parents
+}
+
+/**
+ * Lineage record of a living agent
+ */
+export function lineageRecord(agent: Agent, time: number): LineageRecord {
+  return {
+    agentId: agent.id,
+    parentIds: agent.parentIds,
+    generation: agent.generation,
+    speciesId: agent.speciesId,
+    color: agent.color,
+    birthTime: Math.max(0, time - agent.age),
+    consciousness: agent.consciousnessValue
+  };
+}
+
+/**
+ * Parents named in an agent's birth memory (for agents stored before `parentIds` existed)
+ */
+export function birthParents(memories: Memory[] = []): string[] {
+  const birth = memories.find(memory => memory.type === 'observation' && memory.data?.event === 'birth');
+  return birth ? [birth.data.parent1Id, birth.data.parent2Id].filter(Boolean) : [];
+}
+
+/**
+ * Births and deaths between two consecutive world states
+ */
+export function lineageChanges(
+  previous: WorldState,
+  next: WorldState,
+  events: WorldEvent[]
+): { births: LineageRecord[]; deaths: LineageDeath[] } {
+  const previousIds = new Set(previous.agents.map(agent => agent.id));
+  const nextIds = new Set(next.agents.map(agent => agent.id));
+
+  const causes = new Map<string, DeathCause>();
+  events.forEach(event => {
+    if (event.type === 'death' && event.cause) {
+      event.affectedAgents.forEach(agentId => causes.set(agentId, event.cause!));
+    }
+  });
+
+  return {
+    births: next.agents
+      .filter(agent => !previousIds.has(agent.id))
+      .map(agent => lineageRecord(agent, next.time)),
+    deaths: previous.agents
+      .filter(agent => !nextIds.has(agent.id))
+      .map(agent => ({
+        agentId: agent.id,
+        time: next.time,
+        cause: causes.get(agent.id),
+        speciesId: agent.speciesId,
+        consciousness: agent.consciousnessValue
+      }))
+  };
+}
+
+/**
+ * Index records by agent and by parent for walking the family tree
+ */
+export function buildLineageTree(records: LineageRecord[]): LineageTree {
+  const byId = new Map(records.map(record => [record.agentId, record]));
+  const children = new Map<string, LineageRecord[]>();
+
+  records.forEach(record => {
+    record.parentIds.forEach(parentId => {
+      const siblings = children.get(parentId);
+      if (siblings) {
+        siblings.push(record);
+      } else {
+        children.set(parentId, [record]);
+      }
+    });
+  });
+
+  return {
+    records: byId,
+    children,
+    roots: records.filter(record => !record.parentIds.some(parentId => byId.has(parentId)))
+  };
+}
+
+/**
+ * Number of descendants of an agent (each counted once)
+ */
+export function countDescendants(tree: LineageTree, agentId: string): number {
+  const seen = new Set<string>();
+  const pending = [agentId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    for (const child of tree.children.get(id) ?? []) {
+      if (!seen.has(child.agentId)) {
+        seen.add(child.agentId);
+        pending.push(child.agentId);
+      }
+    }
+  }
+  return seen.size;
+}
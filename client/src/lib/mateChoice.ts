@@ -0,0 +1,63 @@
+import { Agent, AgentTraits } from './types';
+
+/**
+ * Mate choice.
+ *
+ * Each agent inherits preference genes that weight what it finds attractive
+ * in a partner: a similar color (assortative mating), high consciousness,
+ * or traits that complement its own. Its choosiness gene is the lowest
+ * attractiveness it accepts. Courtship is mutual: a suitor courts the most
+ * attractive ready partner within reach and the partner may refuse, so
+ * preferences and choosiness are both under sexual selection.
+ */
+
+const TRAIT_KEYS: (keyof AgentTraits)[] = [
+  'curiosity', 'socialAffinity', 'resourceAffinity', 'exploration', 'adaptability'
+];
+
+/**
+ * How attractive `candidate` is to `chooser` (0-1)
+ */
+export function mateAttractiveness(chooser: Agent, candidate: Agent): number {
+  const { colorSimilarity, consciousness, complementarity } = chooser.matePreferences;
+  const totalWeight = colorSimilarity + consciousness + complementarity;
+  // Agents without any preference find every partner equally acceptable
+  if (totalWeight === 0) return 0.5;
+
+  const similarity = 1 - colorDistance(chooser.color, candidate.color);
+  const awareness = Math.min(1, candidate.consciousnessValue / 100);
+  const difference = TRAIT_KEYS.reduce(
+    (sum, key) => sum + Math.abs(chooser.traits[key] - candidate.traits[key]),
+    0
+  ) / TRAIT_KEYS.length;
+
+  return (
+    colorSimilarity * similarity +
+    consciousness * awareness +
+    complementarity * difference
+  ) / totalWeight;
+}
+
+/**
+ * Whether `chooser` would mate with `candidate`
+ */
+export function acceptsMate(chooser: Agent, candidate: Agent): boolean {
+  return mateAttractiveness(chooser, candidate) >= chooser.matePreferences.choosiness;
+}
+
+/**
+ * Variance of the number of offspring per agent (Bateman's measure of sexual selection)
+ */
+export function matingSuccessVariance(agents: Agent[]): number {
+  if (agents.length === 0) return 0;
+  const mean = agents.reduce((sum, agent) => sum + agent.offspringCount, 0) / agents.length;
+  return agents.reduce((sum, agent) => sum + (agent.offspringCount - mean) ** 2, 0) / agents.length;
+}
+
+// Distance between two hex colors in RGB space (0-1)
+function colorDistance(color1: string, color2: string): number {
+  const channels = (color: string) => [1, 3, 5].map(start => parseInt(color.substring(start, start + 2), 16));
+  const [r1, g1, b1] = channels(color1);
+  const [r2, g2, b2] = channels(color2);
+  return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2) / (255 * Math.sqrt(3));
+}
@@ -0,0 +1,77 @@
+import { Agent } from './types';
+import { Random } from './random';
+
+/**
+ * Mating types.
+ *
+ * A world either has no mating types (hermaphrodites: any two agents can
+ * mate), two sexes, or N self-incompatible mating types as in fungi, where
+ * any two agents of different types can mate. The number of types is a
+ * world setting (`WorldSettings.matingTypes`, below 2 means none); every
+ * agent draws its type at birth. With two sexes type 0 is female and type 1
+ * male.
+ */
+
+const SEX_LABELS = ['female', 'male'];
+
+/**
+ * Mating type of a newborn
+ */
+export function randomMatingType(matingTypes: number, rng: Random): number {
+  return matingTypes < 2 ? 0 : rng.int(0, matingTypes);
+}
+
+/**
+ * Mating types for a living population when the world's number of types
+ * changes: dealt out in turn over a shuffled order, separately for each
+ * trophic level, so every level has as many of each type as possible and
+ * is never left without a compatible pair by chance.
+ * Returns the agents with their new types, in their original order.
+ */
+export function assignMatingTypes(agents: Agent[], matingTypes: number, rng: Random): Agent[] {
+  const types = new Map<string, number>();
+  const levels = new Set(agents.map(agent => agent.trophicLevel));
+  levels.forEach(level => {
+    rng.shuffle(agents.filter(agent => agent.trophicLevel === level)).forEach((agent, index) => {
+      types.set(agent.id, matingTypes < 2 ? 0 : index % matingTypes);
+    });
+  });
+  return agents.map(agent => ({ ...agent, matingType: types.get(agent.id)! }));
+}
+
+/**
+ * Whether two agents' mating types allow them to mate
+ */
+export function compatibleMatingTypes(agent1: Agent, agent2: Agent, matingTypes: number): boolean {
+  return matingTypes < 2 || agent1.matingType !== agent2.matingType;
+}
+
+/**
+ * Display name of a mating type
+ */
+export function matingTypeLabel(matingType: number, matingTypes: number): string {
+  if (matingTypes < 2) return 'hermaphrodite';
+  if (matingTypes === 2) return SEX_LABELS[matingType];
+  return `type ${String.fromCharCode(65 + matingType)}`;
+}
+
+/**
+ * Living agents per mating type (empty without mating types)
+ */
+export function matingTypeCounts(agents: Agent[], matingTypes: number): number[] {
+  if (matingTypes < 2) return [];
+  const counts = new Array(matingTypes).fill(0);
+  agents.forEach(agent => {
+    counts[agent.matingType] += 1;
+  });
+  return counts;
+}
+
+/**
+ * Balance of the mating types: the rarest type relative to the most common
+ * one (1 = balanced or no mating types, 0 = a type has died out)
+ */
+export function sexRatio(counts: number[]): number {
+  const most = Math.max(0, ...counts);
+  return counts.length === 0 || most === 0 ? 1 : Math.min(...counts) / most;
+}
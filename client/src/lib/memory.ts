@@ -0,0 +1,201 @@
+import { Agent, LongTermMemory, Memory, Resource, Vector3D } from './types';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Short-term and long-term memory.
+ *
+ * Every experience first lands in the short-term store (`Agent.memory`),
+ * whose intensities fade over simulated time until the memory is forgotten.
+ * Experiences that repeat are consolidated into the long-term store
+ * (`Agent.longTermMemory`): several meals of the same resource type close
+ * together become one generalized memory such as "food is usually near X",
+ * placed at the mean of the experiences. Long-term memories fade much more
+ * slowly, are reinforced by every further experience, and lose strength
+ * quickly when the agent sees the remembered place without the resource.
+ * The utility controller uses them to return to known resources that are
+ * out of sight.
+ *
+ * Memories are replaced rather than changed in place, because the arrays
+ * of an agent are shared with the world state it was copied from.
+ */
+
+/**
+ * Add a memory to an agent's short-term store, forgetting the weakest
+ * (then oldest) memory when the store is full
+ */
+export function addMemory(agent: Agent, memory: Memory): void {
+  if (agent.memory.length >= simulationConfig.agents.memory.shortTermCapacity) {
+    agent.memory.sort((a, b) => {
+      if (a.intensity === b.intensity) {
+        return a.timestamp - b.timestamp;
+      }
+      return a.intensity - b.intensity;
+    });
+    agent.memory.shift();
+  }
+
+  agent.memory.push(memory);
+}
+
+/**
+ * Let an agent's memories fade, consolidate repeated experiences and
+ * weaken remembered places that turned out to be empty
+ */
+export function updateMemories(agent: Agent, resources: Resource[], deltaTime: number, currentTime: number): void {
+  const { shortTermDecay, longTermDecay, longTermCapacity, forgetThreshold } = simulationConfig.agents.memory;
+
+  const shortTermRetention = Math.exp(-shortTermDecay * deltaTime);
+  agent.memory = agent.memory
+    .map(memory => ({ ...memory, intensity: memory.intensity * shortTermRetention }))
+    .filter(memory => memory.intensity >= forgetThreshold);
+
+  const longTermRetention = Math.exp(-longTermDecay * deltaTime);
+  agent.longTermMemory = agent.longTermMemory.map(entry => ({
+    ...entry,
+    position: { ...entry.position },
+    strength: entry.strength * longTermRetention
+  }));
+
+  consolidate(agent, currentTime);
+  checkRememberedPlaces(agent, resources, deltaTime);
+
+  agent.longTermMemory = agent.longTermMemory
+    .filter(entry => entry.strength >= forgetThreshold)
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, longTermCapacity);
+}
+
+/**
+ * The strongest long-term memory of where a resource type is found, or
+ * undefined if the agent knows of none
+ */
+export function recallResource(agent: Agent, type: Resource['type']): LongTermMemory | undefined {
+  let strongest: LongTermMemory | undefined;
+  for (const entry of agent.longTermMemory) {
+    if (entry.resourceType === type && (!strongest || entry.strength > strongest.strength)) {
+      strongest = entry;
+    }
+  }
+  return strongest;
+}
+
+/**
+ * Learn of a place from another agent's description. The told memory is
+ * weaker than the speaker's own and reinforces a matching place the
+ * hearer already knows.
+ */
+export function learnPlace(agent: Agent, place: LongTermMemory, currentTime: number): void {
+  const { generalizationRadius, sharedPlaceStrength } = simulationConfig.agents.memory;
+  const strength = place.strength * sharedPlaceStrength;
+
+  const index = agent.longTermMemory.findIndex(
+    entry => entry.resourceType === place.resourceType && groundDistance(entry.position, place.position) <= generalizationRadius
+  );
+  if (index === -1) {
+    agent.longTermMemory.push({
+      resourceType: place.resourceType,
+      position: { ...place.position },
+      strength,
+      experiences: 1,
+      lastReinforced: currentTime
+    });
+    return;
+  }
+
+  const known = agent.longTermMemory[index];
+  agent.longTermMemory[index] = {
+    ...known,
+    strength: known.strength + strength * (1 - known.strength),
+    lastReinforced: currentTime
+  };
+}
+
+/**
+ * Distance on the ground plane (light sources hang above the ground)
+ */
+export function groundDistance(position1: Vector3D, position2: Vector3D): number {
+  return Math.sqrt((position2.x - position1.x) ** 2 + (position2.z - position1.z) ** 2);
+}
+
+// Merge consumption memories into generalized memories of places
+function consolidate(agent: Agent, currentTime: number): void {
+  const { consolidationThreshold, generalizationRadius } = simulationConfig.agents.memory;
+  const pending = agent.memory.filter(
+    memory => !memory.consolidated && memory.data?.action === 'consume' && memory.data?.position
+  );
+
+  const samePlace = (position1: Vector3D, position2: Vector3D) =>
+    groundDistance(position1, position2) <= generalizationRadius;
+
+  for (const memory of pending) {
+    if (memory.consolidated) continue;
+    const { resourceType, position } = memory.data;
+
+    // A place the agent already knows is reinforced by every new experience
+    const known = agent.longTermMemory.find(
+      entry => entry.resourceType === resourceType && samePlace(entry.position, position)
+    );
+    if (known) {
+      reinforce(known, [memory], currentTime);
+      continue;
+    }
+
+    // A new place is only remembered once the experience has repeated
+    const similar = pending.filter(
+      other =>
+        !other.consolidated &&
+        other.data.resourceType === resourceType &&
+        samePlace(other.data.position, position)
+    );
+    if (similar.length < consolidationThreshold) continue;
+
+    const entry: LongTermMemory = {
+      resourceType,
+      position: { ...position },
+      strength: 0,
+      experiences: 0,
+      lastReinforced: currentTime
+    };
+    reinforce(entry, similar, currentTime);
+    agent.longTermMemory.push(entry);
+  }
+}
+
+// Move the remembered place towards the mean of its experiences and strengthen it
+function reinforce(entry: LongTermMemory, experiences: Memory[], currentTime: number): void {
+  const { reinforcement } = simulationConfig.agents.memory;
+  experiences.forEach(memory => {
+    const weight = 1 / (entry.experiences + 1);
+    const position: Vector3D = memory.data.position;
+    entry.position = {
+      x: entry.position.x + (position.x - entry.position.x) * weight,
+      y: entry.position.y + (position.y - entry.position.y) * weight,
+      z: entry.position.z + (position.z - entry.position.z) * weight
+    };
+    entry.experiences += 1;
+    entry.strength += reinforcement * (1 - entry.strength);
+    memory.consolidated = true;
+  });
+  entry.lastReinforced = currentTime;
+}
+
+// Remembered places in sight without any of the resource left lose strength
+function checkRememberedPlaces(agent: Agent, resources: Resource[], deltaTime: number): void {
+  const { generalizationRadius, extinctionRate } = simulationConfig.agents.memory;
+  const perceived = new Set(
+    agent.sensorValues.proximity.filter(proximity => proximity.type === 'resource').map(proximity => proximity.id)
+  );
+  const visible = resources.filter(resource => perceived.has(resource.id) && resource.amount > 0);
+
+  agent.longTermMemory.forEach(entry => {
+    if (groundDistance(agent.position, entry.position) > agent.perceptionRadius) return;
+    const found = visible.some(
+      resource =>
+        resource.type === entry.resourceType &&
+        groundDistance(resource.position, entry.position) <= generalizationRadius
+    );
+    if (!found) {
+      entry.strength *= Math.exp(-extinctionRate * deltaTime);
+    }
+  });
+}
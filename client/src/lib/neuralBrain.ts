@@ -0,0 +1,229 @@
+import { Agent, AgentAction, BrainGenome, Resource } from './types';
+import { Random } from './random';
+import { ActionSelection, isReadyToReproduce, nearestPerceived } from './utilityAI';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Evolvable neural controller.
+ *
+ * Each agent carries a small network genome (one hidden layer, optionally
+ * recurrent) that maps its senses and internal state to action logits plus
+ * a preference for which kind of entity to target. The genome is inherited
+ * by uniform crossover and mutated with Gaussian noise, so behavior emerges
+ * from selection instead of being scripted. Every agent carries a brain even
+ * while the world uses the utility AI, so worlds can switch controllers.
+ */
+
+// Order of the network inputs (all roughly in [-1, 1])
+export const BRAIN_INPUTS = [
+  'energy', 'hunger', 'thirst', 'fatigue', 'age', 'readyToReproduce',
+  'cellFood', 'cellWater', 'cellLight', 'crowd',
+  'foodProximity', 'foodDirX', 'foodDirZ',
+  'waterProximity', 'waterDirX', 'waterDirZ',
+  'lightProximity', 'lightDirX', 'lightDirZ',
+  'agentProximity', 'agentDirX', 'agentDirZ'
+] as const;
+
+// Actions the network chooses between, in output order
+export const BRAIN_ACTIONS: AgentAction[] = [
+  'move', 'explore', 'approach', 'avoid', 'consume', 'reproduce', 'communicate', 'idle'
+];
+
+// Entity kinds the network can aim at, in output order after the actions
+export const BRAIN_TARGETS = ['food', 'water', 'light', 'agent'] as const;
+
+type BrainTarget = typeof BRAIN_TARGETS[number];
+
+/**
+ * Create a brain with small random weights
+ */
+export function createBrain(rng: Random): BrainGenome {
+  const { hiddenSize, recurrent, initialWeightScale } = simulationConfig.agents.neural;
+  const inputSize = BRAIN_INPUTS.length;
+  const outputSize = BRAIN_ACTIONS.length + BRAIN_TARGETS.length;
+  const weights = (count: number) =>
+    Array.from({ length: count }, () => rng.gaussian() * initialWeightScale);
+
+  return {
+    inputSize,
+    hiddenSize,
+    outputSize,
+    recurrent,
+    inputWeights: weights(hiddenSize * inputSize),
+    recurrentWeights: recurrent ? weights(hiddenSize * hiddenSize) : [],
+    hiddenBias: weights(hiddenSize),
+    outputWeights: weights(outputSize * hiddenSize),
+    outputBias: weights(outputSize)
+  };
+}
+
+/**
+ * Combine two parent brains gene by gene; incompatible shapes inherit one parent whole
+ */
+export function crossoverBrains(brain1: BrainGenome, brain2: BrainGenome, rng: Random): BrainGenome {
+  const compatible =
+    brain1.inputSize === brain2.inputSize &&
+    brain1.hiddenSize === brain2.hiddenSize &&
+    brain1.outputSize === brain2.outputSize &&
+    brain1.recurrent === brain2.recurrent;
+  if (!compatible) {
+    return copyBrain(rng.next() < 0.5 ? brain1 : brain2);
+  }
+
+  const mix = (genes1: number[], genes2: number[]) =>
+    genes1.map((gene, i) => rng.next() < 0.5 ? gene : genes2[i]);
+
+  return {
+    ...brain1,
+    inputWeights: mix(brain1.inputWeights, brain2.inputWeights),
+    recurrentWeights: mix(brain1.recurrentWeights, brain2.recurrentWeights),
+    hiddenBias: mix(brain1.hiddenBias, brain2.hiddenBias),
+    outputWeights: mix(brain1.outputWeights, brain2.outputWeights),
+    outputBias: mix(brain1.outputBias, brain2.outputBias)
+  };
+}
+
+/**
+ * Perturb each weight with probability `rate` by Gaussian noise
+ */
+export function mutateBrain(brain: BrainGenome, rate: number, rng: Random): BrainGenome {
+  const { mutationStrength } = simulationConfig.agents.neural;
+  const mutate = (genes: number[]) =>
+    genes.map(gene => rng.next() < rate ? gene + rng.gaussian() * mutationStrength : gene);
+
+  return {
+    ...brain,
+    inputWeights: mutate(brain.inputWeights),
+    recurrentWeights: mutate(brain.recurrentWeights),
+    hiddenBias: mutate(brain.hiddenBias),
+    outputWeights: mutate(brain.outputWeights),
+    outputBias: mutate(brain.outputBias)
+  };
+}
+
+/**
+ * Evaluate the network; returns the outputs and the new hidden state
+ */
+export function runBrain(
+  brain: BrainGenome,
+  inputs: number[],
+  previousHidden: number[] = []
+): { outputs: number[]; hidden: number[] } {
+  const hidden: number[] = [];
+  for (let h = 0; h < brain.hiddenSize; h++) {
+    let sum = brain.hiddenBias[h];
+    for (let i = 0; i < brain.inputSize; i++) {
+      sum += brain.inputWeights[h * brain.inputSize + i] * (inputs[i] ?? 0);
+    }
+    if (brain.recurrent) {
+      for (let r = 0; r < brain.hiddenSize; r++) {
+        sum += brain.recurrentWeights[h * brain.hiddenSize + r] * (previousHidden[r] ?? 0);
+      }
+    }
+    hidden.push(Math.tanh(sum));
+  }
+
+  const outputs: number[] = [];
+  for (let o = 0; o < brain.outputSize; o++) {
+    let sum = brain.outputBias[o];
+    for (let h = 0; h < brain.hiddenSize; h++) {
+      sum += brain.outputWeights[o * brain.hiddenSize + h] * hidden[h];
+    }
+    outputs.push(sum);
+  }
+
+  return { outputs, hidden };
+}
+
+/**
+ * Encode the agent's senses and internal state as network inputs
+ */
+export function brainInputs(agent: Agent, resources: Resource[]): number[] {
+  const range = simulationConfig.agents.interactionRange;
+  const crowd = agent.sensorValues.proximity.filter(p => p.type === 'agent' && p.distance <= range).length;
+
+  const senseTarget = (target: BrainTarget): number[] => {
+    const nearest = nearestOfKind(agent, resources, target);
+    if (!nearest) return [0, 0, 0];
+    const length = Math.hypot(nearest.direction.x, nearest.direction.z) || 1;
+    return [
+      1 - nearest.distance / agent.perceptionRadius,
+      nearest.direction.x / length,
+      nearest.direction.z / length
+    ];
+  };
+
+  return [
+    agent.energy / 100,
+    agent.needs.hunger / 100,
+    agent.needs.thirst / 100,
+    agent.needs.fatigue / 100,
+    agent.age / agent.lifespan,
+    isReadyToReproduce(agent) ? 1 : 0,
+    agent.sensorValues.resourceLevels.food,
+    agent.sensorValues.resourceLevels.water,
+    agent.sensorValues.resourceLevels.light,
+    Math.min(1, crowd / 5),
+    ...BRAIN_TARGETS.flatMap(senseTarget)
+  ];
+}
+
+/**
+ * Let the agent's brain choose an action and a target.
+ * The exposed scores are the action probabilities.
+ */
+export function decideNeuralAction(agent: Agent, resources: Resource[], rng: Random): ActionSelection {
+  const { outputs, hidden } = runBrain(agent.brain, brainInputs(agent, resources), agent.brainState);
+  agent.brainState = hidden;
+
+  // Softmax over the action logits
+  const logits = outputs.slice(0, BRAIN_ACTIONS.length);
+  const best = Math.max(...logits);
+  const weights = logits.map(logit => Math.exp(logit - best));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const scores: Partial<Record<AgentAction, number>> = {};
+  BRAIN_ACTIONS.forEach((action, i) => {
+    scores[action] = weights[i] / total;
+  });
+
+  let action: AgentAction = BRAIN_ACTIONS[BRAIN_ACTIONS.length - 1];
+  let roll = rng.next() * total;
+  for (let i = 0; i < BRAIN_ACTIONS.length; i++) {
+    roll -= weights[i];
+    if (roll <= 0) {
+      action = BRAIN_ACTIONS[i];
+      break;
+    }
+  }
+
+  // Aim at the preferred kind of entity that is actually in sight
+  const preferences = BRAIN_TARGETS
+    .map((target, i) => ({ target, value: outputs[BRAIN_ACTIONS.length + i] }))
+    .sort((a, b) => b.value - a.value);
+  const target = preferences
+    .map(preference => nearestOfKind(agent, resources, preference.target))
+    .find(proximity => proximity !== undefined);
+
+  return { action, targetId: target?.id, scores };
+}
+
+// Nearest perceived entity of a kind
+function nearestOfKind(agent: Agent, resources: Resource[], kind: BrainTarget) {
+  return nearestPerceived(agent, p =>
+    kind === 'agent'
+      ? p.type === 'agent'
+      : p.type === 'resource' && resources.find(r => r.id === p.id)?.type === kind
+  );
+}
+
+function copyBrain(brain: BrainGenome): BrainGenome {
+  return {
+    ...brain,
+    inputWeights: [...brain.inputWeights],
+    recurrentWeights: [...brain.recurrentWeights],
+    hiddenBias: [...brain.hiddenBias],
+    outputWeights: [...brain.outputWeights],
+    outputBias: [...brain.outputBias]
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationEngine } from './simulationEngine';
+import { initializeWorld } from './worldResources';
+import { simulationConfig } from '../config/simulationConfig';
+
+describe('predation', () => {
+  it('lets a hungry predator catch fleeing prey', () => {
+    const world = initializeWorld(42);
+    const adam = world.agents.find(agent => agent.id === 'adam')!;
+    const predator = world.agents.find(agent => agent.trophicLevel === 'predator')!;
+    const hunter = {
+      ...predator,
+      position: { x: adam.position.x + 1, y: 0, z: adam.position.z },
+      needs: { ...predator.needs, hunger: 80 }
+    };
+
+    // At the server's tick length, where prey flees the least per step
+    let chase = { ...world, agents: [adam, hunter] };
+    for (let i = 0; i < 100 && chase.agents.length === 2; i++) {
+      chase = SimulationEngine.step(chase, simulationConfig.server.tickDelta).world;
+    }
+    expect(chase.agents.map(agent => agent.id)).toEqual([predator.id]);
+    expect(chase.statistics.deathsByCause.predation).toBe(1);
+  });
+
+  it.each([1, 42])('has predators hunt herbivores at the default configuration (seed %i)', seed => {
+    let world = initializeWorld(seed);
+    for (let i = 0; i < 2000 && world.statistics.deathsByCause.predation === 0; i++) {
+      world = SimulationEngine.step(world, 0.5).world;
+    }
+    expect(world.statistics.deathsByCause.predation).toBeGreaterThan(0);
+    expect(world.statistics.populationByTrophicLevel.herbivore).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { Agent, TrophicCensus, TrophicLevel } from './types';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Trophic levels.
+ *
+ * Herbivores live on food resources. Predators cannot digest plants and
+ * hunt herbivores instead; the optional apex predators hunt predators. A
+ * hunter that is hungry enough chases prey in sight and attacks it within
+ * reach (the `consume` action aimed at an agent); a catch kills the prey
+ * and passes part of its energy on. Prey senses its hunters
+ * (`ProximityData.threat`) and flees from them.
+ *
+ * The populations of all levels are counted at a fixed interval, so the
+ * predator-prey cycles of the Lotka–Volterra model can be watched.
+ */
+
+export const TROPHIC_LEVELS: TrophicLevel[] = ['herbivore', 'predator', 'apex'];
+
+// Levels each level hunts
+const PREY: Record<TrophicLevel, TrophicLevel[]> = {
+  herbivore: [],
+  predator: ['herbivore'],
+  apex: ['predator']
+};
+
+/**
+ * Whether an agent hunts other agents instead of eating plants
+ */
+export function huntsAgents(agent: Agent): boolean {
+  return PREY[agent.trophicLevel].length > 0;
+}
+
+/**
+ * Whether the hunter preys on the other agent
+ */
+export function isPreyOf(hunter: Agent, prey: Agent): boolean {
+  return PREY[hunter.trophicLevel].includes(prey.trophicLevel);
+}
+
+/**
+ * Whether the agent has eaten enough to breed: hunters only breed while
+ * well fed, so their numbers follow the prey they catch
+ */
+export function fedEnoughToBreed(agent: Agent): boolean {
+  return !huntsAgents(agent) || agent.energy >= simulationConfig.agents.predation.breedingEnergy;
+}
+
+/**
+ * Living agents per trophic level
+ */
+export function trophicCounts(agents: Agent[]): Record<TrophicLevel, number> {
+  const counts: Record<TrophicLevel, number> = { herbivore: 0, predator: 0, apex: 0 };
+  agents.forEach(agent => {
+    counts[agent.trophicLevel]++;
+  });
+  return counts;
+}
+
+/**
+ * Append a census of the trophic levels when a census interval has passed.
+ * Returns the input array unchanged otherwise.
+ */
+export function recordTrophicCensus(
+  history: TrophicCensus[],
+  agents: Agent[],
+  previousTime: number,
+  time: number
+): TrophicCensus[] {
+  const { censusInterval, maxCensusPoints } = simulationConfig.agents.predation;
+  const due = history.length === 0 ||
+    Math.floor(time / censusInterval) > Math.floor(previousTime / censusInterval);
+  if (!due) return history;
+
+  return [...history, { time, ...trophicCounts(agents) }].slice(-maxCensusPoints);
+}
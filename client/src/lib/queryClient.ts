@@ -1,5 +1,6 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { WorldState, TimelineEvent } from './types';
+import { WorldSnapshot } from './worldSnapshot';
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -59,6 +60,42 @@ export const simulationApi = {
     return parseJsonResponse(res);
   },
   
+  // List all simulations
+  async listSimulations() {
+    const res = await apiRequest("GET", '/api/simulations');
+    return parseJsonResponse(res);
+  },
+  
+  // Get a specific simulation
+  async getSimulation(simulationId: number) {
+    const res = await apiRequest("GET", `/api/simulation/${simulationId}`);
+    return parseJsonResponse(res);
+  },
+  
+  // Clone a simulation into a new world
+  async cloneSimulation(simulationId: number, name?: string) {
+    const res = await apiRequest("POST", `/api/simulation/${simulationId}/clone`, { name });
+    return parseJsonResponse(res);
+  },
+  
+  // Archive or unarchive a simulation
+  async archiveSimulation(simulationId: number, archived: boolean = true) {
+    const res = await apiRequest("POST", `/api/simulation/${simulationId}/archive`, { archived });
+    return parseJsonResponse(res);
+  },
+  
+  // Delete a simulation
+  async deleteSimulation(simulationId: number) {
+    const res = await apiRequest("DELETE", `/api/simulation/${simulationId}`);
+    return parseJsonResponse(res);
+  },
+  
+  // Mark a simulation as the most recently viewed one
+  async markSimulationViewed(simulationId: number) {
+    const res = await apiRequest("POST", `/api/simulation/${simulationId}/view`);
+    return parseJsonResponse(res);
+  },
+  
   // Create a new simulation
   async createSimulation(name: string, initialState: WorldState) {
     const res = await apiRequest("POST", '/api/simulation', { name, initialState });
@@ -66,20 +103,62 @@ export const simulationApi = {
   },
   
   // Save simulation state
-  async saveSimulationState(simulationId: number, state: WorldState) {
-    const res = await apiRequest("PUT", `/api/simulation/${simulationId}`, state);
+  async saveSimulationState(simulationId: number, snapshot: WorldSnapshot) {
+    const res = await apiRequest("PUT", `/api/simulation/${simulationId}`, snapshot);
+    return parseJsonResponse(res);
+  },
+  
+  // Download a simulation as a portable world file
+  async exportSimulation(simulationId: number) {
+    const res = await apiRequest("GET", `/api/simulation/${simulationId}/export`);
+    return parseJsonResponse(res);
+  },
+  
+  // Import a world file into a new simulation
+  async importSimulation(file: unknown) {
+    const res = await apiRequest("POST", '/api/simulation/import', file);
+    return parseJsonResponse(res);
+  },
+  
+  // List checkpoints of a simulation
+  async getSnapshots(simulationId: number) {
+    const res = await apiRequest("GET", `/api/simulation/${simulationId}/snapshots`);
+    return parseJsonResponse(res);
+  },
+  
+  // Save a named checkpoint (omit the snapshot to checkpoint the server-side world)
+  async createSnapshot(simulationId: number, name: string, snapshot?: WorldSnapshot) {
+    const res = await apiRequest("POST", `/api/simulation/${simulationId}/snapshots`, { name, snapshot });
+    return parseJsonResponse(res);
+  },
+  
+  // Get a checkpoint including its world snapshot
+  async getSnapshot(simulationId: number, snapshotId: number) {
+    const res = await apiRequest("GET", `/api/simulation/${simulationId}/snapshots/${snapshotId}`);
+    return parseJsonResponse(res);
+  },
+  
+  // Restore a checkpoint on the server
+  async restoreSnapshot(simulationId: number, snapshotId: number) {
+    const res = await apiRequest("POST", `/api/simulation/${simulationId}/snapshots/${snapshotId}/restore`);
     return parseJsonResponse(res);
   },
   
   // Get agent memories
-  async getAgentMemories(agentId: string) {
-    const res = await apiRequest("GET", `/api/agent/${agentId}/memories`);
+  async getAgentMemories(simulationId: number, agentId: string) {
+    const res = await apiRequest("GET", `/api/agent/${agentId}/memories?simulationId=${simulationId}`);
     return parseJsonResponse(res);
   },
   
   // Add agent memory
-  async addAgentMemory(agentId: string, memory: any) {
-    const res = await apiRequest("POST", `/api/agent/${agentId}/memory`, memory);
+  async addAgentMemory(simulationId: number, agentId: string, memory: any) {
+    const res = await apiRequest("POST", `/api/agent/${agentId}/memory?simulationId=${simulationId}`, memory);
+    return parseJsonResponse(res);
+  },
+  
+  // Get the pedigree of all agents, including dead ones
+  async getLineage(simulationId: number) {
+    const res = await apiRequest("GET", `/api/simulation/${simulationId}/lineage`);
     return parseJsonResponse(res);
   },
   
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from './random';
+
+describe('createRandom', () => {
+  it('repeats its sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    expect(Array.from({ length: 10 }, () => a.next())).toEqual(Array.from({ length: 10 }, () => b.next()));
+  });
+
+  it('resumes the sequence from a saved state', () => {
+    const rng = createRandom(42);
+    rng.next();
+    const resumed = createRandom(rng.getState());
+    expect(resumed.next()).toBe(rng.next());
+  });
+
+  it('stays within the requested ranges', () => {
+    const rng = createRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.int(3, 9);
+      expect(Number.isInteger(value) && value >= 3 && value < 9).toBe(true);
+      expect(rng.range(-1, 1)).toBeGreaterThanOrEqual(-1);
+    }
+  });
+
+  it('shuffles into a permutation without changing the input', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+    const shuffled = createRandom(1).shuffle(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect([...shuffled].sort()).toEqual(items);
+  });
+});
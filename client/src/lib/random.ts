@@ -0,0 +1,78 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * All simulation randomness goes through a Random instance so that a world
+ * started from the same seed always evolves the same way. The generator state
+ * is a single 32-bit integer which is stored on the WorldState between steps.
+ */
+export interface Random {
+  /** Uniform float in [0, 1) */
+  next(): number;
+  /** Uniform float in [min, max) */
+  range(min: number, max: number): number;
+  /** Uniform integer in [min, max) */
+  int(min: number, max: number): number;
+  /** Standard normal sample */
+  gaussian(): number;
+  /** Pick a random element of a non-empty array */
+  pick<T>(items: T[]): T;
+  /** Shuffled copy of an array (Fisher-Yates) */
+  shuffle<T>(items: T[]): T[];
+  /** Deterministic UUID-shaped identifier */
+  id(): string;
+  /** Current generator state, used to resume the sequence later */
+  getState(): number;
+}
+
+/**
+ * Create a generator from a seed or a previously saved state
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const hex = (length: number): string => {
+    let out = '';
+    for (let i = 0; i < length; i++) {
+      out += Math.floor(next() * 16).toString(16);
+    }
+    return out;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min)),
+    // Box-Muller transform
+    gaussian: () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next()),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    shuffle: (items) => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+    id: () => {
+      const variant = (8 + Math.floor(next() * 4)).toString(16);
+      return `${hex(8)}-${hex(4)}-4${hex(3)}-${variant}${hex(3)}-${hex(12)}`;
+    },
+    getState: () => state
+  };
+}
+
+/**
+ * Draw a fresh seed for a new world.
+ * This is the only place where the simulation uses Math.random().
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,300 @@
+import { Agent, Relationship, Resource } from './types';
+import { groundDistance } from './memory';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Relationships between agents.
+ *
+ * Every agent keeps a map of the agents it knows (`Agent.relationships`):
+ * how familiar they are, how much it trusts them (-1 rival to 1 friend) and
+ * how closely they are related. Familiarity grows while agents spend time
+ * within reach of each other and fades apart; trust is gained by being
+ * understood, by mating and by peacefully sharing a plentiful resource, and
+ * lost by refusals and by competing for a scarce one. The utility AI
+ * approaches friends and avoids rivals.
+ *
+ * The bonds of all agents form the population's social network. Its
+ * clustering coefficient and the modularity of its communities (found by
+ * label propagation) replace the old population-size proxy for social
+ * complexity.
+ */
+
+export interface RelationshipChange {
+  familiarity?: number;
+  trust?: number;
+}
+
+// A bond of the social network, undirected
+export interface SocialEdge {
+  source: string;
+  target: string;
+  weight: number; // Familiarity of the closer of the two
+  trust: number;  // Mean trust of both directions
+}
+
+export interface SocialNetworkStatistics {
+  clusteringCoefficient: number;
+  modularity: number;
+}
+
+/**
+ * What an agent knows about another agent, if anything
+ */
+export function relationshipWith(agent: Agent, otherId: string): Relationship | undefined {
+  return agent.relationships.find(relationship => relationship.agentId === otherId);
+}
+
+/**
+ * How much an agent likes another (-1 rival to 1 close friend or kin)
+ */
+export function affinity(agent: Agent, otherId: string): number {
+  const relationship = relationshipWith(agent, otherId);
+  if (!relationship) return 0;
+  return Math.max(-1, Math.min(1, relationship.familiarity * relationship.trust + relationship.kinship));
+}
+
+/**
+ * Coefficient of relatedness known from the parents: 0.5 between parent and
+ * child and between full siblings, 0.25 between half siblings
+ */
+export function kinship(agent1: Agent, agent2: Agent): number {
+  if (agent1.parentIds.includes(agent2.id) || agent2.parentIds.includes(agent1.id)) return 0.5;
+  const shared = agent1.parentIds.filter(parentId => agent2.parentIds.includes(parentId)).length;
+  return shared * 0.25;
+}
+
+/**
+ * Change an agent's relationship with another agent, getting to know it if needed.
+ * The relationship list is replaced, so it may be shared with an earlier state.
+ */
+export function strengthenRelationship(
+  agent: Agent,
+  other: Agent,
+  change: RelationshipChange,
+  currentTime: number
+): void {
+  const current = relationshipWith(agent, other.id) ?? {
+    agentId: other.id,
+    familiarity: 0,
+    trust: 0,
+    kinship: kinship(agent, other),
+    lastInteraction: currentTime
+  };
+  const updated: Relationship = {
+    ...current,
+    familiarity: clamp(current.familiarity + (change.familiarity ?? 0), 0, 1),
+    trust: clamp(current.trust + (change.trust ?? 0), -1, 1),
+    lastInteraction: currentTime
+  };
+  agent.relationships = [
+    ...agent.relationships.filter(relationship => relationship.agentId !== other.id),
+    updated
+  ];
+}
+
+/**
+ * Let relationships fade, forget the dead and the long unseen, and record
+ * this step's encounters: agents within reach grow familiar, and agents
+ * consuming the same resource share it (trust) or compete for it (distrust)
+ * depending on how much is left. Returns the agents with updated copies.
+ */
+export function updateRelationships(
+  agents: Agent[],
+  resources: Resource[],
+  deltaTime: number,
+  currentTime: number
+): Agent[] {
+  const { interactionRange } = simulationConfig.agents;
+  const {
+    encounterFamiliarity, sharingTrust, competitionDistrust, scarceAmount,
+    familiarityDecay, trustDecay, forgetThreshold, maxRelationships
+  } = simulationConfig.agents.relationships;
+
+  const living = new Set(agents.map(agent => agent.id));
+  const amounts = new Map(resources.map(resource => [resource.id, resource.amount]));
+  const encounters = new Map<string, { other: Agent; change: RelationshipChange }[]>();
+  const meet = (agent: Agent, other: Agent, change: RelationshipChange) => {
+    const list = encounters.get(agent.id) ?? [];
+    list.push({ other, change });
+    encounters.set(agent.id, list);
+  };
+
+  for (let i = 0; i < agents.length; i++) {
+    for (let j = i + 1; j < agents.length; j++) {
+      const a = agents[i];
+      const b = agents[j];
+      if (groundDistance(a.position, b.position) > interactionRange) continue;
+
+      const change: RelationshipChange = { familiarity: encounterFamiliarity * deltaTime };
+      const sameMeal = a.lastAction === 'consume' && b.lastAction === 'consume' &&
+        a.targetId !== undefined && a.targetId === b.targetId && amounts.has(a.targetId);
+      if (sameMeal) {
+        change.trust = (amounts.get(a.targetId!)! < scarceAmount ? -competitionDistrust : sharingTrust) * deltaTime;
+      }
+      meet(a, b, change);
+      meet(b, a, change);
+    }
+  }
+
+  const familiarityRetention = Math.exp(-familiarityDecay * deltaTime);
+  const trustRetention = Math.exp(-trustDecay * deltaTime);
+
+  return agents.map(agent => {
+    const met = encounters.get(agent.id);
+    if (agent.relationships.length === 0 && !met) return agent;
+
+    const copy: Agent = {
+      ...agent,
+      relationships: agent.relationships
+        .filter(relationship => living.has(relationship.agentId))
+        .map(relationship => ({
+          ...relationship,
+          familiarity: relationship.familiarity * familiarityRetention,
+          trust: relationship.trust * trustRetention
+        }))
+    };
+    met?.forEach(({ other, change }) => strengthenRelationship(copy, other, change, currentTime));
+
+    // Kin are never forgotten; the closest relationships are kept when there are too many
+    copy.relationships = copy.relationships
+      .filter(relationship => relationship.kinship > 0 || relationship.familiarity >= forgetThreshold)
+      .sort((r1, r2) => (r2.familiarity + r2.kinship) - (r1.familiarity + r1.kinship))
+      .slice(0, maxRelationships);
+    return copy;
+  });
+}
+
+/**
+ * Bonds between living agents: pairs where at least one is familiar enough
+ * with the other
+ */
+export function socialEdges(agents: Agent[]): SocialEdge[] {
+  const { bondThreshold } = simulationConfig.agents.relationships;
+  const byId = new Map(agents.map(agent => [agent.id, agent]));
+  const edges = new Map<string, SocialEdge>();
+
+  agents.forEach(agent => {
+    agent.relationships.forEach(relationship => {
+      const other = byId.get(relationship.agentId);
+      if (!other || relationship.familiarity < bondThreshold) return;
+
+      const [source, target] = agent.id < other.id ? [agent.id, other.id] : [other.id, agent.id];
+      const key = `${source}|${target}`;
+      if (edges.has(key)) return;
+
+      const back = relationshipWith(other, agent.id);
+      edges.set(key, {
+        source,
+        target,
+        weight: Math.max(relationship.familiarity, back?.familiarity ?? 0),
+        trust: (relationship.trust + (back?.trust ?? 0)) / 2
+      });
+    });
+  });
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Communities of the social network by weighted label propagation.
+ * Deterministic: agents update in id order and ties go to the smaller label.
+ */
+export function socialCommunities(agents: Agent[], edges: SocialEdge[] = socialEdges(agents)): Map<string, string> {
+  const neighbours = adjacency(edges);
+  const labels = new Map(agents.map(agent => [agent.id, agent.id]));
+  const order = agents.map(agent => agent.id).sort();
+
+  for (let round = 0; round < 20; round++) {
+    let moved = false;
+    for (const id of order) {
+      const weights = new Map<string, number>();
+      neighbours.get(id)?.forEach((weight, neighbour) => {
+        const label = labels.get(neighbour)!;
+        weights.set(label, (weights.get(label) ?? 0) + weight);
+      });
+      if (weights.size === 0) continue;
+
+      let best = labels.get(id)!;
+      let bestWeight = weights.get(best) ?? 0;
+      weights.forEach((weight, label) => {
+        if (weight > bestWeight || (weight === bestWeight && label < best)) {
+          best = label;
+          bestWeight = weight;
+        }
+      });
+      if (best !== labels.get(id)) {
+        labels.set(id, best);
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return labels;
+}
+
+/**
+ * Clustering coefficient (mean local clustering of all agents) and
+ * modularity of the communities of the social network
+ */
+export function socialNetworkStatistics(agents: Agent[]): SocialNetworkStatistics {
+  const edges = socialEdges(agents);
+  if (edges.length === 0) {
+    return { clusteringCoefficient: 0, modularity: 0 };
+  }
+  const neighbours = adjacency(edges);
+
+  // Share of an agent's pairs of neighbours that are bonded themselves
+  let clustering = 0;
+  neighbours.forEach(around => {
+    const ids = Array.from(around.keys());
+    if (ids.length < 2) return;
+    let closed = 0;
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        if (neighbours.get(ids[i])?.has(ids[j])) closed++;
+      }
+    }
+    clustering += closed / (ids.length * (ids.length - 1) / 2);
+  });
+
+  // Q = Σ over communities of (internal weight / m - (degree sum / 2m)²)
+  const communities = socialCommunities(agents, edges);
+  const totalWeight = edges.reduce((sum, edge) => sum + edge.weight, 0);
+  const internal = new Map<string, number>();
+  const degrees = new Map<string, number>();
+  edges.forEach(edge => {
+    const source = communities.get(edge.source)!;
+    const target = communities.get(edge.target)!;
+    if (source === target) internal.set(source, (internal.get(source) ?? 0) + edge.weight);
+    degrees.set(source, (degrees.get(source) ?? 0) + edge.weight);
+    degrees.set(target, (degrees.get(target) ?? 0) + edge.weight);
+  });
+  let modularity = 0;
+  degrees.forEach((degree, community) => {
+    modularity += (internal.get(community) ?? 0) / totalWeight - (degree / (2 * totalWeight)) ** 2;
+  });
+
+  return {
+    clusteringCoefficient: clustering / agents.length,
+    modularity
+  };
+}
+
+// Weighted neighbours of every bonded agent
+function adjacency(edges: SocialEdge[]): Map<string, Map<string, number>> {
+  const neighbours = new Map<string, Map<string, number>>();
+  const link = (from: string, to: string, weight: number) => {
+    const around = neighbours.get(from) ?? new Map<string, number>();
+    around.set(to, weight);
+    neighbours.set(from, around);
+  };
+  edges.forEach(edge => {
+    link(edge.source, edge.target, edge.weight);
+    link(edge.target, edge.source, edge.weight);
+  });
+  return neighbours;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationEngine } from './simulationEngine';
+import { initializeWorld } from './worldResources';
+import { isReadyToReproduce } from './utilityAI';
+import { reproductionThreshold } from './consciousness';
+import { AgentController, ConsciousnessModelId, WorldState } from './types';
+
+// Simulated days per step: half a day keeps the tests short
+const DAY_STEP = 0.5;
+
+const CONSCIOUSNESS_MODEL_IDS: ConsciousnessModelId[] = ['product', 'weightedSum', 'globalWorkspace', 'partition'];
+const CONTROLLERS: AgentController[] = ['utility', 'neural'];
+
+function run(world: WorldState, steps: number): WorldState {
+  for (let i = 0; i < steps; i++) {
+    world = SimulationEngine.step(world, DAY_STEP).world;
+  }
+  return world;
+}
+
+describe('SimulationEngine.step', () => {
+  it('evolves a world the same way from the same seed', () => {
+    expect(run(initializeWorld(42), 200)).toEqual(run(initializeWorld(42), 200));
+    expect(run(initializeWorld(42), 200)).not.toEqual(run(initializeWorld(43), 200));
+  });
+
+  it('leaves the input world untouched', () => {
+    const world = run(initializeWorld(7), 100);
+    const before = JSON.stringify(world);
+    SimulationEngine.step(world, DAY_STEP);
+    expect(JSON.stringify(world)).toBe(before);
+  });
+
+  it.each(CONSCIOUSNESS_MODEL_IDS)('lets the founders reproduce under the %s model', consciousnessModel => {
+    let world = initializeWorld(42, { consciousnessModel });
+    for (let i = 0; i < 1200 && world.statistics.totalGenerations < 2; i++) {
+      world = SimulationEngine.step(world, DAY_STEP).world;
+    }
+    expect(world.statistics.totalGenerations).toBeGreaterThanOrEqual(2);
+  });
+
+  it.each(CONSCIOUSNESS_MODEL_IDS.flatMap(model => CONTROLLERS.map(controller => [model, controller] as const)))(
+    'brings founders to the reproduction threshold of the %s model with the %s controller',
+    (consciousnessModel, controller) => {
+      let world = initializeWorld(42, { consciousnessModel, controller });
+      const ready = new Set<string>();
+      for (let i = 0; i < 400 && ready.size < 2; i++) {
+        world = SimulationEngine.step(world, DAY_STEP).world;
+        world.agents
+          .filter(agent => agent.trophicLevel === 'herbivore' && isReadyToReproduce(agent))
+          .forEach(agent => ready.add(agent.id));
+      }
+      expect(ready.size).toBeGreaterThanOrEqual(2);
+    }
+  );
+
+  it.each([11, 12])('lets brain-driven founders reproduce (seed %i)', seed => {
+    let world = initializeWorld(seed, { controller: 'neural' });
+    for (let i = 0; i < 1200 && world.statistics.totalGenerations < 2; i++) {
+      world = SimulationEngine.step(world, DAY_STEP).world;
+    }
+    expect(world.statistics.totalGenerations).toBeGreaterThanOrEqual(2);
+  });
+});
+
+describe('SimulationEngine.applySettings', () => {
+  it('moves reproduction thresholds to the scale of a new consciousness model', () => {
+    const world = initializeWorld(42, { consciousnessModel: 'product' });
+    const updated = SimulationEngine.applySettings(world, { consciousnessModel: 'weightedSum' });
+    updated.agents.forEach(agent => {
+      expect(agent.reproductionThreshold).toBe(reproductionThreshold('weightedSum'));
+    });
+    expect(world.agents[0].reproductionThreshold).toBe(reproductionThreshold('product'));
+  });
+});
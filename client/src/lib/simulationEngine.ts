@@ -0,0 +1,461 @@
+import {
+  Agent,
+  AgentGroup,
+  Cell,
+  DeathCause,
+  WorldState,
+  WorldEvent,
+  SimulationStatistics,
+  TimelineEvent,
+  WorldSettings,
+  ConsciousnessModelId
+} from './types';
+import { updateAgents, huntPrey, reproduceAgents } from './agentBehavior';
+import { updateResourceLevels } from './worldResources';
+import { updateSpecies } from './speciation';
+import { matingSuccessVariance } from './mateChoice';
+import { assignMatingTypes, matingTypeCounts, sexRatio } from './matingTypes';
+import { reproducesAsexually } from './budding';
+import { CONSCIOUSNESS_MODELS, convertReproductionThresholds } from './consciousness';
+import { recordPopulationSample } from './consciousnessHistory';
+import { languageStatistics, playNamingGames } from './language';
+import { socialNetworkStatistics, updateRelationships } from './relationships';
+import { groupStatistics, updateGroups } from './flocking';
+import { recordTrophicCensus, trophicCounts } from './predation';
+import { cooperationRate, countCooperation, emptyCooperationTally, harvestTogether, shareFood } from './cooperation';
+import { createRandom, Random } from './random';
+import { simulationConfig } from '../config/simulationConfig';
+
+export interface SimulationStepResult {
+  world: WorldState;
+  events: WorldEvent[];
+  timelineEvents: TimelineEvent[];
+}
+
+/**
+ * Framework-free simulation engine.
+ *
+ * The engine never touches React, zustand or the network: it takes a world
+ * state and returns the next one, so the client store, the server and
+ * batch experiments can all drive the same simulation.
+ */
+export const SimulationEngine = {
+  /**
+   * Advance the world by `deltaTime` simulated days.
+   * The input world is left untouched; randomness is drawn from the
+   * world's PRNG state so identical inputs give identical outputs.
+   */
+  step(world: WorldState, deltaTime: number): SimulationStepResult {
+    const rng = createRandom(world.rngState);
+    
+    // Time tracking (1 real second = 1 simulated day at timeScale 1)
+    const newTime = world.time + deltaTime;
+    const newTimeElapsed = world.timeElapsed + deltaTime;
+
+    // Calculate day/night cycle (0-1 range, 0.5 is noon)
+    const dayNightCycle = newTime % simulationConfig.time.dayLength;
+
+    // Update resources
+    const updatedResources = updateResourceLevels(world.resources, deltaTime, world.environmentalParameters);
+
+    // Update agent states based on consciousness and behaviors
+    const { updatedAgents, events } = updateAgents(
+      world.agents,
+      updatedResources,
+      world.environmentalParameters,
+      world.cellGrid,
+      deltaTime,
+      newTime,
+      world.settings,
+      rng
+    );
+
+    // Hunters that attacked prey within reach may catch it
+    const { survivors, events: predationEvents } = huntPrey(updatedAgents, newTime, rng);
+    events.push(...predationEvents);
+
+    // Agents at a large resource harvest it together, altruists feed the hungry
+    const { agents: harvestedAgents, harvests } = harvestTogether(survivors, updatedResources, newTime);
+    const { agents: fedAgents, gifts } = shareFood(harvestedAgents, newTime, rng);
+
+    // Agents that talked to each other align their signals
+    const talkedAgents = playNamingGames(fedAgents, newTime, rng);
+
+    // Handle reproduction if any agents meet the threshold
+    const { reproducedAgents, offspringAgents } = reproduceAgents(
+      talkedAgents,
+      world.time,
+      world.settings,
+      rng
+    );
+
+    // Agents that spent time together get to know each other
+    const acquaintedAgents = updateRelationships(
+      [...reproducedAgents, ...offspringAgents],
+      updatedResources,
+      deltaTime,
+      newTime
+    );
+
+    // Sort all agents (existing + newly reproduced) into species
+    const speciation = updateSpecies(
+      acquaintedAgents,
+      world.species,
+      world.time,
+      newTime,
+      rng
+    );
+    const allAgents = speciation.agents;
+
+    // Agents moving together form groups
+    const groups = updateGroups(allAgents, world.groups, newTime, rng);
+
+    // Calculate new statistics, carrying the death and cooperation tallies forward
+    const statistics = {
+      ...calculateStatistics(allAgents, world.settings, groups, newTime),
+      cooperationRate: cooperationRate(allAgents, gifts, harvests),
+      cooperation: countCooperation(world.statistics.cooperation, gifts, harvests),
+      deathsByCause: countDeaths(world.statistics.deathsByCause, events)
+    };
+
+    // Create any significant events for the timeline
+    const timelineEvents = [
+      ...speciation.timelineEvents,
+      ...checkForSignificantEvents(statistics, world.statistics, newTime, rng)
+    ];
+
+    // Update cell grid with new agent positions
+    const updatedCellGrid = updateCellGrid(world.cellGrid, allAgents);
+
+    return {
+      world: {
+        ...world,
+        time: newTime,
+        timeElapsed: newTimeElapsed,
+        dayNightCycle,
+        agents: allAgents,
+        resources: updatedResources,
+        events: appendWorldEvents(world.events, events),
+        statistics,
+        cellGrid: updatedCellGrid,
+        species: speciation.species,
+        consciousnessHistory: recordPopulationSample(world.consciousnessHistory, allAgents, world.time, newTime),
+        groups,
+        trophicHistory: recordTrophicCensus(world.trophicHistory, allAgents, world.time, newTime),
+        rngState: rng.getState()
+      },
+      events,
+      timelineEvents
+    };
+  },
+
+  /**
+   * Apply a catastrophe to the world, reducing resources by its intensity
+   */
+  applyCatastrophe(
+    world: WorldState,
+    type: string,
+    intensity: number
+  ): { world: WorldState; timelineEvent: TimelineEvent } {
+    const rng = createRandom(world.rngState);
+    
+    const timelineEvent: TimelineEvent = {
+      id: `event-${rng.id()}`,
+      timestamp: world.time,
+      title: `${type} Catastrophe`,
+      description: `A ${type} catastrophe of intensity ${intensity} has occurred.`,
+      type: 'extinction',
+      significance: intensity
+    };
+    
+    return {
+      world: {
+        ...world,
+        events: appendWorldEvents(world.events, [{
+          id: rng.id(),
+          type,
+          timestamp: world.time,
+          duration: 1000 * intensity,
+          affectedAgents: world.agents.map(a => a.id),
+          description: `${type} catastrophe of intensity ${intensity}`
+        }]),
+        resources: world.resources.map(r => ({
+          ...r,
+          amount: Math.max(0, r.amount * (1 - intensity * 0.3))
+        })),
+        rngState: rng.getState()
+      },
+      timelineEvent
+    };
+  },
+
+  /**
+   * Change world settings. When the number of mating types changes, the
+   * living agents are dealt new types so that every type is present; when
+   * the consciousness model changes, their reproduction thresholds move to
+   * the new model's scale.
+   */
+  applySettings(world: WorldState, settings: Partial<WorldSettings>): WorldState {
+    const updated = { ...world.settings, ...settings };
+    const rng = createRandom(world.rngState);
+    const typed = updated.matingTypes === world.settings.matingTypes
+      ? world.agents
+      : assignMatingTypes(world.agents, updated.matingTypes, rng);
+    const agents = updated.consciousnessModel === world.settings.consciousnessModel
+      ? typed
+      : convertReproductionThresholds(typed, world.settings.consciousnessModel, updated.consciousnessModel);
+    
+    // Refresh the statistics that depend on the settings
+    const statistics = calculateStatistics(agents, updated);
+    return {
+      ...world,
+      agents,
+      settings: updated,
+      statistics: {
+        ...world.statistics,
+        matingTypeCounts: statistics.matingTypeCounts,
+        sexRatio: statistics.sexRatio,
+        asexualShare: statistics.asexualShare
+      },
+      rngState: rng.getState()
+    };
+  },
+
+  /**
+   * Convert elapsed simulation time into years
+   */
+  elapsedYears(world: WorldState): number {
+    return world.timeElapsed / simulationConfig.time.yearLength;
+  }
+};
+
+/**
+ * Death counts per cause, all zero
+ */
+export function emptyDeathTally(): Record<DeathCause, number> {
+  return { starvation: 0, dehydration: 0, exhaustion: 0, oldAge: 0, predation: 0 };
+}
+
+/**
+ * Add the deaths among `events` to a running tally
+ */
+export function countDeaths(
+  tally: Record<DeathCause, number> = emptyDeathTally(),
+  events: WorldEvent[]
+): Record<DeathCause, number> {
+  const updated = { ...tally };
+  events.forEach(event => {
+    if (event.type === 'death' && event.cause) {
+      updated[event.cause]++;
+    }
+  });
+  return updated;
+}
+
+/**
+ * Calculate overall simulation statistics.
+ * Deaths and acts of cooperation are not visible from the living agents,
+ * so `deathsByCause`, `cooperationRate` and `cooperation` are left empty
+ * here and tallied by the engine step.
+ */
+export function calculateStatistics(
+  agents: Agent[],
+  settings: WorldSettings,
+  groups: AgentGroup[] = [],
+  time = 0
+): SimulationStatistics {
+  const typeCounts = matingTypeCounts(agents, settings.matingTypes);
+  if (agents.length === 0) {
+    return {
+      populationSize: 0,
+      averageConsciousness: 0,
+      maxConsciousness: 0,
+      averageLifespan: 0,
+      totalGenerations: 0,
+      languageComplexity: 0,
+      vocabularySize: 0,
+      languageAgreement: 0,
+      socialComplexity: 0,
+      clusteringCoefficient: 0,
+      modularity: 0,
+      ...groupStatistics(groups, time),
+      resourceConsumption: 0,
+      speciesCount: 0,
+      populationByTrophicLevel: trophicCounts(agents),
+      matingSuccessVariance: 0,
+      matingTypeCounts: typeCounts,
+      sexRatio: sexRatio(typeCounts),
+      asexualShare: 0,
+      averageAltruism: 0,
+      cooperationRate: 0,
+      cooperation: emptyCooperationTally(),
+      consciousnessByModel: {},
+      averageNeeds: { hunger: 0, thirst: 0, fatigue: 0 },
+      deathsByCause: emptyDeathTally()
+    };
+  }
+
+  // Calculate statistics
+  const totalConsciousness = agents.reduce((sum, agent) => sum + agent.consciousnessValue, 0);
+  const maxConsciousness = Math.max(...agents.map(agent => agent.consciousnessValue));
+  const maxGeneration = Math.max(...agents.map(agent => agent.generation));
+  const avgLifespan = agents.reduce((sum, agent) => sum + agent.lifespan, 0) / agents.length;
+
+  // Shared vocabulary of the population's signaling system
+  const language = languageStatistics(agents);
+
+  // Structure of the social network: cliques and separate communities
+  const network = socialNetworkStatistics(agents);
+
+  // Resource consumption is proportional to population size and average movement
+  const resourceConsumption = agents.length * 0.5;
+
+  // Species with at least one living member
+  const speciesIds = new Set(agents.map(agent => agent.speciesId));
+
+  return {
+    populationSize: agents.length,
+    averageConsciousness: totalConsciousness / agents.length,
+    maxConsciousness,
+    averageLifespan: avgLifespan,
+    totalGenerations: maxGeneration,
+    languageComplexity: language.complexity,
+    vocabularySize: language.vocabularySize,
+    languageAgreement: language.agreement,
+    socialComplexity: (network.clusteringCoefficient + Math.max(0, network.modularity)) / 2,
+    clusteringCoefficient: network.clusteringCoefficient,
+    modularity: network.modularity,
+    ...groupStatistics(groups, time),
+    resourceConsumption,
+    speciesCount: speciesIds.size,
+    populationByTrophicLevel: trophicCounts(agents),
+    matingSuccessVariance: matingSuccessVariance(agents),
+    matingTypeCounts: typeCounts,
+    sexRatio: sexRatio(typeCounts),
+    asexualShare: agents.filter(agent => reproducesAsexually(agent, settings)).length / agents.length,
+    averageAltruism: agents.reduce((sum, agent) => sum + agent.altruism, 0) / agents.length,
+    cooperationRate: 0,
+    cooperation: emptyCooperationTally(),
+    consciousnessByModel: averageConsciousnessByModel(agents, settings),
+    averageNeeds: {
+      hunger: agents.reduce((sum, agent) => sum + agent.needs.hunger, 0) / agents.length,
+      thirst: agents.reduce((sum, agent) => sum + agent.needs.thirst, 0) / agents.length,
+      fatigue: agents.reduce((sum, agent) => sum + agent.needs.fatigue, 0) / agents.length
+    },
+    deathsByCause: emptyDeathTally()
+  };
+}
+
+/**
+ * Average consciousness under the world's model, and under every model when the world compares them
+ */
+function averageConsciousnessByModel(
+  agents: Agent[],
+  settings: WorldSettings
+): Partial<Record<ConsciousnessModelId, number>> {
+  const averages: Partial<Record<ConsciousnessModelId, number>> = {
+    [settings.consciousnessModel]: agents.reduce((sum, agent) => sum + agent.consciousnessValue, 0) / agents.length
+  };
+  if (settings.compareConsciousnessModels) {
+    for (const model of Object.keys(CONSCIOUSNESS_MODELS) as ConsciousnessModelId[]) {
+      averages[model] = agents.reduce((sum, agent) => sum + (agent.consciousnessScores?.[model] ?? 0), 0) / agents.length;
+    }
+  }
+  return averages;
+}
+
+/**
+ * Generate significant events for the timeline
+ */
+export function checkForSignificantEvents(
+  newStats: SimulationStatistics,
+  oldStats: SimulationStatistics,
+  time: number,
+  rng: Random
+): TimelineEvent[] {
+  const timelineEvents: TimelineEvent[] = [];
+
+  // Population milestone (every 10 agents)
+  if (Math.floor(newStats.populationSize / 10) > Math.floor(oldStats.populationSize / 10)) {
+    timelineEvents.push({
+      id: `event-${rng.id()}`,
+      timestamp: time,
+      title: 'Population Milestone',
+      description: `The population has reached ${Math.floor(newStats.populationSize / 10) * 10} individuals.`,
+      type: 'population',
+      significance: 0.5
+    });
+  }
+
+  // Language milestones (based on complexity)
+  if (newStats.languageComplexity > oldStats.languageComplexity + 0.2) {
+    timelineEvents.push({
+      id: `event-${rng.id()}`,
+      timestamp: time,
+      title: 'Communication Evolution',
+      description: `The agents have developed more complex communication patterns.`,
+      type: 'language',
+      significance: 0.8
+    });
+  }
+
+  // Social structure milestone
+  if (newStats.socialComplexity > oldStats.socialComplexity + 0.2) {
+    timelineEvents.push({
+      id: `event-${rng.id()}`,
+      timestamp: time,
+      title: 'Social Structure Formed',
+      description: `Agents have begun forming more complex social structures.`,
+      type: 'social',
+      significance: 0.7
+    });
+  }
+
+  // Generation milestone
+  if (newStats.totalGenerations > oldStats.totalGenerations) {
+    timelineEvents.push({
+      id: `event-${rng.id()}`,
+      timestamp: time,
+      title: 'New Generation',
+      description: `Generation ${newStats.totalGenerations} has emerged.`,
+      type: 'population',
+      significance: 0.4
+    });
+  }
+
+  return timelineEvents;
+}
+
+/**
+ * Append events to a world's event log, keeping only the most recent ones
+ */
+export function appendWorldEvents(events: WorldEvent[], added: WorldEvent[]): WorldEvent[] {
+  if (added.length === 0) return events;
+  return [...events, ...added].slice(-simulationConfig.world.maxEvents);
+}
+
+/**
+ * Update cell grid with new agent positions
+ */
+export function updateCellGrid(cellGrid: Cell[][], agents: Agent[]): Cell[][] {
+  // Copy the grid with occupancy reset
+  const updatedGrid = cellGrid.map(row => row.map(cell => ({
+    ...cell,
+    occupied: false,
+    occupants: [] as string[]
+  })));
+
+  // Update with new agent positions
+  agents.forEach(agent => {
+    const x = Math.floor((agent.position.x + 50) / 10);
+    const z = Math.floor((agent.position.z + 50) / 10);
+
+    // Ensure coordinates are within bounds
+    if (x >= 0 && x < updatedGrid.length && z >= 0 && z < updatedGrid[0].length) {
+      updatedGrid[x][z].occupied = true;
+      updatedGrid[x][z].occupants.push(agent.id);
+    }
+  });
+
+  return updatedGrid;
+}
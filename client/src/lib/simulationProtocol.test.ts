@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { applyWorldDelta, computeWorldDelta, parseClientMessage } from './simulationProtocol';
+import { SimulationEngine } from './simulationEngine';
+import { initializeWorld } from './worldResources';
+import { simulationConfig } from '../config/simulationConfig';
+
+describe('parseClientMessage', () => {
+  it('accepts the messages the viewer sends', () => {
+    const messages = [
+      { type: 'subscribe', simulationId: 3 },
+      { type: 'unsubscribe' },
+      { type: 'command', command: { action: 'setTimeScale', timeScale: 5 } },
+      { type: 'command', command: { action: 'setEnvironmentalParameter', param: 'temperature', value: 0.3 } },
+      { type: 'command', command: { action: 'triggerCatastrophe', catastropheType: 'flood', intensity: 0.5 } },
+      { type: 'command', command: { action: 'setWorldSettings', settings: { matingTypes: 2 } } },
+      { type: 'command', command: { action: 'reset' } }
+    ];
+    messages.forEach(message => expect(parseClientMessage(message)).toEqual(message));
+  });
+
+  it('rejects malformed commands', () => {
+    const commands = [
+      { action: 'setTimeScale', timeScale: '5' },
+      { action: 'setTimeScale', timeScale: 1e9 },
+      { action: 'setEnvironmentalParameter', param: '__proto__', value: 1 },
+      { action: 'setEnvironmentalParameter', param: 'weatherCondition', value: 1 },
+      { action: 'setWorldSettings', settings: { cheat: true } },
+      { action: 'explode' }
+    ];
+    commands.forEach(command =>
+      expect(() => parseClientMessage({ type: 'command', command })).toThrow(/^Invalid message: command/)
+    );
+    expect(() => parseClientMessage({ type: 'subscribe', simulationId: 'all' })).toThrow(/simulationId/);
+    expect(() => parseClientMessage(null)).toThrow(/Invalid message/);
+  });
+});
+
+describe('world events', () => {
+  it('keeps only the most recent events and still streams new ones', () => {
+    let world = initializeWorld(5);
+    for (let i = 0; i < simulationConfig.world.maxEvents + 10; i++) {
+      world = SimulationEngine.applyCatastrophe(world, 'flood', 0.1).world;
+    }
+    expect(world.events).toHaveLength(simulationConfig.world.maxEvents);
+
+    const next = SimulationEngine.applyCatastrophe(world, 'meteor', 0.1).world;
+    const delta = computeWorldDelta(world, next);
+    expect(delta.events.map(event => event.type)).toEqual(['meteor']);
+    expect(applyWorldDelta(world, delta).events).toEqual(next.events);
+  });
+});
@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import {
+  Agent,
+  Resource,
+  WorldState,
+  WorldEvent,
+  EnvironmentalParameters,
+  SimulationStatistics,
+  TimelineEvent,
+  WorldSettings,
+  Species,
+  ConsciousnessSample,
+  AgentGroup,
+  TrophicCensus
+} from './types';
+import { appendWorldEvents, updateCellGrid } from './simulationEngine';
+import { formatIssues, worldSettingsSchema } from './worldSchema';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Wire protocol between the server-side simulation runner and its viewers.
+ *
+ * Viewers receive one full snapshot when they subscribe and compact deltas
+ * for every tick afterwards. Commands flow the other way.
+ */
+export const SIMULATION_SOCKET_PATH = '/ws/simulation';
+
+// Agent fields that are never streamed in deltas (large and only needed server-side)
+const UNSTREAMED_AGENT_FIELDS: (keyof Agent)[] = [
+  'memory', 'longTermMemory', 'sensorValues', 'brainState', 'consciousnessScores'
+];
+
+// Agent fields fixed at birth, sent once with the added agent
+const BIRTH_AGENT_FIELDS: (keyof Agent)[] = [
+  'parentIds', 'genome', 'brain', 'matePreferences', 'asexuality', 'altruism', 'trophicLevel'
+];
+
+// Agent fields the engine replaces instead of mutating, compared by reference
+const REPLACED_AGENT_FIELDS: (keyof Agent)[] = ['consciousnessHistory'];
+
+export type AgentDelta = Partial<Agent> & { id: string };
+
+export interface ResourceDelta {
+  id: string;
+  amount: number;
+}
+
+export interface WorldDelta {
+  time: number;
+  timeElapsed: number;
+  dayNightCycle: number;
+  rngState: number;
+  statistics: SimulationStatistics;
+  environmentalParameters?: EnvironmentalParameters;
+  settings?: WorldSettings;
+  species?: Species[];
+  consciousnessHistory?: ConsciousnessSample[];
+  groups?: AgentGroup[];
+  trophicHistory?: TrophicCensus[];
+  agents: {
+    added: Agent[];
+    updated: AgentDelta[];
+    removed: string[];
+  };
+  resources: {
+    added: Resource[];
+    updated: ResourceDelta[];
+    removed: string[];
+  };
+  events: WorldEvent[];
+  timelineEvents: TimelineEvent[];
+}
+
+// Environmental parameters a viewer can set to a number
+export type NumericEnvironmentalParameter = Exclude<keyof EnvironmentalParameters, 'weatherCondition'>;
+
+export type SimulationCommand =
+  | { action: 'start' }
+  | { action: 'pause' }
+  | { action: 'setTimeScale'; timeScale: number }
+  | { action: 'setEnvironmentalParameter'; param: NumericEnvironmentalParameter; value: number }
+  | { action: 'setWeatherCondition'; condition: EnvironmentalParameters['weatherCondition'] }
+  | { action: 'triggerCatastrophe'; catastropheType: string; intensity: number }
+  | { action: 'setWorldSettings'; settings: Partial<WorldSettings> }
+  | { action: 'reset'; seed?: number };
+
+export type ClientMessage =
+  | { type: 'subscribe'; simulationId: number }
+  | { type: 'unsubscribe' }
+  | { type: 'command'; command: SimulationCommand };
+
+const simulationCommandSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('start') }),
+  z.object({ action: z.literal('pause') }),
+  z.object({
+    action: z.literal('setTimeScale'),
+    timeScale: z.number().min(simulationConfig.time.minTimeScale).max(simulationConfig.time.maxTimeScale)
+  }),
+  z.object({
+    action: z.literal('setEnvironmentalParameter'),
+    param: z.enum([
+      'temperature', 'lightLevel', 'resourceAbundance', 'resourceDistribution',
+      'foodGrowthRate', 'waterAvailability', 'catastropheChance'
+    ]),
+    value: z.number().min(0).max(1)
+  }),
+  z.object({ action: z.literal('setWeatherCondition'), condition: z.enum(['clear', 'rain', 'storm', 'drought']) }),
+  z.object({
+    action: z.literal('triggerCatastrophe'),
+    catastropheType: z.string().min(1).max(50),
+    intensity: z.number().min(0).max(1)
+  }),
+  z.object({ action: z.literal('setWorldSettings'), settings: worldSettingsSchema.partial().strict() }),
+  z.object({ action: z.literal('reset'), seed: z.number().int().optional() })
+]);
+
+const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('subscribe'), simulationId: z.number().int().positive() }),
+  z.object({ type: z.literal('unsubscribe') }),
+  z.object({ type: z.literal('command'), command: simulationCommandSchema })
+]);
+
+export type ServerMessage =
+  | {
+      type: 'snapshot';
+      simulationId: number;
+      world: WorldState;
+      timeline: TimelineEvent[];
+      running: boolean;
+      timeScale: number;
+    }
+  | { type: 'delta'; simulationId: number; delta: WorldDelta }
+  | { type: 'status'; simulationId: number; running: boolean; timeScale: number }
+  | { type: 'error'; message: string };
+
+/**
+ * Validate a message received from a viewer; throws an Error describing the first problems found
+ */
+export function parseClientMessage(data: unknown): ClientMessage {
+  const message = clientMessageSchema.safeParse(data);
+  if (!message.success) {
+    throw new Error(`Invalid message: ${formatIssues(message.error)}`);
+  }
+  return message.data;
+}
+
+/**
+ * Compute the changes between two consecutive world states
+ */
+export function computeWorldDelta(
+  previous: WorldState,
+  next: WorldState,
+  timelineEvents: TimelineEvent[] = []
+): WorldDelta {
+  const previousAgents = new Map(previous.agents.map(agent => [agent.id, agent]));
+  const nextAgentIds = new Set(next.agents.map(agent => agent.id));
+
+  const addedAgents: Agent[] = [];
+  const updatedAgents: AgentDelta[] = [];
+
+  for (const agent of next.agents) {
+    const before = previousAgents.get(agent.id);
+    if (!before) {
+      addedAgents.push(agent);
+      continue;
+    }
+
+    const changes = diffAgent(before, agent);
+    if (changes) {
+      updatedAgents.push(changes);
+    }
+  }
+
+  const previousResources = new Map(previous.resources.map(resource => [resource.id, resource]));
+  const nextResourceIds = new Set(next.resources.map(resource => resource.id));
+
+  const addedResources: Resource[] = [];
+  const updatedResources: ResourceDelta[] = [];
+
+  for (const resource of next.resources) {
+    const before = previousResources.get(resource.id);
+    if (!before) {
+      addedResources.push(resource);
+    } else if (before.amount !== resource.amount) {
+      updatedResources.push({ id: resource.id, amount: resource.amount });
+    }
+  }
+
+  // The event log is capped, so new events are told apart by ID rather than by position
+  const previousEventIds = new Set(previous.events.map(event => event.id));
+
+  const environmentChanged =
+    JSON.stringify(previous.environmentalParameters) !== JSON.stringify(next.environmentalParameters);
+
+  return {
+    time: next.time,
+    timeElapsed: next.timeElapsed,
+    dayNightCycle: next.dayNightCycle,
+    rngState: next.rngState,
+    statistics: next.statistics,
+    environmentalParameters: environmentChanged ? next.environmentalParameters : undefined,
+    settings: JSON.stringify(previous.settings) !== JSON.stringify(next.settings) ? next.settings : undefined,
+    // The engine keeps the species array when nothing about the species changed
+    species: previous.species !== next.species ? next.species : undefined,
+    consciousnessHistory:
+      previous.consciousnessHistory !== next.consciousnessHistory ? next.consciousnessHistory : undefined,
+    groups: previous.groups !== next.groups ? next.groups : undefined,
+    trophicHistory: previous.trophicHistory !== next.trophicHistory ? next.trophicHistory : undefined,
+    agents: {
+      added: addedAgents,
+      updated: updatedAgents,
+      removed: previous.agents.filter(agent => !nextAgentIds.has(agent.id)).map(agent => agent.id)
+    },
+    resources: {
+      added: addedResources,
+      updated: updatedResources,
+      removed: previous.resources
+        .filter(resource => !nextResourceIds.has(resource.id))
+        .map(resource => resource.id)
+    },
+    events: next.events.filter(event => !previousEventIds.has(event.id)),
+    timelineEvents
+  };
+}
+
+/**
+ * Apply a delta received from the server to the local world copy
+ */
+export function applyWorldDelta(world: WorldState, delta: WorldDelta): WorldState {
+  const removedAgents = new Set(delta.agents.removed);
+  const agentUpdates = new Map(delta.agents.updated.map(update => [update.id, update]));
+
+  const agents = world.agents
+    .filter(agent => !removedAgents.has(agent.id))
+    .map(agent => {
+      const update = agentUpdates.get(agent.id);
+      return update ? { ...agent, ...update } : agent;
+    })
+    .concat(delta.agents.added);
+
+  const removedResources = new Set(delta.resources.removed);
+  const resourceUpdates = new Map(delta.resources.updated.map(update => [update.id, update.amount]));
+
+  const resources = world.resources
+    .filter(resource => !removedResources.has(resource.id))
+    .map(resource => {
+      const amount = resourceUpdates.get(resource.id);
+      return amount !== undefined ? { ...resource, amount } : resource;
+    })
+    .concat(delta.resources.added);
+
+  return {
+    ...world,
+    time: delta.time,
+    timeElapsed: delta.timeElapsed,
+    dayNightCycle: delta.dayNightCycle,
+    rngState: delta.rngState,
+    statistics: delta.statistics,
+    environmentalParameters: delta.environmentalParameters ?? world.environmentalParameters,
+    settings: delta.settings ?? world.settings,
+    species: delta.species ?? world.species,
+    consciousnessHistory: delta.consciousnessHistory ?? world.consciousnessHistory,
+    groups: delta.groups ?? world.groups,
+    trophicHistory: delta.trophicHistory ?? world.trophicHistory,
+    agents,
+    resources,
+    events: appendWorldEvents(world.events, delta.events),
+    cellGrid: updateCellGrid(world.cellGrid, agents)
+  };
+}
+
+/**
+ * Collect the streamed fields of an agent that changed, or null if none did
+ */
+function diffAgent(before: Agent, after: Agent): AgentDelta | null {
+  const changes: Partial<Agent> = {};
+  let changed = false;
+
+  // Generic over the key so the field keeps its type
+  const copyField = <K extends keyof Agent>(key: K) => {
+    changes[key] = after[key];
+  };
+
+  for (const key of Object.keys(after) as (keyof Agent)[]) {
+    if (key === 'id' || UNSTREAMED_AGENT_FIELDS.includes(key) || BIRTH_AGENT_FIELDS.includes(key)) continue;
+
+    const previousValue = before[key];
+    const nextValue = after[key];
+    const same = typeof nextValue === 'object' && nextValue !== null && !REPLACED_AGENT_FIELDS.includes(key)
+      ? JSON.stringify(previousValue) === JSON.stringify(nextValue)
+      : previousValue === nextValue;
+
+    if (!same) {
+      copyField(key);
+      changed = true;
+    }
+  }
+
+  return changed ? { ...changes, id: after.id } : null;
+}
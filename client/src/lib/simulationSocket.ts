@@ -0,0 +1,56 @@
+import {
+  SIMULATION_SOCKET_PATH,
+  ClientMessage,
+  ServerMessage,
+  SimulationCommand
+} from './simulationProtocol';
+
+export interface SimulationSocket {
+  send(command: SimulationCommand): void;
+  close(): void;
+}
+
+/**
+ * Open a WebSocket to the server-side loop of a simulation
+ */
+export function connectSimulationSocket(
+  simulationId: number,
+  onMessage: (message: ServerMessage) => void,
+  onClose: () => void
+): SimulationSocket {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  const ws = new WebSocket(`${protocol}://${window.location.host}${SIMULATION_SOCKET_PATH}`);
+
+  // Commands issued before the socket is open are sent once it connects
+  const pending: ClientMessage[] = [{ type: 'subscribe', simulationId }];
+
+  const send = (message: ClientMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    } else {
+      pending.push(message);
+    }
+  };
+
+  ws.addEventListener('open', () => {
+    pending.splice(0).forEach(message => ws.send(JSON.stringify(message)));
+  });
+
+  ws.addEventListener('message', (event) => {
+    try {
+      onMessage(JSON.parse(event.data));
+    } catch (error) {
+      console.error('Invalid simulation socket message:', error);
+    }
+  });
+
+  ws.addEventListener('close', onClose);
+
+  return {
+    send: (command) => send({ type: 'command', command }),
+    close: () => {
+      ws.removeEventListener('close', onClose);
+      ws.close();
+    }
+  };
+}
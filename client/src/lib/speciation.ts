@@ -0,0 +1,156 @@
+import { Agent, Species, TimelineEvent } from './types';
+import { Random } from './random';
+import { geneticDistance } from './genome';
+import { simulationConfig } from '../config/simulationConfig';
+
+/**
+ * Genetic-distance speciation (NEAT style).
+ *
+ * Every species keeps a representative genome. An agent stays in its species
+ * while its genetic distance to the representative is below the
+ * compatibility threshold; otherwise it joins the oldest compatible species
+ * or founds a new one that remembers the species it split from. Species
+ * whose last member dies go extinct but stay in the registry, so the full
+ * history of splits and extinctions can be read back. At every census the
+ * population of each species is recorded and its representative is replaced
+ * by a random current member, so a species follows its population as it
+ * drifts.
+ */
+
+export interface SpeciationResult {
+  agents: Agent[];
+  species: Species[];
+  timelineEvents: TimelineEvent[];
+}
+
+// Syllables of species names, also used to invent signals (language.ts)
+export const SYLLABLES = ['ka', 'lo', 'mi', 'ra', 've', 'to', 'su', 'ne', 'di', 'an', 'or', 'el', 'ba', 'xi', 'qu', 'ty'];
+const GENUS_ENDINGS = ['us', 'a', 'um', 'is'];
+const EPITHET_ENDINGS = ['ensis', 'ii', 'ata', 'icus', 'oides'];
+
+/**
+ * Assign agents to species and update the species registry.
+ * Returns the input arrays unchanged when nothing changed.
+ */
+export function updateSpecies(
+  agents: Agent[],
+  species: Species[],
+  previousTime: number,
+  time: number,
+  rng: Random
+): SpeciationResult {
+  const { compatibilityThreshold, censusInterval, maxCensusPoints } = simulationConfig.speciation;
+  const registry = species.map(entry => ({ ...entry }));
+  const byId = new Map(registry.map(entry => [entry.id, entry]));
+  const timelineEvents: TimelineEvent[] = [];
+  let changed = false;
+
+  const compatible = (agent: Agent, entry: Species) =>
+    entry.extinctionTime === undefined &&
+    geneticDistance(agent.genome, entry.representative) < compatibilityThreshold;
+
+  const classified = agents.map(agent => {
+    const current = byId.get(agent.speciesId);
+    if (current && compatible(agent, current)) return agent;
+
+    changed = true;
+    const match = registry.find(entry => compatible(agent, entry));
+    if (match) return { ...agent, speciesId: match.id };
+
+    const founded: Species = {
+      id: rng.id(),
+      name: speciesName(current?.name, rng),
+      founderId: agent.id,
+      parentSpeciesId: current?.id,
+      representative: agent.genome,
+      originTime: time,
+      population: 0,
+      history: []
+    };
+    registry.push(founded);
+    byId.set(founded.id, founded);
+    timelineEvents.push({
+      id: `event-${rng.id()}`,
+      timestamp: time,
+      title: 'New Species Evolved',
+      description: current
+        ? `${founded.name} has split from ${current.name}.`
+        : `${founded.name} has emerged.`,
+      type: 'mutation',
+      significance: 0.7
+    });
+    return { ...agent, speciesId: founded.id };
+  });
+
+  // Count the members of each species
+  const members = new Map<string, Agent[]>();
+  classified.forEach(agent => {
+    const list = members.get(agent.speciesId);
+    if (list) {
+      list.push(agent);
+    } else {
+      members.set(agent.speciesId, [agent]);
+    }
+  });
+
+  const census = Math.floor(time / censusInterval) > Math.floor(previousTime / censusInterval);
+
+  registry.forEach(entry => {
+    if (entry.extinctionTime !== undefined) return;
+    const current = members.get(entry.id) ?? [];
+
+    if (current.length !== entry.population) {
+      changed = true;
+      entry.population = current.length;
+    }
+
+    if (current.length === 0) {
+      changed = true;
+      entry.extinctionTime = time;
+      entry.history = [...entry.history, { time, population: 0 }].slice(-maxCensusPoints);
+      timelineEvents.push({
+        id: `event-${rng.id()}`,
+        timestamp: time,
+        title: 'Species Extinct',
+        description: `${entry.name} has died out after ${Math.round(time - entry.originTime)} days.`,
+        type: 'extinction',
+        significance: 0.6
+      });
+      return;
+    }
+
+    // New species record their founding population right away
+    if (census || entry.history.length === 0) {
+      changed = true;
+      entry.history = [...entry.history, { time, population: current.length }].slice(-maxCensusPoints);
+      if (census) {
+        entry.representative = rng.pick(current).genome;
+      }
+    }
+  });
+
+  if (!changed) {
+    return { agents, species, timelineEvents };
+  }
+  return { agents: classified, species: registry, timelineEvents };
+}
+
+/**
+ * Species that still have members
+ */
+export function livingSpecies(species: Species[]): Species[] {
+  return species.filter(entry => entry.extinctionTime === undefined);
+}
+
+// Latin-sounding binomial name; species split from a parent keep its genus
+function speciesName(parentName: string | undefined, rng: Random): string {
+  const word = (syllables: number) =>
+    Array.from({ length: syllables }, () => rng.pick(SYLLABLES)).join('');
+
+  const genus = parentName?.split(' ')[0] ?? capitalize(word(2) + rng.pick(GENUS_ENDINGS));
+  return `${genus} ${word(2)}${rng.pick(EPITHET_ENDINGS)}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -2,22 +2,25 @@ import { create } from 'zustand';
 import { 
   Agent, 
   WorldState, 
-  EnvironmentalParameters, 
-  SimulationStatistics,
-  TimelineEvent 
+  TimelineEvent,
+  WorldSettings
 } from '../types';
-import { 
-  createInitialAgents, 
-  updateAgents, 
-  reproduceAgents 
-} from '../agentBehavior';
-import { 
-  initializeWorld,
-  calculateResourceDistribution,
-  updateResourceLevels
-} from '../worldResources';
+import { initializeWorld } from '../worldResources';
+import { SimulationEngine } from '../simulationEngine';
+import {
+  applyWorldDelta,
+  NumericEnvironmentalParameter,
+  ServerMessage,
+  SimulationCommand
+} from '../simulationProtocol';
+import { connectSimulationSocket, SimulationSocket } from '../simulationSocket';
+import { createWorldSnapshot, restoreWorldSnapshot } from '../worldSnapshot';
+import { createWorldFile, parseWorldFile, WorldFile } from '../worldFile';
 import { subscribeWithSelector } from 'zustand/middleware';
 
+// Open connection to the server-side simulation loop, if any
+let serverSocket: SimulationSocket | null = null;
+
 interface SimulationStore {
   // World state
   world: WorldState;
@@ -27,16 +30,18 @@ interface SimulationStore {
   timeline: TimelineEvent[];
   simulationId?: number; // Database simulation ID
   lastUpdateTime?: number; // For simulation update throttling
+  serverConnected: boolean; // True while the server runs the simulation and we only watch
   
   // Environmental controls
-  setEnvironmentalParameter: (param: keyof EnvironmentalParameters, value: number) => void;
+  setEnvironmentalParameter: (param: NumericEnvironmentalParameter, value: number) => void;
   setWeatherCondition: (condition: 'clear' | 'rain' | 'storm' | 'drought') => void;
   triggerCatastrophe: (type: string, intensity: number) => void;
+  setWorldSettings: (settings: Partial<WorldSettings>) => void;
   
   // Simulation controls
   startSimulation: () => void;
   pauseSimulation: () => void;
-  resetSimulation: () => void;
+  resetSimulation: (seed?: number) => void;
   setTimeScale: (scale: number) => void;
   toggleRunning: () => void;
   
@@ -46,6 +51,20 @@ interface SimulationStore {
   // Database persistence
   saveToDatabase: () => Promise<boolean>;
   loadFromDatabase: () => Promise<boolean>;
+  saveCheckpoint: (name: string) => Promise<boolean>;
+  restoreCheckpoint: (snapshotId: number) => Promise<boolean>;
+  
+  // World browser
+  selectSimulation: (simulationId: number) => Promise<boolean>;
+  createNewSimulation: (name: string, seed?: number) => Promise<boolean>;
+  
+  // Portable world files
+  exportWorld: (name: string) => WorldFile;
+  importWorld: (data: unknown) => Promise<boolean>;
+  
+  // Server-side simulation loop
+  connectToServer: () => Promise<boolean>;
+  disconnectFromServer: () => void;
   
   // Utilities
   getAgentById: (id: string) => Agent | undefined;
@@ -66,132 +85,104 @@ export const useSimulation = create<SimulationStore>()(
     focusedAgentId: null,
     simulationId: undefined,
     lastUpdateTime: 0,
+    serverConnected: false,
     
-    setEnvironmentalParameter: (param, value) => set(state => ({
-      world: {
-        ...state.world,
-        environmentalParameters: {
-          ...state.world.environmentalParameters,
-          [param]: value
+    setEnvironmentalParameter: (param, value) => {
+      if (sendToServer({ action: 'setEnvironmentalParameter', param, value })) return;
+      
+      set(state => ({
+        world: {
+          ...state.world,
+          environmentalParameters: {
+            ...state.world.environmentalParameters,
+            [param]: value
+          }
         }
-      }
-    })),
+      }));
+    },
     
-    setWeatherCondition: (condition) => set(state => ({
-      world: {
-        ...state.world,
-        environmentalParameters: {
-          ...state.world.environmentalParameters,
-          weatherCondition: condition
+    setWeatherCondition: (condition) => {
+      if (sendToServer({ action: 'setWeatherCondition', condition })) return;
+      
+      set(state => ({
+        world: {
+          ...state.world,
+          environmentalParameters: {
+            ...state.world.environmentalParameters,
+            weatherCondition: condition
+          }
         }
-      }
-    })),
+      }));
+    },
     
     triggerCatastrophe: (type, intensity) => {
-      const { world } = get();
-      const event: TimelineEvent = {
-        id: `event-${Date.now()}`,
-        timestamp: world.time,
-        title: `${type} Catastrophe`,
-        description: `A ${type} catastrophe of intensity ${intensity} has occurred.`,
-        type: 'extinction',
-        significance: intensity
-      };
+      if (sendToServer({ action: 'triggerCatastrophe', catastropheType: type, intensity })) return;
       
       // Reduce resources based on catastrophe intensity
+      const { world, timelineEvent } = SimulationEngine.applyCatastrophe(get().world, type, intensity);
       set(state => ({
-        world: {
-          ...state.world,
-          events: [...state.world.events, {
-            id: `event-${Date.now()}`,
-            type,
-            timestamp: state.world.time,
-            duration: 1000 * intensity,
-            affectedAgents: state.world.agents.map(a => a.id),
-            description: `${type} catastrophe of intensity ${intensity}`
-          }],
-          resources: state.world.resources.map(r => ({
-            ...r,
-            amount: Math.max(0, r.amount * (1 - intensity * 0.3))
-          }))
-        },
-        timeline: [...state.timeline, event]
+        world,
+        timeline: [...state.timeline, timelineEvent]
       }));
     },
     
-    startSimulation: () => set({ running: true }),
-    pauseSimulation: () => set({ running: false }),
-    resetSimulation: () => set({ 
-      world: initializeWorld(),
-      elapsedYears: 0,
-      timeline: []
-    }),
+    setWorldSettings: (settings) => {
+      if (sendToServer({ action: 'setWorldSettings', settings })) return;
+      
+      set(state => ({
+        world: SimulationEngine.applySettings(state.world, settings)
+      }));
+    },
     
-    setTimeScale: (scale) => set({ timeScale: scale }),
+    startSimulation: () => {
+      if (sendToServer({ action: 'start' })) return;
+      set({ running: true });
+    },
+    pauseSimulation: () => {
+      if (sendToServer({ action: 'pause' })) return;
+      set({ running: false });
+    },
+    resetSimulation: (seed) => {
+      if (sendToServer({ action: 'reset', seed })) return;
+      set(state => ({ 
+        world: initializeWorld(seed, state.world.settings),
+        elapsedYears: 0,
+        timeline: []
+      }));
+    },
     
-    toggleRunning: () => set(state => ({ running: !state.running })),
+    setTimeScale: (scale) => {
+      if (sendToServer({ action: 'setTimeScale', timeScale: scale })) return;
+      set({ timeScale: scale });
+    },
+    
+    toggleRunning: () => {
+      if (get().running) {
+        get().pauseSimulation();
+      } else {
+        get().startSimulation();
+      }
+    },
     
     updateSimulation: (deltaTime) => {
-      const { world, timeScale } = get();
-      const scaledDelta = deltaTime * timeScale;
+      const { world, timeScale, serverConnected } = get();
+      
+      // The server owns the world while we are connected to it
+      if (serverConnected) return;
       
       // VERY IMPORTANT: No throttling here anymore, since we're using setInterval
       // Instead, we have a fixed slow update rate
-      
-      // Time tracking (1 real second = 1 simulated day at timeScale 1)
-      const newTime = world.time + scaledDelta;
-      const daysPassed = Math.floor(newTime / 1) - Math.floor(world.time / 1);
-      const newTimeElapsed = world.timeElapsed + scaledDelta;
-      
-      // Calculate years (365 days = 1 year)
-      const newElapsedYears = newTimeElapsed / 365;
-      
-      // Calculate day/night cycle (0-1 range, 0.5 is noon)
-      const dayNightCycle = (newTime % 1);
-      
-      // Update resources
-      const updatedResources = updateResourceLevels(world.resources, scaledDelta);
-      
-      // Update agent states based on consciousness and behaviors
-      const { updatedAgents, newAgents, events } = updateAgents(
-        world.agents, 
-        updatedResources,
-        world.environmentalParameters,
-        world.cellGrid,
-        scaledDelta
-      );
-      
-      // Handle reproduction if any agents meet the threshold
-      const { reproducedAgents, offspringAgents } = reproduceAgents(
-        updatedAgents, 
-        world.time
+      const { world: nextWorld, timelineEvents } = SimulationEngine.step(
+        world,
+        deltaTime * timeScale
       );
       
-      // Combine all agents (existing + newly reproduced)
-      const allAgents = [...reproducedAgents, ...newAgents, ...offspringAgents];
-      
-      // Calculate new statistics
-      const statistics = calculateStatistics(allAgents);
-      
-      // Create any significant events for the timeline
-      checkForSignificantEvents(statistics, get().world.statistics, newElapsedYears);
-      
-      // Update cell grid with new agent positions
-      const updatedCellGrid = updateCellGrid(world.cellGrid, allAgents);
-      
       set(state => ({
-        world: {
-          ...state.world,
-          time: newTime,
-          timeElapsed: newTimeElapsed,
-          dayNightCycle,
-          agents: allAgents,
-          resources: updatedResources,
-          events: [...state.world.events, ...events],
-          statistics,
-          cellGrid: updatedCellGrid
-        },
-        elapsedYears: newElapsedYears
+        world: nextWorld,
+        elapsedYears: SimulationEngine.elapsedYears(nextWorld),
+        timeline: timelineEvents.length > 0
+          ? [...state.timeline, ...timelineEvents]
+          : state.timeline
       }));
     },
     
@@ -208,12 +199,15 @@ export const useSimulation = create<SimulationStore>()(
     // Database persistence functions
     saveToDatabase: async () => {
       try {
-        const { world, simulationId } = get();
+        const { world, timeline, simulationId, serverConnected } = get();
         const { simulationApi } = await import('../queryClient');
         
+        // The server persists the worlds it runs itself
+        if (serverConnected) return true;
+        
         if (simulationId) {
           // Update existing simulation
-          await simulationApi.saveSimulationState(simulationId, world);
+          await simulationApi.saveSimulationState(simulationId, createWorldSnapshot(world, timeline));
         } else {
           // Create new simulation
           const result = await simulationApi.createSimulation('Genesis Simulation', world);
@@ -237,8 +231,9 @@ export const useSimulation = create<SimulationStore>()(
         if (result && result.state) {
           set({ 
             world: result.state,
+            timeline: result.timeline ?? [],
             simulationId: result.id,
-            elapsedYears: result.state.timeElapsed / 365
+            elapsedYears: SimulationEngine.elapsedYears(result.state)
           });
           return true;
         }
@@ -247,153 +242,227 @@ export const useSimulation = create<SimulationStore>()(
         console.error('Failed to load simulation from database:', error);
         return false;
       }
+    },
+    
+    saveCheckpoint: async (name) => {
+      try {
+        // A checkpoint belongs to a simulation record
+        if (get().simulationId === undefined) {
+          const saved = await get().saveToDatabase();
+          if (!saved) return false;
+        }
+        
+        const { world, timeline, simulationId, serverConnected } = get();
+        const { simulationApi } = await import('../queryClient');
+        
+        // While connected the server checkpoints its own, authoritative world
+        await simulationApi.createSnapshot(
+          simulationId!,
+          name,
+          serverConnected ? undefined : createWorldSnapshot(world, timeline)
+        );
+        return true;
+      } catch (error) {
+        console.error('Failed to save checkpoint:', error);
+        return false;
+      }
+    },
+    
+    restoreCheckpoint: async (snapshotId) => {
+      try {
+        const { simulationId, serverConnected } = get();
+        if (simulationId === undefined) return false;
+        
+        const { simulationApi } = await import('../queryClient');
+        
+        // The server broadcasts the restored world to all viewers
+        if (serverConnected) {
+          await simulationApi.restoreSnapshot(simulationId, snapshotId);
+          return true;
+        }
+        
+        const record = await simulationApi.getSnapshot(simulationId, snapshotId);
+        const { world, timeline, elapsedYears } = restoreWorldSnapshot(record.snapshot);
+        set({ world, timeline, elapsedYears });
+        return true;
+      } catch (error) {
+        console.error('Failed to restore checkpoint:', error);
+        return false;
+      }
+    },
+    
+    selectSimulation: async (simulationId) => {
+      try {
+        const { simulationApi } = await import('../queryClient');
+        const wasConnected = get().serverConnected;
+        
+        // Stop watching (or running) the current world before switching
+        get().disconnectFromServer();
+        
+        const result = await simulationApi.getSimulation(simulationId);
+        if (!result || !result.state) return false;
+        
+        set({
+          world: result.state,
+          timeline: result.timeline ?? [],
+          simulationId: result.id,
+          elapsedYears: SimulationEngine.elapsedYears(result.state),
+          focusedAgentId: null
+        });
+        await simulationApi.markSimulationViewed(simulationId);
+        
+        if (wasConnected) {
+          return await get().connectToServer();
+        }
+        return true;
+      } catch (error) {
+        console.error('Failed to select simulation:', error);
+        return false;
+      }
+    },
+    
+    createNewSimulation: async (name, seed) => {
+      try {
+        const { simulationApi } = await import('../queryClient');
+        const wasConnected = get().serverConnected;
+        get().disconnectFromServer();
+        
+        const world = initializeWorld(seed);
+        const result = await simulationApi.createSimulation(name, world);
+        if (!result || !result.id) return false;
+        
+        set({
+          world,
+          timeline: [],
+          simulationId: result.id,
+          elapsedYears: 0,
+          focusedAgentId: null
+        });
+        await simulationApi.markSimulationViewed(result.id);
+        
+        if (wasConnected) {
+          return await get().connectToServer();
+        }
+        return true;
+      } catch (error) {
+        console.error('Failed to create simulation:', error);
+        return false;
+      }
+    },
+    
+    exportWorld: (name) => {
+      const { world, timeline } = get();
+      return createWorldFile(name, world, timeline);
+    },
+    
+    importWorld: async (data) => {
+      try {
+        // Validate locally first so broken files never reach the server
+        const { name, world, timeline } = parseWorldFile(data);
+        const { simulationApi } = await import('../queryClient');
+        
+        try {
+          const result = await simulationApi.importSimulation(data);
+          if (result && result.id) {
+            return await get().selectSimulation(result.id);
+          }
+        } catch (error) {
+          console.error(`Failed to store imported world "${name}", loading it locally:`, error);
+        }
+        
+        // Without a server the world is loaded as a new, unsaved simulation
+        get().disconnectFromServer();
+        set({
+          world,
+          timeline,
+          simulationId: undefined,
+          elapsedYears: SimulationEngine.elapsedYears(world),
+          focusedAgentId: null
+        });
+        return true;
+      } catch (error) {
+        console.error('Failed to import world:', error);
+        return false;
+      }
+    },
+    
+    connectToServer: async () => {
+      // A simulation needs a database record before the server can run it
+      if (get().simulationId === undefined) {
+        const saved = await get().saveToDatabase();
+        if (!saved) return false;
+      }
+      
+      const { simulationId } = get();
+      if (simulationId === undefined) return false;
+      
+      serverSocket?.close();
+      serverSocket = connectSimulationSocket(
+        simulationId,
+        handleServerMessage,
+        () => {
+          serverSocket = null;
+          set({ serverConnected: false, running: false });
+        }
+      );
+      set({ serverConnected: true });
+      return true;
+    },
+    
+    disconnectFromServer: () => {
+      serverSocket?.close();
+      serverSocket = null;
+      set({ serverConnected: false, running: false });
     }
   }))
 );
 
-// Helper function to calculate overall simulation statistics
-function calculateStatistics(agents: Agent[]): SimulationStatistics {
-  if (agents.length === 0) {
-    return {
-      populationSize: 0,
-      averageConsciousness: 0,
-      maxConsciousness: 0,
-      averageLifespan: 0,
-      totalGenerations: 0,
-      languageComplexity: 0,
-      socialComplexity: 0,
-      resourceConsumption: 0,
-      speciesCount: 0
-    };
-  }
-  
-  // Calculate statistics
-  const totalConsciousness = agents.reduce((sum, agent) => sum + agent.consciousnessValue, 0);
-  const maxConsciousness = Math.max(...agents.map(agent => agent.consciousnessValue));
-  const maxGeneration = Math.max(...agents.map(agent => agent.generation));
-  const avgLifespan = agents.reduce((sum, agent) => sum + agent.lifespan, 0) / agents.length;
-  
-  // Simple proxy for language and social complexity based on generation and consciousness
-  const languageComplexity = Math.min(1, (maxGeneration / 10) * (maxConsciousness / 100));
-  const socialComplexity = Math.min(1, (agents.length / 20) * (maxConsciousness / 100));
-  
-  // Resource consumption is proportional to population size and average movement
-  const resourceConsumption = agents.length * 0.5;
-  
-  // Very simple species count based on distinct trait patterns
-  // In a real simulation, this would be much more sophisticated
-  const traitSignatures = new Set();
-  agents.forEach(agent => {
-    const signature = `${Math.round(agent.traits.curiosity*10)}-${Math.round(agent.traits.socialAffinity*10)}`;
-    traitSignatures.add(signature);
-  });
-  
-  return {
-    populationSize: agents.length,
-    averageConsciousness: totalConsciousness / agents.length,
-    maxConsciousness,
-    averageLifespan: avgLifespan,
-    totalGenerations: maxGeneration,
-    languageComplexity,
-    socialComplexity,
-    resourceConsumption,
-    speciesCount: traitSignatures.size
-  };
-}
-
-// Generate significant events for the timeline
-function checkForSignificantEvents(
-  newStats: SimulationStatistics, 
-  oldStats: SimulationStatistics,
-  elapsedYears: number
-): void {
-  const store = useSimulation.getState();
-  
-  // New species evolved
-  if (newStats.speciesCount > oldStats.speciesCount) {
-    store.trackTimelineEvent({
-      id: `event-${Date.now()}`,
-      timestamp: store.world.time,
-      title: 'New Species Evolved',
-      description: `A new species has evolved, bringing the total to ${newStats.speciesCount}.`,
-      type: 'mutation',
-      significance: 0.7
-    });
-  }
-  
-  // Population milestone (every 10 agents)
-  if (Math.floor(newStats.populationSize / 10) > Math.floor(oldStats.populationSize / 10)) {
-    store.trackTimelineEvent({
-      id: `event-${Date.now()}`,
-      timestamp: store.world.time,
-      title: 'Population Milestone',
-      description: `The population has reached ${Math.floor(newStats.populationSize / 10) * 10} individuals.`,
-      type: 'population',
-      significance: 0.5
-    });
-  }
-  
-  // Language milestones (based on complexity)
-  if (newStats.languageComplexity > oldStats.languageComplexity + 0.2) {
-    store.trackTimelineEvent({
-      id: `event-${Date.now()}`,
-      timestamp: store.world.time,
-      title: 'Communication Evolution',
-      description: `The agents have developed more complex communication patterns.`,
-      type: 'language',
-      significance: 0.8
-    });
-  }
-  
-  // Social structure milestone
-  if (newStats.socialComplexity > oldStats.socialComplexity + 0.2) {
-    store.trackTimelineEvent({
-      id: `event-${Date.now()}`,
-      timestamp: store.world.time,
-      title: 'Social Structure Formed',
-      description: `Agents have begun forming more complex social structures.`,
-      type: 'social',
-      significance: 0.7
-    });
-  }
-  
-  // Generation milestone
-  if (newStats.totalGenerations > oldStats.totalGenerations) {
-    store.trackTimelineEvent({
-      id: `event-${Date.now()}`,
-      timestamp: store.world.time,
-      title: 'New Generation',
-      description: `Generation ${newStats.totalGenerations} has emerged.`,
-      type: 'population',
-      significance: 0.4
-    });
-  }
+/**
+ * Forward a command to the server-side loop; returns false when running locally
+ */
+function sendToServer(command: SimulationCommand): boolean {
+  if (!serverSocket) return false;
+  serverSocket.send(command);
+  return true;
 }
 
-// Update cell grid with new agent positions
-function updateCellGrid(cellGrid: any[][], agents: Agent[]) {
-  // Create a deep copy of the grid
-  const updatedGrid = cellGrid.map(row => [...row]);
+/**
+ * Mirror the server-side simulation into the store
+ */
+function handleServerMessage(message: ServerMessage): void {
+  const { simulationId } = useSimulation.getState();
+  if (message.type !== 'error' && message.simulationId !== simulationId) return;
   
-  // Reset occupancy
-  for (let i = 0; i < updatedGrid.length; i++) {
-    for (let j = 0; j < updatedGrid[i].length; j++) {
-      updatedGrid[i][j].occupied = false;
-      updatedGrid[i][j].occupants = [];
-    }
+  switch (message.type) {
+    case 'snapshot':
+      useSimulation.setState({
+        world: message.world,
+        timeline: message.timeline,
+        running: message.running,
+        timeScale: message.timeScale,
+        elapsedYears: SimulationEngine.elapsedYears(message.world)
+      });
+      break;
+      
+    case 'delta':
+      useSimulation.setState(state => {
+        const world = applyWorldDelta(state.world, message.delta);
+        return {
+          world,
+          elapsedYears: SimulationEngine.elapsedYears(world),
+          timeline: message.delta.timelineEvents.length > 0
+            ? [...state.timeline, ...message.delta.timelineEvents]
+            : state.timeline
+        };
+      });
+      break;
+      
+    case 'status':
+      useSimulation.setState({ running: message.running, timeScale: message.timeScale });
+      break;
+      
+    case 'error':
+      console.error('Simulation server error:', message.message);
+      break;
   }
-  
-  // Update with new agent positions
-  agents.forEach(agent => {
-    const x = Math.floor((agent.position.x + 50) / 10);
-    const z = Math.floor((agent.position.z + 50) / 10);
-    
-    // Ensure coordinates are within bounds
-    if (x >= 0 && x < updatedGrid.length && z >= 0 && z < updatedGrid[0].length) {
-      updatedGrid[x][z].occupied = true;
-      updatedGrid[x][z].occupants.push(agent.id);
-    }
-  });
-  
-  return updatedGrid;
 }
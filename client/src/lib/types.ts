@@ -13,14 +13,149 @@ export interface Agent {
   perceptionRadius: number;
   movementSpeed: number;
   sensorValues: SensorValues;
-  memory: Memory[];
+  memory: Memory[];         // Short-term store of recent experiences
+  longTermMemory: LongTermMemory[]; // Generalized memories consolidated from repeated experiences
+  lexicon: LexiconEntry[]; // Signals the agent uses and understands
+  relationships: Relationship[]; // Agents it knows, closest first
   reproductionThreshold: number;
   mutationRate: number;
   consciousnessValue: number;
-  lastReproductionTime: number;
+  lastReproductionTime: number; // Age at the last reproduction, 0 before the first
   lastAction: AgentAction;
   reproductionCooldown: number;
   traits: AgentTraits;
+  needs: AgentNeeds;
+  matePreferences: MatePreferences; // What the agent looks for in a partner
+  offspringCount: number; // Children fathered or borne so far
+  matingType: number;     // Sex or mating type drawn at birth (0 when the world has none)
+  asexuality: number;     // Heritable tendency to bud (0-1), used when the world leaves the mode to the genes
+  altruism: number;       // Heritable willingness to give food away (0-1)
+  parentIds: string[];    // Empty for the founders
+  speciesId: string;      // Species the agent currently belongs to
+  trophicLevel: TrophicLevel; // What the agent eats, inherited unchanged
+  genome: Genome;         // Inherited genes that determine traits, senses, speed, lifespan and color
+  brain: BrainGenome;     // Inherited network genome, used by the neural controller
+  brainState: number[];   // Hidden activations carried between steps (recurrent brains)
+  targetId?: string; // Agent or resource the agent is heading for or interacting with
+  targetPosition?: Vector3D; // Remembered place the agent is heading for when no target is in sight
+  actionScores?: Partial<Record<AgentAction, number>>; // Utilities of the last decision
+  consciousnessScores?: Record<ConsciousnessModelId, number>; // Every model's value, when the world compares them
+  phi?: PhiEstimate; // Integrated information of the brain, cached while the neural controller runs
+  consciousnessHistory: ConsciousnessSample[]; // Recent component samples, oldest first
+}
+
+// Physiological needs, each rising from 0 (satisfied) to 100 (fatal)
+export interface AgentNeeds {
+  hunger: number;   // Relieved by food
+  thirst: number;   // Relieved by water
+  fatigue: number;  // Relieved by light and rest
+}
+
+// Heritable mate preferences; the weights are 0-1 and need not sum to 1
+export interface MatePreferences {
+  colorSimilarity: number;  // Preference for partners that look alike
+  consciousness: number;    // Preference for highly conscious partners
+  complementarity: number;  // Preference for partners with different traits
+  choosiness: number;       // Lowest attractiveness the agent accepts
+}
+
+// Heritable properties, one locus each
+export type GeneLocus =
+  | keyof AgentTraits
+  | 'prefColorSimilarity'
+  | 'prefConsciousness'
+  | 'prefComplementarity'
+  | 'choosiness'
+  | 'asexuality'
+  | 'altruism'
+  | 'perceptionRadius'
+  | 'movementSpeed'
+  | 'lifespan'
+  | 'mutationRate'
+  | 'colorRed'
+  | 'colorGreen'
+  | 'colorBlue';
+
+export interface Allele {
+  value: number;      // Normalized 0-1, mapped to the locus range on expression
+  dominant: boolean;  // A dominant allele masks a recessive one
+}
+
+export interface Gene {
+  locus: GeneLocus;
+  alleles: [Allele, Allele]; // One inherited from each parent
+}
+
+export interface Genome {
+  genes: Gene[]; // In chromosome order
+}
+
+// A group of genetically compatible agents
+export interface Species {
+  id: string;
+  name: string;
+  founderId: string;          // Agent that founded the species
+  parentSpeciesId?: string;   // Species it split from; undefined for the first species
+  representative: Genome;     // Agents are compared against this genome
+  originTime: number;
+  extinctionTime?: number;    // Set once the last member has died
+  population: number;
+  history: SpeciesCensus[];   // Population sampled over time
+}
+
+// Agents moving together, detected from their positions every step
+export interface AgentGroup {
+  id: string;
+  memberIds: string[]; // Sorted
+  formedAt: number;    // Kept while the group shares members with its earlier self
+}
+
+export interface SpeciesCensus {
+  time: number;
+  population: number;
+}
+
+// Weights of a one-hidden-layer network, stored row-major per target unit
+export interface BrainGenome {
+  inputSize: number;
+  hiddenSize: number;
+  outputSize: number;
+  recurrent: boolean;
+  inputWeights: number[];      // hiddenSize x inputSize
+  recurrentWeights: number[];  // hiddenSize x hiddenSize, empty if not recurrent
+  hiddenBias: number[];
+  outputWeights: number[];     // outputSize x hiddenSize
+  outputBias: number[];
+}
+
+// Integrated information (Φ) of a brain's hidden units
+export interface PhiEstimate {
+  value: number;       // Φ in bits: effective information across the minimum-information partition
+  normalized: number;  // Φ mapped onto the integration component (0-1), see integratedInformation.ts
+  partition: number[]; // Hidden units on one side of that partition
+  time: number;        // When it was estimated
+}
+
+// Cooperative acts since the world was created, with the terms of Hamilton's rule (rB > C) summed over all gifts
+export interface CooperationTally {
+  gifts: number;             // Food given to another agent
+  kinGifts: number;          // Gifts to known relatives
+  hamiltonSatisfied: number; // Gifts where relatedness times benefit exceeded the cost
+  relatedness: number;       // Sum of r
+  benefit: number;           // Sum of B, the energy weighted by the recipient's need
+  cost: number;              // Sum of C, the energy weighted by the donor's need
+  energyShared: number;
+  cooperativeHarvests: number; // Large resources harvested by several agents together
+}
+
+export type DeathCause = 'starvation' | 'dehydration' | 'exhaustion' | 'oldAge' | 'predation';
+
+// Position in the food chain: herbivores eat plants, predators herbivores, apex predators predators
+export type TrophicLevel = 'herbivore' | 'predator' | 'apex';
+
+// Living agents per trophic level at one time
+export interface TrophicCensus extends Record<TrophicLevel, number> {
+  time: number;
 }
 
 export interface AgentTraits {
@@ -48,13 +183,43 @@ export interface ProximityData {
   distance: number;
   direction: Vector3D;
   id: string;
+  threat?: boolean; // Another agent that hunts this one
 }
 
 export interface Memory {
   timestamp: number;
   type: 'encounter' | 'action' | 'feedback' | 'observation';
   data: any;
-  intensity: number;
+  intensity: number;    // Fades over time; the memory is forgotten when it gets too weak
+  consolidated?: boolean; // Already merged into a long-term memory
+}
+
+// What an agent knows about another agent
+export interface Relationship {
+  agentId: string;
+  familiarity: number; // 0-1, grows with time spent together and fades apart
+  trust: number;       // -1 (rival) to 1 (friend)
+  kinship: number;     // Coefficient of relatedness (0.5 parent and child, full siblings)
+  lastInteraction: number;
+}
+
+// What a signal can refer to
+export type Referent = Resource['type'] | 'danger' | 'mate';
+
+// One signal of an agent's lexicon
+export interface LexiconEntry {
+  referent: Referent;
+  signal: string;
+  score: number; // Confidence (0-1), raised by successful use, lowered by failures and competing signals
+}
+
+// Where a resource is usually found, generalized from repeated experiences
+export interface LongTermMemory {
+  resourceType: Resource['type'];
+  position: Vector3D;     // Mean position of the experiences
+  strength: number;       // 0-1, reinforced by experiences, fades slowly
+  experiences: number;    // Short-term memories consolidated into it
+  lastReinforced: number;
 }
 
 export interface Vector3D {
@@ -71,6 +236,7 @@ export type AgentAction =
   | 'consume'
   | 'reproduce'
   | 'communicate'
+  | 'share'
   | 'idle';
 
 // Environment types
@@ -85,6 +251,31 @@ export interface WorldState {
   cellGrid: Cell[][];
   timeElapsed: number;
   dayNightCycle: number;
+  seed: number;      // Seed the world was created from
+  rngState: number;  // Current PRNG state, advanced by every simulation step
+  settings: WorldSettings;
+  species: Species[]; // Every species that ever existed, including extinct ones
+  consciousnessHistory: ConsciousnessSample[]; // Population averages sampled over time
+  groups: AgentGroup[]; // Current groups, oldest first
+  trophicHistory: TrophicCensus[]; // Populations of the trophic levels sampled over time
+}
+
+// How agents choose their actions
+export type AgentController = 'utility' | 'neural';
+
+// How consciousness is computed from an agent's state
+export type ConsciousnessModelId = 'product' | 'weightedSum' | 'globalWorkspace' | 'partition';
+
+// How agents reproduce: with a partner, by budding, or as their asexuality gene decides
+export type ReproductionMode = 'sexual' | 'asexual' | 'heritable';
+
+// Per-world options that change how the simulation behaves
+export interface WorldSettings {
+  controller: AgentController;
+  matingTypes: number; // 0 for hermaphrodites, 2 for two sexes, N for N self-incompatible types
+  reproductionMode: ReproductionMode;
+  consciousnessModel: ConsciousnessModelId; // Drives behaviour and reproduction
+  compareConsciousnessModels: boolean; // Also evaluate every other model each step
 }
 
 export interface Cell {
@@ -107,6 +298,7 @@ export interface Resource {
   amount: number;
   regenerationRate: number;
   lastRegeneration: number;
+  harvesters?: number; // Agents it takes to harvest a large resource together; unset for ordinary ones
 }
 
 export interface EnvironmentalParameters {
@@ -127,6 +319,7 @@ export interface WorldEvent {
   duration: number;
   affectedAgents: string[];
   description: string;
+  cause?: DeathCause; // Set on 'death' events
 }
 
 export interface SimulationStatistics {
@@ -135,10 +328,28 @@ export interface SimulationStatistics {
   maxConsciousness: number;
   averageLifespan: number;
   totalGenerations: number;
-  languageComplexity: number;
-  socialComplexity: number;
+  languageComplexity: number; // Share of the referents the population names alike (0-1)
+  vocabularySize: number; // Referents an agent has a signal for, on average
+  languageAgreement: number; // Chance that two agents naming a referent use the same signal
+  socialComplexity: number; // Mean of clustering coefficient and modularity of the social network (0-1)
+  clusteringCoefficient: number; // Mean share of an agent's bonded pairs of neighbours that are bonded themselves
+  modularity: number; // Modularity of the social network's communities
+  groupCount: number; // Groups of agents moving together
+  meanGroupSize: number; // Members per group, on average
+  meanGroupLifetime: number; // Days the current groups have held together, on average
   resourceConsumption: number;
   speciesCount: number;
+  populationByTrophicLevel: Record<TrophicLevel, number>;
+  matingSuccessVariance: number; // Variance of offspring per living agent
+  matingTypeCounts: number[]; // Living agents per mating type (empty without mating types)
+  sexRatio: number; // Rarest mating type relative to the most common one (1 = balanced)
+  asexualShare: number; // Share of living agents that reproduce by budding
+  averageAltruism: number;
+  cooperationRate: number; // Share of living agents that shared food or harvested together in the last step
+  cooperation: CooperationTally; // Cumulative since the world was created
+  consciousnessByModel: Partial<Record<ConsciousnessModelId, number>>; // Average per model (only the world's model unless compared)
+  averageNeeds: AgentNeeds;
+  deathsByCause: Record<DeathCause, number>; // Cumulative since the world was created
 }
 
 // Controls
@@ -160,15 +371,10 @@ export interface ConsciousnessComponents {
   decisionFreedom: number;   // δ - Decision freedom/autonomy
 }
 
-// Agent mutation parameters
-export interface MutationParameters {
-  sensorCapability: number;
-  movementCapability: number;
-  memoryCapacity: number;
-  learningRate: number;
-  communicationAbility: number;
-  resourceEfficiency: number;
-  lifespanFactor: number;
+// Consciousness components and value at one point in time
+export interface ConsciousnessSample extends ConsciousnessComponents {
+  time: number;
+  value: number;
 }
 
 // Timeline Events
@@ -0,0 +1,535 @@
+import { Agent, AgentAction, AgentNeeds, LongTermMemory, ProximityData, Resource, Vector3D, WorldSettings } from './types';
+import { Random } from './random';
+import { simulationConfig } from '../config/simulationConfig';
+import { acceptsMate, mateAttractiveness } from './mateChoice';
+import { compatibleMatingTypes } from './matingTypes';
+import { reproducesAsexually } from './budding';
+import { groundDistance, recallResource } from './memory';
+import { affinity, kinship, relationshipWith } from './relationships';
+import { fedEnoughToBreed, huntsAgents, isPreyOf } from './predation';
+
+/**
+ * Utility-based action selection.
+ *
+ * Every action has a scorer that rates how useful it is right now (0-1)
+ * from the agent's sensors, needs, traits and memories and, where the action
+ * is aimed at something, names its target (or a remembered place). The agent then samples an action
+ * with a softmax over the scores: adaptable agents use a higher temperature
+ * and try alternatives more often, rigid agents almost always pick the best
+ * score. New actions are added by registering another scorer.
+ */
+
+export interface ActionContext {
+  agent: Agent;
+  allAgents: Agent[];
+  resources: Resource[];
+  currentTime: number;
+  settings: WorldSettings;
+}
+
+export interface ActionScore {
+  score: number;
+  targetId?: string;
+  targetPosition?: Vector3D;
+}
+
+export interface ActionScorer {
+  action: AgentAction;
+  /** Utility of the action (0-1), or null if it is not possible right now */
+  score(context: ActionContext): ActionScore | null;
+}
+
+export interface ActionSelection {
+  action: AgentAction;
+  targetId?: string;
+  targetPosition?: Vector3D;
+  scores: Partial<Record<AgentAction, number>>;
+}
+
+// Resource type that relieves each need
+export const NEED_RESOURCES: Record<keyof AgentNeeds, Resource['type']> = {
+  hunger: 'food',
+  thirst: 'water',
+  fatigue: 'light'
+};
+
+// Scorers by action; registering a scorer for an action replaces the previous one
+const scorers = new Map<AgentAction, ActionScorer>();
+
+/**
+ * Register (or replace) the scorer of an action
+ */
+export function registerActionScorer(scorer: ActionScorer): void {
+  scorers.set(scorer.action, scorer);
+}
+
+/**
+ * Score all registered actions and sample one via softmax
+ */
+export function selectAction(context: ActionContext, rng: Random): ActionSelection {
+  const candidates: ({ action: AgentAction } & ActionScore)[] = [];
+  const scores: Partial<Record<AgentAction, number>> = {};
+
+  scorers.forEach(scorer => {
+    const result = scorer.score(context);
+    if (!result) return;
+
+    const score = Math.max(0, Math.min(1, result.score));
+    scores[scorer.action] = score;
+    candidates.push({ action: scorer.action, score, targetId: result.targetId, targetPosition: result.targetPosition });
+  });
+
+  if (candidates.length === 0) {
+    return { action: 'idle', scores };
+  }
+
+  const temperature = softmaxTemperature(context.agent);
+  const best = Math.max(...candidates.map(candidate => candidate.score));
+  // Subtract the best score so the exponentials cannot overflow
+  const weights = candidates.map(candidate => Math.exp((candidate.score - best) / temperature));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let roll = rng.next() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll <= 0) {
+      const { action, targetId, targetPosition } = candidates[i];
+      return { action, targetId, targetPosition, scores };
+    }
+  }
+
+  const last = candidates[candidates.length - 1];
+  return { action: last.action, targetId: last.targetId, targetPosition: last.targetPosition, scores };
+}
+
+/**
+ * Softmax temperature of an agent, interpolated by its adaptability
+ */
+export function softmaxTemperature(agent: Agent): number {
+  const { minTemperature, maxTemperature } = simulationConfig.agents.utility;
+  return minTemperature + (maxTemperature - minTemperature) * agent.traits.adaptability;
+}
+
+/**
+ * How pressing a need is (0-1); low energy is felt as hunger
+ */
+export function needUrgency(agent: Agent, need: keyof AgentNeeds): number {
+  const value = agent.needs[need] / 100;
+  return need === 'hunger' ? Math.max(value, (100 - agent.energy) / 100) : value;
+}
+
+/**
+ * The agent's most pressing need, or null if none is urgent
+ */
+export function mostUrgentNeed(agent: Agent): keyof AgentNeeds | null {
+  const needs = Object.keys(NEED_RESOURCES) as (keyof AgentNeeds)[];
+  const most = needs.reduce((a, b) => needUrgency(agent, b) > needUrgency(agent, a) ? b : a);
+
+  return needUrgency(agent, most) * 100 >= simulationConfig.agents.needs.urgentThreshold ? most : null;
+}
+
+/**
+ * Whether an agent is conscious enough and rested from its last reproduction
+ */
+export function isReadyToReproduce(agent: Agent): boolean {
+  return (
+    agent.consciousnessValue >= agent.reproductionThreshold &&
+    agent.age > agent.lastReproductionTime + agent.reproductionCooldown &&
+    fedEnoughToBreed(agent)
+  );
+}
+
+/**
+ * The nearest perceived entity matching the predicate
+ */
+export function nearestPerceived(
+  agent: Agent,
+  predicate: (proximity: ProximityData) => boolean
+): ProximityData | undefined {
+  let nearest: ProximityData | undefined;
+  for (const proximity of agent.sensorValues.proximity) {
+    if (predicate(proximity) && (!nearest || proximity.distance < nearest.distance)) {
+      nearest = proximity;
+    }
+  }
+  return nearest;
+}
+
+// Considerations shared by the default scorers
+
+const inReach = (proximity: ProximityData) =>
+  proximity.distance <= simulationConfig.agents.interactionRange;
+
+const resourceType = (context: ActionContext, proximity: ProximityData) =>
+  context.resources.find(resource => resource.id === proximity.id)?.type;
+
+// Hunters cannot digest plants
+const canEat = (agent: Agent, type: Resource['type']) =>
+  type !== 'food' || !huntsAgents(agent);
+
+// Whether a perceived agent is of the agent's own trophic level (neither prey nor hunter)
+const sameKind = (context: ActionContext, proximity: ProximityData) =>
+  context.allAgents.find(other => other.id === proximity.id)?.trophicLevel === context.agent.trophicLevel;
+
+// Worth of a large resource relative to an ordinary one (1): half of it plus half the share of the
+// harvesters it needs that can join in (there, on their way or in the agent's company), counting
+// the agent, and a bonus once the team is complete
+function harvestProspect(context: ActionContext, resourceId: string): number {
+  const { agent } = context;
+  const resource = context.resources.find(candidate => candidate.id === resourceId);
+  if (!resource?.harvesters) return 1;
+  const helpers = context.allAgents.filter(other =>
+    other.id !== agent.id &&
+    other.trophicLevel === agent.trophicLevel &&
+    (other.targetId === resource.id ||
+      groundDistance(other.position, resource.position) <= simulationConfig.agents.interactionRange ||
+      groundDistance(other.position, agent.position) <= agent.perceptionRadius)
+  ).length;
+  const share = (helpers + 1) / resource.harvesters;
+  return share >= 1 ? 1 + simulationConfig.agents.cooperation.harvestBonus : 0.5 + 0.5 * share;
+}
+
+// Usefulness of a resource type: relief of the matching need, plus the agent's general interest
+function resourceValue(context: ActionContext, type: Resource['type']): number {
+  const need = (Object.keys(NEED_RESOURCES) as (keyof AgentNeeds)[])
+    .find(key => NEED_RESOURCES[key] === type)!;
+  return Math.max(needUrgency(context.agent, need), context.agent.traits.resourceAffinity * 0.3);
+}
+
+// Highest urgency among all needs
+const maxUrgency = (agent: Agent) =>
+  Math.max(needUrgency(agent, 'hunger'), needUrgency(agent, 'thirst'), needUrgency(agent, 'fatigue'));
+
+// Whether the agent did something with the target recently (used to lower repetition)
+function recentlyInteracted(context: ActionContext, action: AgentAction, targetId: string): boolean {
+  const window = simulationConfig.agents.utility.memoryWindow;
+  return context.agent.memory.some(memory =>
+    memory.type === 'action' &&
+    memory.data?.action === action &&
+    memory.data?.targetId === targetId &&
+    context.currentTime - memory.timestamp < window
+  );
+}
+
+// Most attractive sexual partner within perception that is ready to reproduce as well,
+// has a compatible mating type, would be accepted and has not turned the agent down recently
+function readyPartner(context: ActionContext): ProximityData | undefined {
+  const { agent, settings } = context;
+  if (!isReadyToReproduce(agent) || reproducesAsexually(agent, settings)) return undefined;
+
+  let best: { proximity: ProximityData; attractiveness: number } | undefined;
+  for (const proximity of agent.sensorValues.proximity) {
+    if (proximity.type !== 'agent' || recentlyRefused(context, proximity.id)) continue;
+    const partner = context.allAgents.find(a => a.id === proximity.id);
+    if (
+      !partner ||
+      partner.trophicLevel !== agent.trophicLevel ||
+      !isReadyToReproduce(partner) ||
+      reproducesAsexually(partner, settings) ||
+      !compatibleMatingTypes(agent, partner, settings.matingTypes) ||
+      !acceptsMate(agent, partner)
+    ) continue;
+
+    const attractiveness = mateAttractiveness(agent, partner);
+    if (!best || attractiveness > best.attractiveness) {
+      best = { proximity, attractiveness };
+    }
+  }
+  return best?.proximity;
+}
+
+// Whether the partner refused a courtship recently
+function recentlyRefused(context: ActionContext, partnerId: string): boolean {
+  const window = simulationConfig.agents.utility.memoryWindow;
+  return context.agent.memory.some(memory =>
+    memory.type === 'feedback' &&
+    memory.data?.event === 'refused' &&
+    memory.data?.by === partnerId &&
+    context.currentTime - memory.timestamp < window
+  );
+}
+
+// Best resource in reach or in sight, rated by its value
+function bestResource(context: ActionContext, reachable: boolean) {
+  let best: { proximity: ProximityData; value: number } | undefined;
+  for (const proximity of context.agent.sensorValues.proximity) {
+    if (proximity.type !== 'resource' || inReach(proximity) !== reachable) continue;
+    const type = resourceType(context, proximity);
+    if (!type || !canEat(context.agent, type)) continue;
+
+    // Distant resources are worth a little less, large ones as much as the helpers they can count on
+    const falloff = reachable ? 1 : 1 - 0.3 * proximity.distance / context.agent.perceptionRadius;
+    const value = resourceValue(context, type) * falloff * harvestProspect(context, proximity.id);
+    if (!best || value > best.value) {
+      best = { proximity, value };
+    }
+  }
+  return best;
+}
+
+// Nearest prey in reach or in sight, valued by the hunter's hunger; none while it is sated
+function bestPrey(context: ActionContext, reachable: boolean) {
+  const { agent } = context;
+  if (!huntsAgents(agent)) return undefined;
+  const hunger = needUrgency(agent, 'hunger');
+  if (hunger * 100 < simulationConfig.agents.predation.huntingHunger) return undefined;
+
+  const prey = nearestPerceived(agent, p => {
+    if (p.type !== 'agent' || (p.distance <= simulationConfig.agents.predation.attackRange) !== reachable) return false;
+    const other = context.allAgents.find(a => a.id === p.id);
+    return other !== undefined && isPreyOf(agent, other);
+  });
+  if (!prey) return undefined;
+
+  const falloff = reachable ? 1 : 1 - 0.3 * prey.distance / agent.perceptionRadius;
+  return { proximity: prey, value: hunger * falloff };
+}
+
+// Where the nearest prey out of sight but within scent was, for a hunter hungry enough to hunt
+function preyTrail(context: ActionContext) {
+  const { agent } = context;
+  if (!huntsAgents(agent)) return undefined;
+  const hunger = needUrgency(agent, 'hunger');
+  if (hunger * 100 < simulationConfig.agents.predation.huntingHunger) return undefined;
+
+  let nearest: { position: Vector3D; distance: number } | undefined;
+  for (const other of context.allAgents) {
+    if (!isPreyOf(agent, other)) continue;
+    const distance = groundDistance(agent.position, other.position);
+    if (distance <= agent.perceptionRadius || distance > simulationConfig.agents.predation.scentRadius) continue;
+    if (!nearest || distance < nearest.distance) {
+      nearest = { position: { ...other.position }, distance };
+    }
+  }
+  return nearest && { position: nearest.position, value: hunger * 0.9 };
+}
+
+// Hungry agent of its own kind within reach the agent would most like to feed, with that wish (0-1):
+// kin and friends first, and only from energy the agent can spare
+function neediestKin(context: ActionContext) {
+  const { agent } = context;
+  const { needThreshold, donorReserve } = simulationConfig.agents.cooperation;
+  if (agent.energy <= donorReserve) return undefined;
+
+  let best: { proximity: ProximityData; value: number } | undefined;
+  for (const proximity of agent.sensorValues.proximity) {
+    if (proximity.type !== 'agent' || !inReach(proximity) || isRival(agent, proximity.id)) continue;
+    const other = context.allAgents.find(a => a.id === proximity.id);
+    if (!other || other.trophicLevel !== agent.trophicLevel) continue;
+    const need = needUrgency(other, 'hunger');
+    if (need * 100 < needThreshold) continue;
+
+    const value = need * (1 + 2 * kinship(agent, other) + Math.max(0, affinity(agent, other.id)));
+    if (!best || value > best.value) {
+      best = { proximity, value };
+    }
+  }
+  return best;
+}
+
+// Whether the agent distrusts another agent enough to keep away from it
+function isRival(agent: Agent, otherId: string): boolean {
+  const relationship = relationshipWith(agent, otherId);
+  return relationship !== undefined && relationship.trust <= simulationConfig.agents.relationships.rivalTrust;
+}
+
+// Agent out of reach the agent likes best, the nearest one among equals; rivals are left alone
+function closestFriend(context: ActionContext): ProximityData | undefined {
+  const { agent } = context;
+  let best: { proximity: ProximityData; liking: number } | undefined;
+  for (const proximity of agent.sensorValues.proximity) {
+    if (proximity.type !== 'agent' || inReach(proximity) || !sameKind(context, proximity)) continue;
+    if (isRival(agent, proximity.id)) continue;
+    const liking = affinity(agent, proximity.id);
+    if (!best || liking > best.liking || (liking === best.liking && proximity.distance < best.proximity.distance)) {
+      best = { proximity, liking };
+    }
+  }
+  return best?.proximity;
+}
+
+// Most valuable remembered resource place out of sight (places in sight are judged by the eyes)
+function rememberedResource(context: ActionContext) {
+  const { agent } = context;
+  let best: { memory: LongTermMemory; value: number } | undefined;
+  for (const memory of agent.longTermMemory) {
+    if (!canEat(agent, memory.resourceType)) continue;
+    if (groundDistance(agent.position, memory.position) <= agent.perceptionRadius) continue;
+    const value = resourceValue(context, memory.resourceType) * (0.6 + 0.3 * memory.strength);
+    if (!best || value > best.value) {
+      best = { memory, value };
+    }
+  }
+  return best;
+}
+
+// Strength of the agent's memory of where a resource type is, if the place is out of sight
+function recalledStrength(agent: Agent, type: Resource['type']): number {
+  const memory = recallResource(agent, type);
+  return memory && groundDistance(agent.position, memory.position) > agent.perceptionRadius ? memory.strength : 0;
+}
+
+const defaultScorers: ActionScorer[] = [
+  {
+    // Eat, drink or bask in a resource within reach, or attack prey within reach
+    action: 'consume',
+    score: (context) => {
+      const options = [bestResource(context, true), bestPrey(context, true)]
+        .filter(option => option !== undefined);
+      if (options.length === 0) return null;
+      const best = options.reduce((a, b) => b.value > a.value ? b : a);
+      return { score: best.value, targetId: best.proximity.id };
+    }
+  },
+  {
+    // Walk towards a resource, prey, a mate or company
+    action: 'approach',
+    score: (context) => {
+      const { agent } = context;
+      const options: ActionScore[] = [];
+
+      const resource = bestResource(context, false);
+      if (resource) {
+        options.push({ score: resource.value * 0.9, targetId: resource.proximity.id });
+      }
+
+      const prey = bestPrey(context, false);
+      if (prey) {
+        options.push({ score: prey.value * 0.9, targetId: prey.proximity.id });
+      }
+
+      // Prey out of sight is followed by its scent
+      const trail = prey ? undefined : preyTrail(context);
+      if (trail) {
+        options.push({ score: trail.value, targetPosition: trail.position });
+      }
+
+      // Remembered places are only worth the walk when nothing is in sight
+      const remembered = resource ? undefined : rememberedResource(context);
+      if (remembered) {
+        options.push({ score: remembered.value, targetPosition: remembered.memory.position });
+      }
+
+      const partner = readyPartner(context);
+      if (partner && !inReach(partner)) {
+        options.push({ score: 0.8, targetId: partner.id });
+      }
+
+      // Company: the best-liked agent in sight, friends and kin more than strangers
+      const other = closestFriend(context);
+      if (other) {
+        const liking = Math.max(0, affinity(agent, other.id));
+        options.push({
+          score: (agent.traits.socialAffinity * 0.4 + liking * 0.3) * (1 - maxUrgency(agent)),
+          targetId: other.id
+        });
+      }
+
+      if (options.length === 0) return null;
+      return options.reduce((a, b) => b.score > a.score ? b : a);
+    }
+  },
+  {
+    // Mate with a ready partner within reach
+    action: 'reproduce',
+    score: (context) => {
+      const partner = readyPartner(context);
+      if (!partner || !inReach(partner)) return null;
+      return { score: 0.9 * (1 - maxUrgency(context.agent) * 0.5), targetId: partner.id };
+    }
+  },
+  {
+    // Talk to an agent within reach, less so to one we just talked to
+    action: 'communicate',
+    score: (context) => {
+      const { agent } = context;
+      const other = nearestPerceived(agent, p => p.type === 'agent' && inReach(p) && sameKind(context, p));
+      if (!other) return null;
+
+      const novelty = recentlyInteracted(context, 'communicate', other.id) ? 0.4 : 1;
+      return {
+        score: agent.traits.socialAffinity * 0.6 * novelty * (1 - maxUrgency(agent)),
+        targetId: other.id
+      };
+    }
+  },
+  {
+    // Give food to a hungry agent within reach, as far as the agent is altruistic
+    action: 'share',
+    score: (context) => {
+      const { agent } = context;
+      const recipient = neediestKin(context);
+      if (!recipient) return null;
+      return {
+        score: agent.altruism * recipient.value * (1 - maxUrgency(agent) * 0.5),
+        targetId: recipient.proximity.id
+      };
+    }
+  },
+  {
+    // Search the world; pressing needs with nothing in sight (or in memory) make searching worthwhile
+    action: 'explore',
+    score: (context) => {
+      const { agent } = context;
+      const need = mostUrgentNeed(agent);
+      const hunting = need === 'hunger' && huntsAgents(agent);
+      const wantedInSight = need !== null && (hunting
+        ? bestPrey(context, false) !== undefined || bestPrey(context, true) !== undefined || preyTrail(context) !== undefined
+        : nearestPerceived(
+          agent,
+          p => p.type === 'resource' && resourceType(context, p) === NEED_RESOURCES[need]
+        ) !== undefined);
+
+      const search = need !== null && need !== 'fatigue' && !wantedInSight
+        ? needUrgency(agent, need) * 0.9 * (1 - recalledStrength(agent, NEED_RESOURCES[need]))
+        : 0;
+      return { score: Math.max(search, agent.traits.curiosity * 0.3 + agent.traits.exploration * 0.2) };
+    }
+  },
+  {
+    // Aimless wandering
+    action: 'move',
+    score: () => ({ score: 0.15 })
+  },
+  {
+    // Flee from hunters, step away from rivals, and from crowds unless the agent enjoys company
+    action: 'avoid',
+    score: (context) => {
+      const { agent } = context;
+      const options: ActionScore[] = [];
+
+      // The closer a hunter, the more urgent the escape
+      const threat = nearestPerceived(agent, p => p.type === 'agent' && p.threat === true);
+      if (threat) {
+        const { threatFlee } = simulationConfig.agents.predation;
+        const closeness = 1 - threat.distance / agent.perceptionRadius;
+        options.push({ score: threatFlee + (1 - threatFlee) * closeness, targetId: threat.id });
+      }
+
+      const crowd = agent.sensorValues.proximity.filter(p => p.type === 'agent' && inReach(p) && sameKind(context, p));
+      if (crowd.length >= simulationConfig.agents.utility.crowdSize) {
+        const nearest = nearestPerceived(agent, p => p.type === 'agent');
+        options.push({ score: (1 - agent.traits.socialAffinity) * 0.6, targetId: nearest?.id });
+      }
+
+      const rival = nearestPerceived(agent, p => p.type === 'agent' && isRival(agent, p.id));
+      if (rival) {
+        options.push({ score: -relationshipWith(agent, rival.id)!.trust * 0.7, targetId: rival.id });
+      }
+
+      if (options.length === 0) return null;
+      return options.reduce((a, b) => b.score > a.score ? b : a);
+    }
+  },
+  {
+    // Rest, more appealing when tired and in a bright spot
+    action: 'idle',
+    score: (context) => {
+      const { agent } = context;
+      const light = agent.sensorValues.resourceLevels.light;
+      return { score: 0.1 + needUrgency(agent, 'fatigue') * (0.5 + 0.5 * light) };
+    }
+  }
+];
+
+defaultScorers.forEach(registerActionScorer);
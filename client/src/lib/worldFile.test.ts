@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationEngine } from './simulationEngine';
+import { initializeWorld } from './worldResources';
+import { createWorldFile, parseWorldFile, worldFileName } from './worldFile';
+
+describe('world files', () => {
+  it('round-trip a running world through JSON', () => {
+    let world = initializeWorld(42);
+    for (let i = 0; i < 100; i++) {
+      world = SimulationEngine.step(world, 0.5).world;
+    }
+    const timeline = [{
+      id: 'event-1',
+      timestamp: world.time,
+      title: 'Test',
+      description: 'A test event',
+      type: 'population' as const,
+      significance: 0.5
+    }];
+
+    const imported = parseWorldFile(JSON.parse(JSON.stringify(createWorldFile(' Eden ', world, timeline))));
+
+    expect(imported.name).toBe('Eden');
+    expect(imported.world).toEqual(world);
+    expect(imported.timeline).toEqual(timeline);
+  });
+
+  it('reject files that are not world files', () => {
+    expect(() => parseWorldFile({ format: 'something-else' })).toThrow(/Not a world file/);
+  });
+
+  it('reject worlds with invalid agents', () => {
+    const file = JSON.parse(JSON.stringify(createWorldFile('Eden', initializeWorld(42), [])));
+    file.world.agents[0].energy = 'full';
+    expect(() => parseWorldFile(file)).toThrow(/Invalid world: agents\.0\.energy/);
+  });
+
+  it('suggest a file name from the world name', () => {
+    expect(worldFileName('My First World!')).toBe('my-first-world.genesis.json');
+  });
+});
@@ -0,0 +1,72 @@
+import { WorldState, TimelineEvent } from './types';
+import { createWorldSnapshot, restoreWorldSnapshot, WorldSnapshot } from './worldSnapshot';
+
+/**
+ * Portable JSON file format for sharing worlds.
+ *
+ * A world file is a versioned world snapshot plus a format marker and a
+ * name. Imports run through the snapshot migrations first and are then
+ * validated against the current world schema (`worldSchema.ts`), so files
+ * written by older versions keep working while broken or foreign JSON is
+ * rejected with a readable message.
+ */
+export const WORLD_FILE_FORMAT = 'genesis-world';
+
+export interface WorldFile extends WorldSnapshot {
+  format: typeof WORLD_FILE_FORMAT;
+  name: string;
+  exportedAt: string;
+}
+
+export interface ImportedWorld {
+  name: string;
+  world: WorldState;
+  timeline: TimelineEvent[];
+}
+
+/**
+ * Create a portable world file of the given world
+ */
+export function createWorldFile(name: string, world: WorldState, timeline: TimelineEvent[]): WorldFile {
+  return {
+    format: WORLD_FILE_FORMAT,
+    name,
+    exportedAt: new Date().toISOString(),
+    ...createWorldSnapshot(world, timeline)
+  };
+}
+
+/**
+ * Parse and validate a world file; throws an Error describing the first problems found
+ */
+export function parseWorldFile(data: unknown): ImportedWorld {
+  if (!data || typeof data !== 'object') {
+    throw new Error('World file is not a JSON object');
+  }
+
+  const file = data as Partial<WorldFile>;
+  if (file.format !== WORLD_FILE_FORMAT) {
+    throw new Error(`Not a world file (expected format "${WORLD_FILE_FORMAT}")`);
+  }
+
+  // Older files are upgraded and checked against the current schema
+  const { world, timeline } = restoreWorldSnapshot(data);
+
+  if (world.cellGrid.length === 0) {
+    throw new Error('Invalid world: the cell grid is empty');
+  }
+
+  return {
+    name: typeof file.name === 'string' && file.name.trim() ? file.name.trim() : 'Imported world',
+    world,
+    timeline
+  };
+}
+
+/**
+ * Suggested file name for a downloaded world
+ */
+export function worldFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'world'}.genesis.json`;
+}
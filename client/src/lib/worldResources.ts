@@ -1,11 +1,25 @@
-import { v4 as uuidv4 } from 'uuid';
-import { WorldState, Resource, Cell, EnvironmentalParameters } from './types';
+import { WorldState, WorldSettings, Resource, Cell, EnvironmentalParameters } from './types';
 import { createInitialAgents } from './agentBehavior';
+import { createRandom, randomSeed, Random } from './random';
+import { updateSpecies } from './speciation';
+import { recordPopulationSample } from './consciousnessHistory';
+import { recordTrophicCensus, trophicCounts } from './predation';
+import { matingTypeCounts } from './matingTypes';
+import { reproducesAsexually } from './budding';
+import { emptyCooperationTally } from './cooperation';
+import { simulationConfig } from '../config/simulationConfig';
 
 /**
- * Initialize the world state
+ * Initialize the world state.
+ * Worlds created from the same seed are identical and evolve identically.
  */
-export function initializeWorld(): WorldState {
+export function initializeWorld(
+  seed: number = randomSeed(),
+  settings: Partial<WorldSettings> = {}
+): WorldState {
+  const rng = createRandom(seed);
+  const worldSettings: WorldSettings = { ...simulationConfig.world.defaultSettings, ...settings };
+  
   // Create a grid of cells
   const gridSize = 10; // 10x10 grid
   const cellGrid: Cell[][] = [];
@@ -21,23 +35,23 @@ export function initializeWorld(): WorldState {
       cellGrid[x][z] = {
         position: { x: worldX, y: 0, z: worldZ },
         resources: {
-          food: Math.random() * 0.7 + 0.3, // 0.3-1.0
-          water: Math.random() * 0.7 + 0.3,
-          light: Math.random() * 0.7 + 0.3
+          food: rng.next() * 0.7 + 0.3, // 0.3-1.0
+          water: rng.next() * 0.7 + 0.3,
+          light: rng.next() * 0.7 + 0.3
         },
         occupied: false,
         temperature: 0.5, // Neutral temperature
-        elevation: Math.random(),
+        elevation: rng.next(),
         occupants: []
       };
     }
   }
   
   // Create initial resources
-  const resources: Resource[] = generateInitialResources();
+  const resources: Resource[] = generateInitialResources(rng);
   
-  // Create initial agents
-  const agents = createInitialAgents();
+  // Create initial agents and their founding species
+  const { agents, species } = updateSpecies(createInitialAgents(worldSettings, rng), [], 0, 0, rng);
   
   // Calculate resource distribution for the agents' cells
   placeResourcesInCells(resources, cellGrid);
@@ -65,33 +79,58 @@ export function initializeWorld(): WorldState {
       averageLifespan: 0,
       totalGenerations: 1,
       languageComplexity: 0,
+      vocabularySize: 0,
+      languageAgreement: 0,
       socialComplexity: 0,
+      clusteringCoefficient: 0,
+      modularity: 0,
+      groupCount: 0,
+      meanGroupSize: 0,
+      meanGroupLifetime: 0,
       resourceConsumption: 0,
-      speciesCount: 1
+      speciesCount: 1,
+      populationByTrophicLevel: trophicCounts(agents),
+      matingSuccessVariance: 0,
+      matingTypeCounts: matingTypeCounts(agents, worldSettings.matingTypes),
+      sexRatio: 1,
+      asexualShare: agents.filter(agent => reproducesAsexually(agent, worldSettings)).length / agents.length,
+      averageAltruism: agents.reduce((sum, agent) => sum + agent.altruism, 0) / agents.length,
+      cooperationRate: 0,
+      cooperation: emptyCooperationTally(),
+      consciousnessByModel: {},
+      averageNeeds: { hunger: 0, thirst: 0, fatigue: 0 },
+      deathsByCause: { starvation: 0, dehydration: 0, exhaustion: 0, oldAge: 0, predation: 0 }
     },
     cellGrid,
     timeElapsed: 0,
-    dayNightCycle: 0
+    dayNightCycle: 0,
+    seed,
+    rngState: rng.getState(),
+    settings: worldSettings,
+    species,
+    consciousnessHistory: recordPopulationSample([], agents, 0, 0),
+    groups: [],
+    trophicHistory: recordTrophicCensus([], agents, 0, 0)
   };
 }
 
 /**
  * Generate initial resources in the world
  */
-function generateInitialResources(): Resource[] {
+function generateInitialResources(rng: Random): Resource[] {
   const resources: Resource[] = [];
   
   // Food resources (25)
   for (let i = 0; i < 25; i++) {
     resources.push({
-      id: uuidv4(),
+      id: rng.id(),
       type: 'food',
       position: {
-        x: Math.random() * 100 - 50, // -50 to 50
+        x: rng.next() * 100 - 50, // -50 to 50
         y: 0,
-        z: Math.random() * 100 - 50
+        z: rng.next() * 100 - 50
       },
-      amount: Math.random() * 50 + 50, // 50-100 units
+      amount: rng.next() * 50 + 50, // 50-100 units
       regenerationRate: 0.01,
       lastRegeneration: 0
     });
@@ -100,28 +139,46 @@ function generateInitialResources(): Resource[] {
   // Water resources (15)
   for (let i = 0; i < 15; i++) {
     resources.push({
-      id: uuidv4(),
+      id: rng.id(),
       type: 'water',
       position: {
-        x: Math.random() * 100 - 50,
+        x: rng.next() * 100 - 50,
         y: 0,
-        z: Math.random() * 100 - 50
+        z: rng.next() * 100 - 50
       },
-      amount: Math.random() * 80 + 70, // 70-150 units
+      amount: rng.next() * 80 + 70, // 70-150 units
       regenerationRate: 0.02,
       lastRegeneration: 0
     });
   }
   
+  // Large food resources (5) - too much for one agent, harvested together
+  const { largeFoodCount, largeFoodAmount, harvesters } = simulationConfig.agents.cooperation;
+  for (let i = 0; i < largeFoodCount; i++) {
+    resources.push({
+      id: rng.id(),
+      type: 'food',
+      position: {
+        x: rng.next() * 100 - 50,
+        y: 0,
+        z: rng.next() * 100 - 50
+      },
+      amount: largeFoodAmount,
+      regenerationRate: 0.02,
+      lastRegeneration: 0,
+      harvesters
+    });
+  }
+  
   // Light resources (10) - represent sunlight areas
   for (let i = 0; i < 10; i++) {
     resources.push({
-      id: uuidv4(),
+      id: rng.id(),
       type: 'light',
       position: {
-        x: Math.random() * 100 - 50,
+        x: rng.next() * 100 - 50,
         y: 10, // Above the ground
-        z: Math.random() * 100 - 50
+        z: rng.next() * 100 - 50
       },
       amount: 100, // Constant light
       regenerationRate: 0,
@@ -187,21 +244,36 @@ function placeResourcesInCells(resources: Resource[], cellGrid: Cell[][]): void
 }
 
 /**
- * Update resource levels based on time passage and environmental parameters
+ * Update resource levels based on time passage and environmental parameters.
+ * Weather scales regrowth (droughts dry up water sources) and water
+ * additionally follows the world's water availability.
  */
 export function updateResourceLevels(
   resources: Resource[],
-  deltaTime: number
+  deltaTime: number,
+  environmentalParameters?: EnvironmentalParameters
 ): Resource[] {
+  const weather = environmentalParameters
+    ? simulationConfig.environment.weatherImpacts[environmentalParameters.weatherCondition]
+    : { food: 1, water: 1, light: 1 };
+  const availability = environmentalParameters
+    ? {
+        food: 1,
+        water: environmentalParameters.waterAvailability / simulationConfig.environment.defaultParameters.waterAvailability,
+        light: 1
+      }
+    : { food: 1, water: 1, light: 1 };
+
   return resources.map(resource => {
-    // Skip light resources
-    if (resource.type === 'light') return resource;
+    // Skip light resources (still copied, agents consume from the returned list)
+    if (resource.type === 'light') return { ...resource };
     
     // Time since last regeneration
     const timeSinceRegen = deltaTime;
     
     // Calculate regeneration amount
-    const regenAmount = resource.regenerationRate * timeSinceRegen;
+    const regenAmount = resource.regenerationRate * timeSinceRegen
+      * weather[resource.type] * availability[resource.type];
     
     // Apply regeneration
     return {
@@ -0,0 +1,320 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas of the current world state.
+ *
+ * Restored snapshots, imported world files and worlds sent to the server are
+ * checked against them after the snapshot migrations ran. Objects pass
+ * unknown keys through so that fields added by newer versions of an agent or
+ * world are not silently dropped.
+ */
+const vector3DSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number()
+});
+
+const needsSchema = z.object({
+  hunger: z.number().min(0).max(100),
+  thirst: z.number().min(0).max(100),
+  fatigue: z.number().min(0).max(100)
+});
+
+const genomeSchema = z.object({
+  genes: z.array(z.object({
+    locus: z.string(),
+    alleles: z.tuple([
+      z.object({ value: z.number().min(0).max(1), dominant: z.boolean() }),
+      z.object({ value: z.number().min(0).max(1), dominant: z.boolean() })
+    ])
+  }))
+});
+
+const speciesSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  founderId: z.string(),
+  parentSpeciesId: z.string().optional(),
+  representative: genomeSchema,
+  originTime: z.number(),
+  extinctionTime: z.number().optional(),
+  population: z.number().int().min(0),
+  history: z.array(z.object({
+    time: z.number(),
+    population: z.number().int().min(0)
+  }))
+}).passthrough();
+
+const trophicLevelSchema = z.enum(['herbivore', 'predator', 'apex']);
+
+const trophicCountsSchema = z.object({
+  herbivore: z.number().int().nonnegative(),
+  predator: z.number().int().nonnegative(),
+  apex: z.number().int().nonnegative()
+});
+
+const agentGroupSchema = z.object({
+  id: z.string().min(1),
+  memberIds: z.array(z.string()),
+  formedAt: z.number()
+}).passthrough();
+
+const consciousnessSampleSchema = z.object({
+  time: z.number(),
+  integration: z.number(),
+  selfModeling: z.number(),
+  decisionFreedom: z.number(),
+  value: z.number()
+}).passthrough();
+
+const brainSchema = z.object({
+  inputSize: z.number().int().positive(),
+  hiddenSize: z.number().int().positive(),
+  outputSize: z.number().int().positive(),
+  recurrent: z.boolean(),
+  inputWeights: z.array(z.number()),
+  recurrentWeights: z.array(z.number()),
+  hiddenBias: z.array(z.number()),
+  outputWeights: z.array(z.number()),
+  outputBias: z.array(z.number())
+}).refine(
+  brain =>
+    brain.inputWeights.length === brain.hiddenSize * brain.inputSize &&
+    brain.recurrentWeights.length === (brain.recurrent ? brain.hiddenSize * brain.hiddenSize : 0) &&
+    brain.hiddenBias.length === brain.hiddenSize &&
+    brain.outputWeights.length === brain.outputSize * brain.hiddenSize &&
+    brain.outputBias.length === brain.outputSize,
+  { message: 'Brain weights do not match its layer sizes' }
+);
+
+const agentSchema = z.object({
+  id: z.string().min(1),
+  position: vector3DSchema,
+  rotation: vector3DSchema,
+  velocity: vector3DSchema,
+  scale: z.number(),
+  color: z.string(),
+  energy: z.number(),
+  age: z.number(),
+  lifespan: z.number(),
+  generation: z.number().int(),
+  perceptionRadius: z.number(),
+  movementSpeed: z.number(),
+  sensorValues: z.object({
+    visualInput: z.array(z.any()),
+    auditoryInput: z.array(z.any()),
+    tactileInput: z.array(z.any()),
+    proximity: z.array(z.any()),
+    resourceLevels: z.object({
+      light: z.number(),
+      food: z.number(),
+      water: z.number()
+    })
+  }).passthrough(),
+  memory: z.array(z.object({
+    timestamp: z.number(),
+    type: z.enum(['encounter', 'action', 'feedback', 'observation']),
+    data: z.any(),
+    intensity: z.number(),
+    consolidated: z.boolean().optional()
+  }).passthrough()),
+  longTermMemory: z.array(z.object({
+    resourceType: z.enum(['food', 'water', 'light']),
+    position: vector3DSchema,
+    strength: z.number().min(0).max(1),
+    experiences: z.number().int().positive(),
+    lastReinforced: z.number()
+  }).passthrough()),
+  relationships: z.array(z.object({
+    agentId: z.string(),
+    familiarity: z.number().min(0).max(1),
+    trust: z.number().min(-1).max(1),
+    kinship: z.number().min(0).max(1),
+    lastInteraction: z.number()
+  }).passthrough()),
+  lexicon: z.array(z.object({
+    referent: z.enum(['food', 'water', 'light', 'danger', 'mate']),
+    signal: z.string().min(1),
+    score: z.number().min(0).max(1)
+  }).passthrough()),
+  reproductionThreshold: z.number(),
+  mutationRate: z.number(),
+  consciousnessValue: z.number(),
+  lastReproductionTime: z.number(),
+  lastAction: z.enum(['move', 'explore', 'approach', 'avoid', 'consume', 'reproduce', 'communicate', 'share', 'idle']),
+  reproductionCooldown: z.number(),
+  traits: z.object({
+    curiosity: z.number(),
+    socialAffinity: z.number(),
+    resourceAffinity: z.number(),
+    exploration: z.number(),
+    adaptability: z.number()
+  }).passthrough(),
+  needs: needsSchema,
+  matePreferences: z.object({
+    colorSimilarity: z.number(),
+    consciousness: z.number(),
+    complementarity: z.number(),
+    choosiness: z.number()
+  }).passthrough(),
+  offspringCount: z.number().int().nonnegative(),
+  matingType: z.number().int().nonnegative(),
+  asexuality: z.number().min(0).max(1),
+  altruism: z.number().min(0).max(1),
+  parentIds: z.array(z.string()),
+  speciesId: z.string(),
+  trophicLevel: trophicLevelSchema,
+  genome: genomeSchema,
+  brain: brainSchema,
+  brainState: z.array(z.number()),
+  targetId: z.string().optional(),
+  targetPosition: vector3DSchema.optional(),
+  actionScores: z.record(z.number()).optional(),
+  consciousnessScores: z.record(z.number()).optional(),
+  phi: z.object({
+    value: z.number().nonnegative(),
+    normalized: z.number().min(0).max(1),
+    partition: z.array(z.number().int()),
+    time: z.number()
+  }).optional(),
+  consciousnessHistory: z.array(consciousnessSampleSchema)
+}).passthrough();
+
+const resourceSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['food', 'water', 'light']),
+  position: vector3DSchema,
+  amount: z.number(),
+  regenerationRate: z.number(),
+  lastRegeneration: z.number(),
+  harvesters: z.number().int().positive().optional()
+}).passthrough();
+
+const cellSchema = z.object({
+  position: vector3DSchema,
+  resources: z.object({
+    food: z.number(),
+    water: z.number(),
+    light: z.number()
+  }),
+  occupied: z.boolean(),
+  temperature: z.number(),
+  elevation: z.number(),
+  occupants: z.array(z.string())
+}).passthrough();
+
+const environmentalParametersSchema = z.object({
+  temperature: z.number(),
+  lightLevel: z.number(),
+  resourceAbundance: z.number(),
+  resourceDistribution: z.number(),
+  foodGrowthRate: z.number(),
+  waterAvailability: z.number(),
+  weatherCondition: z.enum(['clear', 'rain', 'storm', 'drought']),
+  catastropheChance: z.number()
+}).passthrough();
+
+const worldEventSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  timestamp: z.number(),
+  duration: z.number(),
+  affectedAgents: z.array(z.string()),
+  description: z.string(),
+  cause: z.enum(['starvation', 'dehydration', 'exhaustion', 'oldAge', 'predation']).optional()
+}).passthrough();
+
+const statisticsSchema = z.object({
+  populationSize: z.number(),
+  averageConsciousness: z.number(),
+  maxConsciousness: z.number(),
+  averageLifespan: z.number(),
+  totalGenerations: z.number(),
+  languageComplexity: z.number(),
+  vocabularySize: z.number().nonnegative(),
+  languageAgreement: z.number().min(0).max(1),
+  socialComplexity: z.number(),
+  clusteringCoefficient: z.number().min(0).max(1),
+  modularity: z.number(),
+  groupCount: z.number().int().nonnegative(),
+  meanGroupSize: z.number().nonnegative(),
+  meanGroupLifetime: z.number().nonnegative(),
+  resourceConsumption: z.number(),
+  speciesCount: z.number(),
+  populationByTrophicLevel: trophicCountsSchema,
+  matingSuccessVariance: z.number().nonnegative(),
+  matingTypeCounts: z.array(z.number().int().nonnegative()),
+  sexRatio: z.number().min(0).max(1),
+  asexualShare: z.number().min(0).max(1),
+  averageAltruism: z.number().min(0).max(1),
+  cooperationRate: z.number().min(0).max(1),
+  cooperation: z.object({
+    gifts: z.number().int().nonnegative(),
+    kinGifts: z.number().int().nonnegative(),
+    hamiltonSatisfied: z.number().int().nonnegative(),
+    relatedness: z.number().nonnegative(),
+    benefit: z.number().nonnegative(),
+    cost: z.number().nonnegative(),
+    energyShared: z.number().nonnegative(),
+    cooperativeHarvests: z.number().int().nonnegative()
+  }),
+  consciousnessByModel: z.record(z.number()),
+  averageNeeds: needsSchema,
+  deathsByCause: z.object({
+    starvation: z.number().int(),
+    dehydration: z.number().int(),
+    exhaustion: z.number().int(),
+    oldAge: z.number().int(),
+    predation: z.number().int()
+  })
+}).passthrough();
+
+export const worldSettingsSchema = z.object({
+  controller: z.enum(['utility', 'neural']),
+  matingTypes: z.number().int().min(0),
+  reproductionMode: z.enum(['sexual', 'asexual', 'heritable']),
+  consciousnessModel: z.enum(['product', 'weightedSum', 'globalWorkspace', 'partition']),
+  compareConsciousnessModels: z.boolean()
+});
+
+export const worldStateSchema = z.object({
+  time: z.number(),
+  timeScale: z.number(),
+  resources: z.array(resourceSchema),
+  agents: z.array(agentSchema),
+  environmentalParameters: environmentalParametersSchema,
+  events: z.array(worldEventSchema),
+  statistics: statisticsSchema,
+  cellGrid: z.array(z.array(cellSchema)),
+  timeElapsed: z.number(),
+  dayNightCycle: z.number(),
+  seed: z.number().int(),
+  rngState: z.number().int(),
+  settings: worldSettingsSchema.passthrough(),
+  species: z.array(speciesSchema),
+  consciousnessHistory: z.array(consciousnessSampleSchema),
+  groups: z.array(agentGroupSchema),
+  trophicHistory: z.array(trophicCountsSchema.extend({ time: z.number() }))
+}).passthrough().refine(
+  world => world.agents.every(agent => agent.matingType < Math.max(1, world.settings.matingTypes)),
+  { message: 'Agent mating type is not one of the world\'s mating types' }
+);
+
+export const timelineEventSchema = z.object({
+  id: z.string(),
+  timestamp: z.number(),
+  title: z.string(),
+  description: z.string(),
+  type: z.enum(['language', 'social', 'technological', 'extinction', 'population', 'mutation']),
+  significance: z.number()
+}).passthrough();
+
+/**
+ * Summarize the first few validation issues with their paths
+ */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
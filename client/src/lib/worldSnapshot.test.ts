@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationEngine } from './simulationEngine';
+import { initializeWorld } from './worldResources';
+import { createWorldSnapshot, restoreWorldSnapshot, WORLD_SNAPSHOT_VERSION } from './worldSnapshot';
+import { reproductionThreshold } from './consciousness';
+import { WorldState } from './types';
+
+function run(world: WorldState, steps: number): WorldState {
+  for (let i = 0; i < steps; i++) {
+    world = SimulationEngine.step(world, 0.5).world;
+  }
+  return world;
+}
+
+describe('world snapshots', () => {
+  it('continue a run exactly where it stopped', () => {
+    const world = run(initializeWorld(42), 100);
+    const stored = JSON.parse(JSON.stringify(createWorldSnapshot(world, [])));
+    const { world: restored } = restoreWorldSnapshot(stored);
+
+    expect(restored).toEqual(world);
+    expect(run(restored, 50)).toEqual(run(world, 50));
+  });
+
+  it('upgrade a bare world state of version 0', () => {
+    const world = initializeWorld(42);
+    const { world: restored } = restoreWorldSnapshot({ ...world, rngState: undefined });
+
+    expect(restored.rngState).toBe(world.seed);
+    expect(restored.agents.map(agent => agent.id)).toEqual(world.agents.map(agent => agent.id));
+    expect(() => SimulationEngine.step(restored, 0.5)).not.toThrow();
+  });
+
+  it('give agents of version 18 the reproduction threshold of their model', () => {
+    const world = initializeWorld(42, { consciousnessModel: 'partition' });
+    const agents = world.agents.map(agent => ({ ...agent, reproductionThreshold: 70 }));
+    const { world: restored } = restoreWorldSnapshot({ version: 18, world: { ...world, agents }, timeline: [], elapsedYears: 0 });
+    restored.agents.forEach(agent => {
+      expect(agent.reproductionThreshold).toBe(reproductionThreshold('partition'));
+    });
+  });
+
+  it('reject worlds that do not match the current schema after upgrading', () => {
+    const world = initializeWorld(42);
+    const snapshot = createWorldSnapshot(world, []);
+    const agents = world.agents.map(agent => ({ ...agent, energy: 'full' }));
+
+    expect(() => restoreWorldSnapshot({ ...snapshot, world: { ...world, agents } })).toThrow(/Invalid world: agents\.0\.energy/);
+    expect(() => restoreWorldSnapshot({ version: 17, world: { ...world, resources: undefined } })).toThrow(/Invalid world: resources/);
+    expect(() => restoreWorldSnapshot({ ...snapshot, timeline: [{ id: 'event-1' }] })).toThrow(/Invalid timeline/);
+    expect(() => restoreWorldSnapshot([])).toThrow(/not an object/);
+  });
+
+  it('reject snapshots from a newer version', () => {
+    const snapshot = createWorldSnapshot(initializeWorld(42), []);
+    expect(() => restoreWorldSnapshot({ ...snapshot, version: WORLD_SNAPSHOT_VERSION + 1 })).toThrow(/newer/);
+  });
+});
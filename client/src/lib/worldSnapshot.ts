@@ -0,0 +1,479 @@
+import { z } from 'zod';
+import { Agent, ConsciousnessModelId, Memory, Species, TimelineEvent, WorldState } from './types';
+import { simulationConfig } from '../config/simulationConfig';
+import { createRandom } from './random';
+import { createBrain } from './neuralBrain';
+import { completeGenome, genomeFromPhenotype, GenomePhenotype } from './genome';
+import { matingSuccessVariance } from './mateChoice';
+import { updateSpecies } from './speciation';
+import { birthParents } from './lineage';
+import { trophicCounts } from './predation';
+import { emptyCooperationTally } from './cooperation';
+import { CONSCIOUSNESS_MODELS, reproductionThreshold } from './consciousness';
+import { formatIssues, timelineEventSchema, worldStateSchema } from './worldSchema';
+
+/**
+ * Versioned snapshot format for complete world states.
+ *
+ * A snapshot round-trips everything the engine needs to continue a run
+ * exactly where it stopped: agents with memories and sensor values,
+ * resources, the cell grid, events, statistics, the PRNG state and the
+ * timeline. Bump WORLD_SNAPSHOT_VERSION whenever WorldState changes shape
+ * and add a migration from the previous version. Migrations only see loosely
+ * typed records; the upgraded world is checked against the current schema.
+ */
+export const WORLD_SNAPSHOT_VERSION = 19;
+
+export interface WorldSnapshot {
+  version: number;
+  world: WorldState;
+  timeline: TimelineEvent[];
+  elapsedYears: number;
+}
+
+export interface RestoredWorld {
+  world: WorldState;
+  timeline: TimelineEvent[];
+  elapsedYears: number;
+}
+
+// Loosely typed object of a snapshot written by an older version
+type Fields = Record<string, unknown>;
+
+// A snapshot on its way through the migrations (a bare world state is version 0)
+interface MigratingSnapshot extends Fields {
+  version: number;
+  world: Fields;
+}
+
+// Upgrades a snapshot of version N to version N + 1
+type SnapshotMigration = (snapshot: MigratingSnapshot) => MigratingSnapshot;
+
+// The object a field holds, or an empty one
+function fields(value: unknown): Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Fields : {};
+}
+
+// The objects of a list field, or none
+function fieldList(value: unknown): Fields[] {
+  return Array.isArray(value) ? value.map(fields) : [];
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+// Older records passed to the engine's helpers, which only read fields the
+// migrations have already filled in; the final world is checked by the schema
+function asShape<T>(value: unknown): T {
+  return value as T;
+}
+
+const migrations: Record<number, SnapshotMigration> = {
+  // Version 0: a bare WorldState as sent by older clients
+  0: ({ world }) => ({
+    version: 1,
+    world: {
+      ...world,
+      seed: world.seed ?? 0,
+      rngState: world.rngState ?? world.seed ?? 0
+    },
+    timeline: [],
+    elapsedYears: numberOr(world.timeElapsed, 0) / simulationConfig.time.yearLength
+  }),
+  
+  // Version 1: agents without hunger, thirst and fatigue
+  1: snapshot => ({
+    ...snapshot,
+    version: 2,
+    world: {
+      ...snapshot.world,
+      agents: fieldList(snapshot.world.agents).map(agent => ({
+        ...agent,
+        needs: agent.needs ?? { hunger: 0, thirst: 0, fatigue: 0 }
+      })),
+      statistics: {
+        ...fields(snapshot.world.statistics),
+        averageNeeds: { hunger: 0, thirst: 0, fatigue: 0 },
+        deathsByCause: { starvation: 0, dehydration: 0, exhaustion: 0, oldAge: 0 }
+      }
+    }
+  }),
+  
+  // Version 2: no world settings and agents without brains
+  2: snapshot => {
+    // Brains are derived from the seed so the migration is deterministic
+    const rng = createRandom(numberOr(snapshot.world.seed, 0));
+    return {
+      ...snapshot,
+      version: 3,
+      world: {
+        ...snapshot.world,
+        settings: { ...simulationConfig.world.defaultSettings, ...fields(snapshot.world.settings) },
+        agents: fieldList(snapshot.world.agents).map(agent => ({
+          ...agent,
+          brain: agent.brain ?? createBrain(rng),
+          brainState: agent.brainState ?? []
+        }))
+      }
+    };
+  },
+  
+  // Version 3: agents without genomes; they become homozygous for their current phenotype
+  3: snapshot => {
+    const rng = createRandom(numberOr(snapshot.world.seed, 0));
+    return {
+      ...snapshot,
+      version: 4,
+      world: {
+        ...snapshot.world,
+        agents: fieldList(snapshot.world.agents).map(agent => ({
+          ...agent,
+          // Mate preferences, asexuality and altruism only became heritable in versions 7, 9 and 17
+          genome: agent.genome ?? genomeFromPhenotype(
+            asShape<GenomePhenotype>({
+              ...agent,
+              matePreferences: simulationConfig.agents.mating.defaultPreferences,
+              asexuality: simulationConfig.agents.reproductionSettings.founderAsexuality,
+              altruism: simulationConfig.agents.cooperation.founderAltruism
+            }),
+            rng
+          )
+        }))
+      }
+    };
+  },
+  
+  // Version 4: no species; the living agents found the first ones
+  4: snapshot => {
+    const rng = createRandom(numberOr(snapshot.world.seed, 0));
+    const time = numberOr(snapshot.world.time, 0);
+    const { agents, species } = updateSpecies(
+      asShape<Agent[]>(fieldList(snapshot.world.agents).map(agent => ({ ...agent, speciesId: agent.speciesId ?? '' }))),
+      asShape<Species[]>(fieldList(snapshot.world.species)),
+      time,
+      time,
+      rng
+    );
+    return {
+      ...snapshot,
+      version: 5,
+      world: {
+        ...snapshot.world,
+        agents,
+        species,
+        statistics: {
+          ...fields(snapshot.world.statistics),
+          speciesCount: new Set(agents.map(agent => agent.speciesId)).size
+        }
+      }
+    };
+  },
+  
+  // Version 5: parents were only known from the (evictable) birth memory
+  5: snapshot => ({
+    ...snapshot,
+    version: 6,
+    world: {
+      ...snapshot.world,
+      agents: fieldList(snapshot.world.agents).map(agent => ({
+        ...agent,
+        parentIds: agent.parentIds ?? birthParents(asShape<Memory[]>(fieldList(agent.memory)))
+      }))
+    }
+  }),
+  
+  // Version 6: no mate choice; agents get the founders' preferences and the offspring they remember
+  6: snapshot => {
+    const rng = createRandom(numberOr(snapshot.world.seed, 0));
+    const agents = fieldList(snapshot.world.agents).map(agent => {
+      const matePreferences = agent.matePreferences ?? { ...simulationConfig.agents.mating.defaultPreferences };
+      return {
+        ...agent,
+        matePreferences,
+        offspringCount: agent.offspringCount ?? fieldList(agent.memory).filter(memory =>
+          memory.type === 'action' && fields(memory.data).action === 'reproduce'
+        ).length,
+        genome: completeGenome(
+          asShape<Agent['genome']>(agent.genome),
+          asShape<GenomePhenotype>({
+            ...agent,
+            matePreferences,
+            asexuality: simulationConfig.agents.reproductionSettings.founderAsexuality,
+            altruism: simulationConfig.agents.cooperation.founderAltruism
+          }),
+          rng
+        )
+      };
+    });
+    return {
+      ...snapshot,
+      version: 7,
+      world: {
+        ...snapshot.world,
+        agents,
+        statistics: {
+          ...fields(snapshot.world.statistics),
+          matingSuccessVariance: matingSuccessVariance(asShape<Agent[]>(agents))
+        }
+      }
+    };
+  },
+  
+  // Version 7: every world was hermaphroditic
+  7: snapshot => ({
+    ...snapshot,
+    version: 8,
+    world: {
+      ...snapshot.world,
+      settings: { matingTypes: 0, ...fields(snapshot.world.settings) },
+      agents: fieldList(snapshot.world.agents).map(agent => ({ ...agent, matingType: agent.matingType ?? 0 })),
+      statistics: { ...fields(snapshot.world.statistics), matingTypeCounts: [], sexRatio: 1 }
+    }
+  }),
+  
+  // Version 8: reproduction was always sexual; agents get the founders' asexuality gene
+  8: snapshot => {
+    const rng = createRandom(numberOr(snapshot.world.seed, 0));
+    const { founderAsexuality } = simulationConfig.agents.reproductionSettings;
+    return {
+      ...snapshot,
+      version: 9,
+      world: {
+        ...snapshot.world,
+        settings: { reproductionMode: 'sexual', ...fields(snapshot.world.settings) },
+        agents: fieldList(snapshot.world.agents).map(agent => {
+          const asexuality = agent.asexuality ?? founderAsexuality;
+          const phenotype = { ...agent, asexuality, altruism: simulationConfig.agents.cooperation.founderAltruism };
+          return {
+            ...agent,
+            asexuality,
+            genome: completeGenome(asShape<Agent['genome']>(agent.genome), asShape<GenomePhenotype>(phenotype), rng)
+          };
+        }),
+        statistics: { ...fields(snapshot.world.statistics), asexualShare: 0 }
+      }
+    };
+  },
+  
+  // Version 9: consciousness always used the product formula
+  9: snapshot => ({
+    ...snapshot,
+    version: 10,
+    world: {
+      ...snapshot.world,
+      settings: { consciousnessModel: 'product', compareConsciousnessModels: false, ...fields(snapshot.world.settings) },
+      statistics: {
+        ...fields(snapshot.world.statistics),
+        consciousnessByModel: { product: fields(snapshot.world.statistics).averageConsciousness ?? 0 }
+      }
+    }
+  }),
+  
+  // Version 10: consciousness components were not recorded; histories start empty
+  10: snapshot => ({
+    ...snapshot,
+    version: 11,
+    world: {
+      ...snapshot.world,
+      agents: fieldList(snapshot.world.agents).map(agent => ({
+        ...agent,
+        consciousnessHistory: agent.consciousnessHistory ?? []
+      })),
+      consciousnessHistory: snapshot.world.consciousnessHistory ?? []
+    }
+  }),
+  
+  // Version 11: memories never faded or consolidated; agents start without long-term memories
+  11: snapshot => ({
+    ...snapshot,
+    version: 12,
+    world: {
+      ...snapshot.world,
+      agents: fieldList(snapshot.world.agents).map(agent => ({
+        ...agent,
+        longTermMemory: agent.longTermMemory ?? []
+      }))
+    }
+  }),
+  
+  // Version 12: no signaling system; agents start without signals and the language proxy is dropped
+  12: snapshot => ({
+    ...snapshot,
+    version: 13,
+    world: {
+      ...snapshot.world,
+      agents: fieldList(snapshot.world.agents).map(agent => ({ ...agent, lexicon: agent.lexicon ?? [] })),
+      statistics: {
+        ...fields(snapshot.world.statistics),
+        languageComplexity: 0,
+        vocabularySize: 0,
+        languageAgreement: 0
+      }
+    }
+  }),
+  
+  // Version 13: agents kept no relationships; the social network starts empty
+  13: snapshot => ({
+    ...snapshot,
+    version: 14,
+    world: {
+      ...snapshot.world,
+      agents: fieldList(snapshot.world.agents).map(agent => ({ ...agent, relationships: agent.relationships ?? [] })),
+      statistics: { ...fields(snapshot.world.statistics), socialComplexity: 0, clusteringCoefficient: 0, modularity: 0 }
+    }
+  }),
+  
+  // Version 14: agents did not flock; groups are detected from the next step on
+  14: snapshot => ({
+    ...snapshot,
+    version: 15,
+    world: {
+      ...snapshot.world,
+      groups: snapshot.world.groups ?? [],
+      statistics: { ...fields(snapshot.world.statistics), groupCount: 0, meanGroupSize: 0, meanGroupLifetime: 0 }
+    }
+  }),
+  
+  // Version 15: every agent was a herbivore and nothing was hunted
+  15: snapshot => {
+    const agents = fieldList(snapshot.world.agents).map(agent => ({
+      ...agent,
+      trophicLevel: agent.trophicLevel ?? 'herbivore'
+    }));
+    const statistics = fields(snapshot.world.statistics);
+    return {
+      ...snapshot,
+      version: 16,
+      world: {
+        ...snapshot.world,
+        agents,
+        trophicHistory: snapshot.world.trophicHistory ?? [],
+        statistics: {
+          ...statistics,
+          populationByTrophicLevel: trophicCounts(asShape<Agent[]>(agents)),
+          deathsByCause: { predation: 0, ...fields(statistics.deathsByCause) }
+        }
+      }
+    };
+  },
+  
+  // Version 16: nobody shared; agents get the founders' altruism gene and resources are all ordinary
+  16: snapshot => {
+    const rng = createRandom(numberOr(snapshot.world.seed, 0));
+    const { founderAltruism } = simulationConfig.agents.cooperation;
+    const agents = fieldList(snapshot.world.agents).map(agent => {
+      const altruism = numberOr(agent.altruism, founderAltruism);
+      return {
+        ...agent,
+        altruism,
+        genome: completeGenome(asShape<Agent['genome']>(agent.genome), asShape<GenomePhenotype>({ ...agent, altruism }), rng)
+      };
+    });
+    const statistics = fields(snapshot.world.statistics);
+    return {
+      ...snapshot,
+      version: 17,
+      world: {
+        ...snapshot.world,
+        agents,
+        statistics: {
+          ...statistics,
+          averageAltruism: agents.length > 0
+            ? agents.reduce((sum, agent) => sum + agent.altruism, 0) / agents.length
+            : 0,
+          cooperationRate: 0,
+          cooperation: statistics.cooperation ?? emptyCooperationTally()
+        }
+      }
+    };
+  },
+  
+  // Version 17: the last reproduction was stored as world time; it becomes the agent's age at that time
+  17: snapshot => {
+    const time = numberOr(snapshot.world.time, 0);
+    return {
+      ...snapshot,
+      version: 18,
+      world: {
+        ...snapshot.world,
+        agents: fieldList(snapshot.world.agents).map(agent => {
+          const birthTime = time - numberOr(agent.age, 0);
+          const reproducedAt = numberOr(agent.lastReproductionTime, 0);
+          return { ...agent, lastReproductionTime: reproducedAt > 0 ? Math.max(0, reproducedAt - birthTime) : 0 };
+        })
+      }
+    };
+  },
+  
+  // Version 18: one reproduction threshold for every consciousness model, often out of reach; agents get their model's
+  18: snapshot => {
+    const model = fields(snapshot.world.settings).consciousnessModel;
+    const threshold = reproductionThreshold(
+      typeof model === 'string' && model in CONSCIOUSNESS_MODELS ? model as ConsciousnessModelId : 'product'
+    );
+    return {
+      ...snapshot,
+      version: 19,
+      world: {
+        ...snapshot.world,
+        agents: fieldList(snapshot.world.agents).map(agent => ({ ...agent, reproductionThreshold: threshold }))
+      }
+    };
+  }
+};
+
+/**
+ * Create a snapshot of the current world
+ */
+export function createWorldSnapshot(world: WorldState, timeline: TimelineEvent[]): WorldSnapshot {
+  return {
+    version: WORLD_SNAPSHOT_VERSION,
+    world,
+    timeline,
+    elapsedYears: world.timeElapsed / simulationConfig.time.yearLength
+  };
+}
+
+/**
+ * Restore a snapshot of any known version (or a bare WorldState); throws an
+ * Error describing the first problems if the upgraded world is not valid
+ */
+export function restoreWorldSnapshot(data: unknown): RestoredWorld {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Snapshot is not an object');
+  }
+
+  const input = data as Fields;
+  let snapshot: MigratingSnapshot = typeof input.version === 'number'
+    ? { ...input, version: input.version, world: fields(input.world) }
+    : { version: 0, world: input };
+
+  if (snapshot.version > WORLD_SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${snapshot.version} is newer than supported version ${WORLD_SNAPSHOT_VERSION}`);
+  }
+
+  while (snapshot.version < WORLD_SNAPSHOT_VERSION) {
+    const migrate = migrations[snapshot.version];
+    if (!migrate) {
+      throw new Error(`No migration from snapshot version ${snapshot.version}`);
+    }
+    snapshot = migrate(snapshot);
+  }
+
+  const world = worldStateSchema.safeParse(snapshot.world);
+  if (!world.success) {
+    throw new Error(`Invalid world: ${formatIssues(world.error)}`);
+  }
+
+  const timeline = z.array(timelineEventSchema).safeParse(snapshot.timeline ?? []);
+  if (!timeline.success) {
+    throw new Error(`Invalid timeline: ${formatIssues(timeline.error)}`);
+  }
+
+  return {
+    world: world.data as WorldState,
+    timeline: timeline.data as TimelineEvent[],
+    elapsedYears: numberOr(snapshot.elapsedYears, world.data.timeElapsed / simulationConfig.time.yearLength)
+  };
+}
@@ -0,0 +1,2 @@
+-- Neural network genome of each agent
+ALTER TABLE "agents" ADD COLUMN IF NOT EXISTS "brain" JSON;
@@ -0,0 +1,2 @@
+-- Diploid genome of each agent
+ALTER TABLE "agents" ADD COLUMN IF NOT EXISTS "genome" JSON;
@@ -0,0 +1,17 @@
+-- Pedigree of every agent that ever lived, kept after death
+CREATE TABLE IF NOT EXISTS "agent_lineage" (
+    "id" SERIAL PRIMARY KEY,
+    "simulation_id" INTEGER NOT NULL REFERENCES "simulations"("id"),
+    "agent_id" TEXT NOT NULL,
+    "parent_ids" JSON NOT NULL,
+    "generation" INTEGER NOT NULL,
+    "species_id" TEXT,
+    "color" TEXT NOT NULL,
+    "birth_time" DOUBLE PRECISION NOT NULL,
+    "death_time" DOUBLE PRECISION,
+    "death_cause" TEXT,
+    "consciousness" DOUBLE PRECISION DEFAULT 0,
+    UNIQUE ("simulation_id", "agent_id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_agent_lineage_simulation" ON "agent_lineage"("simulation_id");
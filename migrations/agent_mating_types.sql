@@ -0,0 +1,2 @@
+-- Sex or mating type of each agent (0 in worlds without mating types)
+ALTER TABLE "agents" ADD COLUMN IF NOT EXISTS "mating_type" INTEGER DEFAULT 0;
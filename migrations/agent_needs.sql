@@ -0,0 +1,2 @@
+-- Hunger, thirst and fatigue of each agent
+ALTER TABLE "agents" ADD COLUMN IF NOT EXISTS "needs" JSON;
@@ -0,0 +1,2 @@
+-- Position of each agent in the food chain (herbivore, predator or apex)
+ALTER TABLE "agents" ADD COLUMN IF NOT EXISTS "trophic_level" TEXT DEFAULT 'herbivore';
@@ -0,0 +1,2 @@
+-- Agents needed to harvest a large food resource together (NULL for ordinary resources)
+ALTER TABLE "resources" ADD COLUMN IF NOT EXISTS "harvesters" INTEGER;
@@ -0,0 +1,18 @@
+-- Track which simulation was viewed most recently
+ALTER TABLE "simulations" ADD COLUMN IF NOT EXISTS "last_viewed" TIMESTAMP;
+
+-- Scope agent IDs by simulation so parallel and cloned worlds can share IDs like 'adam'
+ALTER TABLE "agent_memories" DROP CONSTRAINT IF EXISTS "agent_memories_agent_id_fkey";
+ALTER TABLE "agent_memories" ADD COLUMN IF NOT EXISTS "simulation_id" INTEGER REFERENCES "simulations"("id");
+UPDATE "agent_memories" m
+    SET "simulation_id" = a."simulation_id"
+    FROM "agents" a
+    WHERE a."id" = m."agent_id" AND m."simulation_id" IS NULL;
+ALTER TABLE "agent_memories" ALTER COLUMN "simulation_id" SET NOT NULL;
+
+ALTER TABLE "agents" DROP CONSTRAINT IF EXISTS "agents_pkey";
+ALTER TABLE "agents" ADD PRIMARY KEY ("simulation_id", "id");
+ALTER TABLE "agent_memories"
+    ADD FOREIGN KEY ("simulation_id", "agent_id") REFERENCES "agents"("simulation_id", "id");
+
+CREATE INDEX IF NOT EXISTS "idx_agent_memories_simulation" ON "agent_memories"("simulation_id");
@@ -0,0 +1,17 @@
+-- Latest complete world snapshot of each simulation
+-- (JSON like the schema; listSimulations reads it with json_array_length)
+ALTER TABLE "simulations" ADD COLUMN IF NOT EXISTS "state" JSON;
+ALTER TABLE "simulations" ALTER COLUMN "state" TYPE JSON USING "state"::json;
+
+-- Create simulation_snapshots table (named checkpoints)
+CREATE TABLE IF NOT EXISTS "simulation_snapshots" (
+    "id" SERIAL PRIMARY KEY,
+    "simulation_id" INTEGER NOT NULL REFERENCES "simulations"("id"),
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "time_elapsed" DOUBLE PRECISION DEFAULT 0 NOT NULL,
+    "data" JSON NOT NULL,
+    "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_simulation_snapshots_simulation" ON "simulation_snapshots"("simulation_id");
@@ -1,9 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { attachSimulationSocket } from "./simulationSocket";
+import { resumeRunners } from "./simulationRunner";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "10mb" })); // Whole worlds are uploaded on save and import
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -39,6 +41,9 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Viewers subscribe to server-side simulation loops over WebSockets
+  attachSimulationSocket(server);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -65,5 +70,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    resumeRunners();
   });
 })();
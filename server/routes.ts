@@ -2,7 +2,14 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import * as simulationServices from './simulationServices';
-import { WorldState } from "../client/src/lib/types";
+import { createRunner, loadedRunner, stopRunner } from './simulationRunner';
+import {
+  createWorldSnapshot,
+  restoreWorldSnapshot,
+  RestoredWorld,
+  WorldSnapshot
+} from "../client/src/lib/worldSnapshot";
+import { createWorldFile, parseWorldFile, worldFileName, ImportedWorld } from "../client/src/lib/worldFile";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check
@@ -26,6 +33,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List all simulations for the world browser
+  app.get('/api/simulations', async (req: Request, res: Response) => {
+    try {
+      const list = await simulationServices.listSimulations();
+      res.json(list);
+    } catch (error) {
+      console.error('Error listing simulations:', error);
+      res.status(500).json({ error: 'Failed to list simulations' });
+    }
+  });
+
+  // Get a specific simulation (the live world if it is loaded on the server)
+  app.get('/api/simulation/:id', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const simulation = await simulationServices.getSimulation(simulationId);
+      if (!simulation) {
+        return res.status(404).json({ error: 'Simulation not found' });
+      }
+      
+      const runner = loadedRunner(simulationId);
+      if (runner) {
+        return res.json({ ...simulation, state: runner.getWorld(), timeline: runner.getTimeline() });
+      }
+      res.json(simulation);
+    } catch (error) {
+      console.error('Error fetching simulation:', error);
+      res.status(500).json({ error: 'Failed to fetch simulation' });
+    }
+  });
+
   // Create new simulation
   app.post('/api/simulation', async (req: Request, res: Response) => {
     try {
@@ -34,7 +72,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Name and initial state are required' });
       }
       
-      const simulation = await simulationServices.createSimulation(name, initialState);
+      // Validated like a saved world: older versions are upgraded, then checked against the schema
+      let restored: RestoredWorld;
+      try {
+        restored = restoreWorldSnapshot(initialState);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+      
+      const simulation = await simulationServices.createSimulation(name, restored.world);
+      createRunner(simulation.id, restored.world);
       res.status(201).json(simulation);
     } catch (error) {
       console.error('Error creating simulation:', error);
@@ -42,13 +89,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Save simulation state
+  // Save simulation state (a versioned snapshot or a bare world state)
   app.put('/api/simulation/:id', async (req: Request, res: Response) => {
     try {
       const simulationId = parseInt(req.params.id);
-      const state = req.body as WorldState;
       
-      await simulationServices.saveSimulationState(simulationId, state);
+      let restored: RestoredWorld;
+      try {
+        restored = restoreWorldSnapshot(req.body);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+      
+      // The server-side loop owns the state while it is running
+      const runner = loadedRunner(simulationId);
+      if (runner?.isRunning) {
+        return res.status(409).json({ error: 'Simulation is running on the server' });
+      }
+      
+      await simulationServices.saveSimulationState(simulationId, restored.world, restored.timeline);
+      runner?.restore(restored.world, restored.timeline);
       res.json({ success: true });
     } catch (error) {
       console.error('Error saving simulation state:', error);
@@ -56,11 +116,226 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Clone a simulation into a new, paused world
+  app.post('/api/simulation/:id/clone', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const source = await simulationServices.getSimulation(simulationId);
+      if (!source) {
+        return res.status(404).json({ error: 'Simulation not found' });
+      }
+      const name = req.body?.name || `${source.name} (copy)`;
+      
+      const runner = loadedRunner(simulationId);
+      const world = runner ? runner.getWorld() : source.state;
+      const timeline = runner ? runner.getTimeline() : source.timeline;
+      const clone = await simulationServices.cloneSimulation(name, world, timeline);
+      await runner?.flushLineage();
+      await simulationServices.copyLineage(simulationId, clone.id);
+      createRunner(clone.id, world, timeline);
+      res.status(201).json(clone);
+    } catch (error) {
+      console.error('Error cloning simulation:', error);
+      res.status(500).json({ error: 'Failed to clone simulation' });
+    }
+  });
+
+  // Archive (or unarchive) a simulation; archived simulations stop running
+  app.post('/api/simulation/:id/archive', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const archived = req.body?.archived ?? true;
+      
+      // Archived simulations are paused and unloaded, reading them later does not start them again
+      if (archived) {
+        loadedRunner(simulationId)?.pause();
+        await stopRunner(simulationId);
+      }
+      
+      const simulation = await simulationServices.setSimulationArchived(simulationId, archived);
+      if (!simulation) {
+        return res.status(404).json({ error: 'Simulation not found' });
+      }
+      res.json({ success: true, archived });
+    } catch (error) {
+      console.error('Error archiving simulation:', error);
+      res.status(500).json({ error: 'Failed to archive simulation' });
+    }
+  });
+
+  // Delete a simulation with all its agents, resources, events and checkpoints
+  app.delete('/api/simulation/:id', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      // Let the last save and lineage writes finish so they cannot recreate rows of the deleted simulation
+      await stopRunner(simulationId);
+      
+      const deleted = await simulationServices.deleteSimulation(simulationId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Simulation not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting simulation:', error);
+      res.status(500).json({ error: 'Failed to delete simulation' });
+    }
+  });
+
+  // Mark a simulation as the most recently viewed one
+  app.post('/api/simulation/:id/view', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      await simulationServices.markSimulationViewed(simulationId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error marking simulation as viewed:', error);
+      res.status(500).json({ error: 'Failed to mark simulation as viewed' });
+    }
+  });
+
+  // Download a simulation as a portable world file
+  app.get('/api/simulation/:id/export', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const simulation = await simulationServices.getSimulation(simulationId);
+      if (!simulation) {
+        return res.status(404).json({ error: 'Simulation not found' });
+      }
+      
+      const runner = loadedRunner(simulationId);
+      const file = runner
+        ? createWorldFile(simulation.name, runner.getWorld(), runner.getTimeline())
+        : createWorldFile(simulation.name, simulation.state, simulation.timeline);
+      res.setHeader('Content-Disposition', `attachment; filename="${worldFileName(simulation.name)}"`);
+      res.json(file);
+    } catch (error) {
+      console.error('Error exporting simulation:', error);
+      res.status(500).json({ error: 'Failed to export simulation' });
+    }
+  });
+
+  // Import a world file into a new, paused simulation
+  app.post('/api/simulation/import', async (req: Request, res: Response) => {
+    try {
+      let imported: ImportedWorld;
+      try {
+        imported = parseWorldFile(req.body);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+      
+      const { name, world, timeline } = imported;
+      const simulation = await simulationServices.cloneSimulation(name, world, timeline);
+      createRunner(simulation.id, world, timeline);
+      res.status(201).json(simulation);
+    } catch (error) {
+      console.error('Error importing simulation:', error);
+      res.status(500).json({ error: 'Failed to import simulation' });
+    }
+  });
+
+  // List checkpoints of a simulation
+  app.get('/api/simulation/:id/snapshots', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const snapshots = await simulationServices.getSnapshots(simulationId);
+      res.json(snapshots);
+    } catch (error) {
+      console.error('Error fetching snapshots:', error);
+      res.status(500).json({ error: 'Failed to fetch snapshots' });
+    }
+  });
+
+  // Save a named checkpoint (of the server-side world unless a snapshot is sent)
+  app.post('/api/simulation/:id/snapshots', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const { name, snapshot } = req.body;
+      if (!name) {
+        return res.status(400).json({ error: 'Name is required' });
+      }
+      
+      // Older snapshot versions are upgraded before storing
+      let worldSnapshot: WorldSnapshot;
+      if (snapshot) {
+        try {
+          const { world, timeline } = restoreWorldSnapshot(snapshot);
+          worldSnapshot = createWorldSnapshot(world, timeline);
+        } catch (error) {
+          return res.status(400).json({ error: (error as Error).message });
+        }
+      } else {
+        const runner = loadedRunner(simulationId);
+        const simulation = runner ? undefined : await simulationServices.getSimulation(simulationId);
+        if (runner) {
+          worldSnapshot = createWorldSnapshot(runner.getWorld(), runner.getTimeline());
+        } else if (simulation) {
+          worldSnapshot = createWorldSnapshot(simulation.state, simulation.timeline);
+        } else {
+          return res.status(404).json({ error: 'Simulation not found' });
+        }
+      }
+      
+      const record = await simulationServices.createSnapshot(simulationId, name, worldSnapshot);
+      res.status(201).json(record);
+    } catch (error) {
+      console.error('Error creating snapshot:', error);
+      res.status(500).json({ error: 'Failed to create snapshot' });
+    }
+  });
+
+  // Get a checkpoint including its complete world snapshot
+  app.get('/api/simulation/:id/snapshots/:snapshotId', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const snapshotId = parseInt(req.params.snapshotId);
+      
+      const record = await simulationServices.getSnapshot(simulationId, snapshotId);
+      if (!record) {
+        return res.status(404).json({ error: 'Snapshot not found' });
+      }
+      
+      const { data, ...metadata } = record;
+      res.json({ ...metadata, snapshot: data });
+    } catch (error) {
+      console.error('Error fetching snapshot:', error);
+      res.status(500).json({ error: 'Failed to fetch snapshot' });
+    }
+  });
+
+  // Restore a checkpoint into the simulation
+  app.post('/api/simulation/:id/snapshots/:snapshotId/restore', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      const snapshotId = parseInt(req.params.snapshotId);
+      
+      const record = await simulationServices.getSnapshot(simulationId, snapshotId);
+      if (!record) {
+        return res.status(404).json({ error: 'Snapshot not found' });
+      }
+      
+      const { world, timeline } = restoreWorldSnapshot(record.data);
+      await simulationServices.saveSimulationState(simulationId, world, timeline);
+      
+      const runner = loadedRunner(simulationId);
+      runner?.restore(world, timeline);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      res.status(500).json({ error: 'Failed to restore snapshot' });
+    }
+  });
+
   // Get agent memories
   app.get('/api/agent/:id/memories', async (req: Request, res: Response) => {
     try {
       const agentId = req.params.id;
-      const memories = await simulationServices.getAgentMemories(agentId);
+      const simulationId = parseInt(req.query.simulationId as string);
+      if (isNaN(simulationId)) {
+        return res.status(400).json({ error: 'simulationId is required' });
+      }
+      
+      const memories = await simulationServices.getAgentMemories(agentId, simulationId);
       res.json(memories);
     } catch (error) {
       console.error('Error fetching agent memories:', error);
@@ -72,9 +347,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/agent/:id/memory', async (req: Request, res: Response) => {
     try {
       const agentId = req.params.id;
+      const simulationId = parseInt(req.query.simulationId as string);
+      if (isNaN(simulationId)) {
+        return res.status(400).json({ error: 'simulationId is required' });
+      }
       const memory = req.body;
       
-      await simulationServices.addAgentMemory(agentId, memory);
+      await simulationServices.addAgentMemory(simulationId, agentId, memory);
       res.status(201).json({ success: true });
     } catch (error) {
       console.error('Error adding agent memory:', error);
@@ -82,6 +361,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the pedigree of every agent that ever lived in a simulation
+  app.get('/api/simulation/:id/lineage', async (req: Request, res: Response) => {
+    try {
+      const simulationId = parseInt(req.params.id);
+      if (!(await simulationServices.simulationExists(simulationId))) {
+        return res.status(404).json({ error: 'Simulation not found' });
+      }
+      
+      // Include the births and deaths since the last save of a loaded simulation
+      await loadedRunner(simulationId)?.flushLineage();
+      const lineage = await simulationServices.getLineage(simulationId);
+      res.json(lineage);
+    } catch (error) {
+      console.error('Error fetching lineage:', error);
+      res.status(500).json({ error: 'Failed to fetch lineage' });
+    }
+  });
+
   // Get timeline events
   app.get('/api/simulation/:id/timeline', async (req: Request, res: Response) => {
     try {
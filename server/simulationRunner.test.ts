@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initializeWorld } from '../client/src/lib/worldResources';
+import { SimulationEngine } from '../client/src/lib/simulationEngine';
+import { ServerMessage } from '../client/src/lib/simulationProtocol';
+import * as simulationServices from './simulationServices';
+import { createRunner, loadedRunner, SimulationRunner, stopRunner } from './simulationRunner';
+
+vi.mock('./simulationServices', () => ({
+  saveSimulationState: vi.fn(() => Promise.resolve()),
+  setSimulationRunning: vi.fn(() => Promise.resolve()),
+  addTimelineEvent: vi.fn(() => Promise.resolve()),
+  recordLineage: vi.fn(() => Promise.resolve()),
+  recordLineageDeaths: vi.fn(() => Promise.resolve()),
+  rewindLineage: vi.fn(() => Promise.resolve()),
+  clearLineage: vi.fn(() => Promise.resolve())
+}));
+
+vi.mock('./vite', () => ({ log: vi.fn() }));
+
+const saveSimulationState = vi.mocked(simulationServices.saveSimulationState);
+
+describe('SimulationRunner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('reports a failing tick and pauses', () => {
+    const runner = new SimulationRunner(1, initializeWorld(1));
+    const messages: ServerMessage[] = [];
+    runner.subscribe(message => messages.push(message));
+    runner.start();
+    vi.spyOn(SimulationEngine, 'step').mockImplementation(() => {
+      throw new Error('broken world');
+    });
+
+    runner.tick();
+
+    expect(runner.isRunning).toBe(false);
+    expect(messages).toContainEqual({ type: 'error', message: 'Simulation failed and was paused: broken world' });
+    expect(messages.at(-1)).toMatchObject({ type: 'status', running: false });
+  });
+
+  it('does not start a save while another one is in flight', async () => {
+    let finishSave = () => {};
+    saveSimulationState.mockImplementation(() => new Promise<void>(resolve => {
+      finishSave = resolve;
+    }));
+    const runner = new SimulationRunner(1, initializeWorld(1));
+
+    runner.execute({ action: 'reset', seed: 2 });
+    runner.execute({ action: 'reset', seed: 3 });
+    runner.execute({ action: 'reset', seed: 4 });
+    expect(saveSimulationState).toHaveBeenCalledTimes(1);
+
+    finishSave();
+    await vi.waitFor(() => expect(saveSimulationState).toHaveBeenCalledTimes(2));
+    expect(saveSimulationState.mock.calls[1][1].seed).toBe(4);
+
+    finishSave();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(saveSimulationState).toHaveBeenCalledTimes(2);
+  });
+
+  it('unloads a runner only after its save in flight is done', async () => {
+    let finishSave = () => {};
+    saveSimulationState.mockImplementation(() => new Promise<void>(resolve => {
+      finishSave = resolve;
+    }));
+    const runner = createRunner(5, initializeWorld(5));
+    runner.execute({ action: 'reset', seed: 6 });
+
+    let stopped = false;
+    const stopping = stopRunner(5).then(() => {
+      stopped = true;
+    });
+    expect(loadedRunner(5)).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+
+    finishSave();
+    await stopping;
+    expect(saveSimulationState).toHaveBeenCalledTimes(1);
+  });
+});
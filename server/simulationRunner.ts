@@ -0,0 +1,423 @@
+import { WorldState, WorldEvent, TimelineEvent } from '../client/src/lib/types';
+import { SimulationEngine } from '../client/src/lib/simulationEngine';
+import { initializeWorld } from '../client/src/lib/worldResources';
+import {
+  computeWorldDelta,
+  ServerMessage,
+  SimulationCommand
+} from '../client/src/lib/simulationProtocol';
+import { LineageDeath, lineageChanges, LineageRecord, lineageRecord } from '../client/src/lib/lineage';
+import { simulationConfig } from '../client/src/config/simulationConfig';
+import * as simulationServices from './simulationServices';
+import { log } from './vite';
+
+type RunnerListener = (message: ServerMessage) => void;
+
+/**
+ * Authoritative simulation loop for a single simulation.
+ *
+ * The runner owns the world state, advances it on a fixed interval whether
+ * or not anyone is watching, broadcasts deltas to its subscribers and
+ * periodically persists the world to the database. Births and deaths are
+ * collected between saves and written to the lineage table in order.
+ */
+export class SimulationRunner {
+  private world: WorldState;
+  private timeline: TimelineEvent[];
+  private running = false;
+  private timeScale: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticksSinceSave = 0;
+  private listeners = new Set<RunnerListener>();
+  private pendingBirths: LineageRecord[] = [];
+  private pendingDeaths: LineageDeath[] = [];
+  private lineageWrites: Promise<void> = Promise.resolve();
+  private saving: Promise<void> | null = null;
+  private saveAgain = false;
+
+  constructor(
+    readonly simulationId: number,
+    world: WorldState,
+    timeline: TimelineEvent[] = [],
+    timeScale: number = 1
+  ) {
+    this.world = world;
+    this.timeline = timeline;
+    this.timeScale = timeScale;
+
+    // Worlds saved before lineage tracking get records for their living agents
+    this.pendingBirths = world.agents.map(agent => lineageRecord(agent, world.time));
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  getWorld(): WorldState {
+    return this.world;
+  }
+
+  getTimeline(): TimelineEvent[] {
+    return this.timeline;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.timer = setInterval(() => this.tick(), simulationConfig.server.tickIntervalMs);
+    this.persistRunning();
+    this.broadcastStatus();
+  }
+
+  pause(): void {
+    if (!this.running) return;
+
+    this.running = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.persistRunning();
+    this.persist();
+    this.broadcastStatus();
+  }
+
+  /**
+   * Stop the loop without recording it as paused (used on shutdown)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Advance the world by one tick and notify subscribers. A tick that fails
+   * is reported to the subscribers and pauses the runner.
+   */
+  tick(): void {
+    try {
+      this.advance();
+    } catch (error) {
+      console.error(`Simulation ${this.simulationId} failed and was paused:`, error);
+      this.broadcast({
+        type: 'error',
+        message: `Simulation failed and was paused: ${error instanceof Error ? error.message : String(error)}`
+      });
+      this.pause();
+    }
+  }
+
+  /**
+   * Execute a command sent by a viewer
+   */
+  execute(command: SimulationCommand): void {
+    switch (command.action) {
+      case 'start':
+        this.start();
+        break;
+
+      case 'pause':
+        this.pause();
+        break;
+
+      case 'setTimeScale':
+        this.timeScale = command.timeScale;
+        this.broadcastStatus();
+        break;
+
+      case 'setEnvironmentalParameter':
+        this.replaceWorld({
+          ...this.world,
+          environmentalParameters: {
+            ...this.world.environmentalParameters,
+            [command.param]: command.value
+          }
+        });
+        break;
+
+      case 'setWeatherCondition':
+        this.replaceWorld({
+          ...this.world,
+          environmentalParameters: {
+            ...this.world.environmentalParameters,
+            weatherCondition: command.condition
+          }
+        });
+        break;
+
+      case 'triggerCatastrophe': {
+        const { world, timelineEvent } = SimulationEngine.applyCatastrophe(
+          this.world,
+          command.catastropheType,
+          command.intensity
+        );
+        this.replaceWorld(world, [timelineEvent]);
+        break;
+      }
+
+      case 'setWorldSettings':
+        this.replaceWorld(SimulationEngine.applySettings(this.world, command.settings));
+        break;
+
+      case 'reset': {
+        // A reset keeps the world's settings but starts a new pedigree
+        const world = initializeWorld(command.seed, this.world.settings);
+        this.pendingBirths = [];
+        this.pendingDeaths = [];
+        this.queueLineageWrite(() => simulationServices.clearLineage(this.simulationId));
+        this.restore(world, []);
+        this.persist();
+        break;
+      }
+    }
+  }
+
+  /**
+   * Replace the whole world, e.g. after a save from a client
+   */
+  restore(world: WorldState, timeline: TimelineEvent[] = this.timeline): void {
+    this.world = world;
+    this.timeline = timeline;
+    // Store what happened before, then rewind the pedigree to the restored
+    // world: later births are dropped and its agents are alive again
+    this.flushLineage();
+    const livingRecords = world.agents.map(agent => lineageRecord(agent, world.time));
+    this.queueLineageWrite(() => simulationServices.rewindLineage(this.simulationId, livingRecords, world.time));
+    this.broadcastSnapshot();
+  }
+
+  /**
+   * Write the collected births and deaths; resolves once they are stored
+   */
+  flushLineage(): Promise<void> {
+    const births = this.pendingBirths;
+    const deaths = this.pendingDeaths;
+    this.pendingBirths = [];
+    this.pendingDeaths = [];
+
+    if (births.length > 0 || deaths.length > 0) {
+      this.queueLineageWrite(async () => {
+        await simulationServices.recordLineage(this.simulationId, births);
+        await simulationServices.recordLineageDeaths(this.simulationId, deaths);
+      });
+    }
+    return this.lineageWrites;
+  }
+
+  /**
+   * Resolves once the save and lineage writes in flight are done
+   */
+  async settle(): Promise<void> {
+    await this.saving;
+    await this.lineageWrites;
+  }
+
+  /**
+   * Register a subscriber; it immediately receives a full snapshot
+   */
+  subscribe(listener: RunnerListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshotMessage());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private advance(): void {
+    const previous = this.world;
+    const { world, events, timelineEvents } = SimulationEngine.step(
+      previous,
+      simulationConfig.server.tickDelta * this.timeScale
+    );
+
+    this.world = world;
+    this.recordTimelineEvents(timelineEvents);
+    this.trackLineage(previous, world, events);
+
+    this.broadcast({
+      type: 'delta',
+      simulationId: this.simulationId,
+      delta: computeWorldDelta(previous, world, timelineEvents)
+    });
+
+    this.ticksSinceSave++;
+    if (this.ticksSinceSave >= simulationConfig.server.persistEveryTicks) {
+      this.persist();
+    }
+  }
+
+  private replaceWorld(world: WorldState, timelineEvents: TimelineEvent[] = []): void {
+    const previous = this.world;
+    this.world = world;
+    this.recordTimelineEvents(timelineEvents);
+
+    this.broadcast({
+      type: 'delta',
+      simulationId: this.simulationId,
+      delta: computeWorldDelta(previous, world, timelineEvents)
+    });
+  }
+
+  private trackLineage(previous: WorldState, next: WorldState, events: WorldEvent[]): void {
+    const { births, deaths } = lineageChanges(previous, next, events);
+    this.pendingBirths.push(...births);
+    this.pendingDeaths.push(...deaths);
+  }
+
+  // Lineage writes run one after another so deaths never overtake the matching births
+  private queueLineageWrite(write: () => Promise<void>): void {
+    this.lineageWrites = this.lineageWrites.then(write).catch(error => {
+      console.error(`Failed to store lineage of simulation ${this.simulationId}:`, error);
+    });
+  }
+
+  private recordTimelineEvents(timelineEvents: TimelineEvent[]): void {
+    if (timelineEvents.length === 0) return;
+
+    this.timeline = [...this.timeline, ...timelineEvents];
+    for (const event of timelineEvents) {
+      simulationServices.addTimelineEvent(this.simulationId, event).catch(error => {
+        console.error(`Failed to store timeline event for simulation ${this.simulationId}:`, error);
+      });
+    }
+  }
+
+  private snapshotMessage(): ServerMessage {
+    return {
+      type: 'snapshot',
+      simulationId: this.simulationId,
+      world: this.world,
+      timeline: this.timeline,
+      running: this.running,
+      timeScale: this.timeScale
+    };
+  }
+
+  private broadcastSnapshot(): void {
+    this.broadcast(this.snapshotMessage());
+  }
+
+  private broadcastStatus(): void {
+    this.broadcast({
+      type: 'status',
+      simulationId: this.simulationId,
+      running: this.running,
+      timeScale: this.timeScale
+    });
+  }
+
+  private broadcast(message: ServerMessage): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  // Saves never overlap: while one is in flight, later requests collapse into
+  // a single save of the then current world once it is done
+  private persist(): void {
+    this.ticksSinceSave = 0;
+    this.flushLineage();
+    if (this.saving) {
+      this.saveAgain = true;
+      return;
+    }
+    this.saving = this.save();
+  }
+
+  private async save(): Promise<void> {
+    do {
+      this.saveAgain = false;
+      try {
+        await simulationServices.saveSimulationState(
+          this.simulationId,
+          { ...this.world, timeScale: this.timeScale },
+          this.timeline
+        );
+      } catch (error) {
+        console.error(`Failed to persist simulation ${this.simulationId}:`, error);
+      }
+    } while (this.saveAgain);
+    this.saving = null;
+  }
+
+  private persistRunning(): void {
+    simulationServices.setSimulationRunning(this.simulationId, this.running).catch(error => {
+      console.error(`Failed to store run state of simulation ${this.simulationId}:`, error);
+    });
+  }
+}
+
+// Active runners by simulation ID
+const runners = new Map<number, SimulationRunner>();
+
+/**
+ * Register a runner for a freshly created simulation
+ */
+export function createRunner(
+  simulationId: number,
+  world: WorldState,
+  timeline: TimelineEvent[] = []
+): SimulationRunner {
+  runners.get(simulationId)?.stop();
+
+  const runner = new SimulationRunner(simulationId, world, timeline, world.timeScale);
+  runners.set(simulationId, runner);
+  return runner;
+}
+
+/**
+ * Get the runner of a simulation, loading the simulation from the database if needed
+ */
+export async function getRunner(simulationId: number): Promise<SimulationRunner | undefined> {
+  const existing = runners.get(simulationId);
+  if (existing) return existing;
+
+  const loaded = await simulationServices.loadSimulationState(simulationId);
+  if (!loaded) return undefined;
+
+  // Another request may have loaded it while we were waiting
+  const raced = runners.get(simulationId);
+  if (raced) return raced;
+
+  const runner = new SimulationRunner(simulationId, loaded.world, loaded.timeline, loaded.timeScale);
+  runners.set(simulationId, runner);
+  if (loaded.running) {
+    runner.start();
+  }
+  return runner;
+}
+
+/**
+ * The runner of a simulation if it is loaded; read-only requests use the saved world otherwise
+ */
+export function loadedRunner(simulationId: number): SimulationRunner | undefined {
+  return runners.get(simulationId);
+}
+
+/**
+ * Stop and forget the runner of a simulation; resolves once its pending saves and lineage writes are done
+ */
+export async function stopRunner(simulationId: number): Promise<void> {
+  const runner = runners.get(simulationId);
+  if (!runner) return;
+
+  runners.delete(simulationId);
+  runner.stop();
+  await runner.settle();
+}
+
+/**
+ * Resume the loops that were running before the server restarted
+ */
+export async function resumeRunners(): Promise<void> {
+  try {
+    const simulationIds = await simulationServices.getRunningSimulationIds();
+    for (const simulationId of simulationIds) {
+      await getRunner(simulationId);
+      log(`resumed simulation ${simulationId}`);
+    }
+  } catch (error) {
+    console.error('Failed to resume simulations:', error);
+  }
+}
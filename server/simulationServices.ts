@@ -1,19 +1,47 @@
-import { eq } from 'drizzle-orm';
+import { and, desc, eq, gt, notInArray, sql } from 'drizzle-orm';
 import { db } from './db';
-import { agents, simulations, resources, agentMemories, timelineEvents } from '../shared/schema';
-import { Agent, Resource, TimelineEvent, WorldState } from '../client/src/lib/types';
+import { agents, simulations, resources, agentMemories, timelineEvents, simulationSnapshots, agentLineage } from '../shared/schema';
+import { Agent, AgentAction, DeathCause, EnvironmentalParameters, Genome, Resource, TimelineEvent, TrophicLevel, WorldState } from '../client/src/lib/types';
+import { initializeWorld } from '../client/src/lib/worldResources';
+import { calculateStatistics, updateCellGrid } from '../client/src/lib/simulationEngine';
+import { simulationConfig } from '../client/src/config/simulationConfig';
+import { createRandom } from '../client/src/lib/random';
+import { createBrain } from '../client/src/lib/neuralBrain';
+import { reproductionThreshold } from '../client/src/lib/consciousness';
+import { completeGenome, expressGenome, genomeFromPhenotype } from '../client/src/lib/genome';
+import { updateSpecies } from '../client/src/lib/speciation';
+import { recordPopulationSample } from '../client/src/lib/consciousnessHistory';
+import { recordTrophicCensus } from '../client/src/lib/predation';
+import { birthParents, LineageDeath, LineageRecord, lineageRecord } from '../client/src/lib/lineage';
+import { createWorldSnapshot, restoreWorldSnapshot, WorldSnapshot } from '../client/src/lib/worldSnapshot';
+
+export interface LoadedSimulation {
+  world: WorldState;
+  timeline: TimelineEvent[];
+  running: boolean;
+  timeScale: number;
+}
 
 // Create new simulation
-export async function createSimulation(name: string, initialState: WorldState) {
+export async function createSimulation(
+  name: string,
+  initialState: WorldState,
+  timeline: TimelineEvent[] = []
+) {
   // Simulation settings
-  const [simulation] = await db.insert(simulations).values({
+  const [{ state, ...simulation }] = await db.insert(simulations).values({
     name,
     time_elapsed: initialState.timeElapsed,
     day_night_cycle: initialState.dayNightCycle,
     settings: {
       timeScale: initialState.timeScale,
-      environmentalParameters: initialState.environmentalParameters
-    }
+      seed: initialState.seed,
+      rngState: initialState.rngState,
+      running: false,
+      environmentalParameters: initialState.environmentalParameters,
+      worldSettings: initialState.settings
+    },
+    state: createWorldSnapshot(initialState, timeline)
   }).returning();
 
   // Initial agents (Adam and Eve)
@@ -26,25 +54,137 @@ export async function createSimulation(name: string, initialState: WorldState) {
     await createResource(simulation.id, resource);
   }
 
+  // Pedigree starts with the agents the world begins with
+  await recordLineage(simulation.id, initialState.agents.map(agent => lineageRecord(agent, initialState.time)));
+
   return simulation;
 }
 
-// Get active simulation
+// Get the most recently viewed active simulation together with its restored world state
 export async function getActiveSimulation() {
   const simulation = await db.query.simulations.findFirst({
     where: eq(simulations.active, true),
-    with: {
-      agents: true,
-      resources: true,
-      timelineEvents: true
-    }
+    columns: { id: true },
+    orderBy: [sql`${simulations.last_viewed} DESC NULLS LAST`, desc(simulations.last_updated)]
   });
-  
+  if (!simulation) return undefined;
+
+  return await getSimulation(simulation.id);
+}
+
+// Get a simulation together with its restored world state
+export async function getSimulation(simulationId: number) {
+  const simulation = await db.query.simulations.findFirst({
+    where: eq(simulations.id, simulationId),
+    columns: { state: false }
+  });
+  if (!simulation) return undefined;
+
+  const loaded = await loadSimulationState(simulation.id);
+  if (!loaded) return undefined;
+
+  return {
+    ...simulation,
+    state: loaded.world,
+    timeline: loaded.timeline
+  };
+}
+
+// List all simulations with summary information for the world browser
+export async function listSimulations() {
+  const rows = await db.select({
+    id: simulations.id,
+    name: simulations.name,
+    created_at: simulations.created_at,
+    last_updated: simulations.last_updated,
+    last_viewed: simulations.last_viewed,
+    time_elapsed: simulations.time_elapsed,
+    active: simulations.active,
+    settings: simulations.settings,
+    // Read the population from the stored snapshot instead of loading whole worlds
+    population: sql<number | null>`json_array_length(${simulations.state} -> 'world' -> 'agents')`
+  })
+    .from(simulations)
+    .orderBy(desc(simulations.last_updated));
+
+  return rows.map(({ settings, active, population, ...row }) => ({
+    ...row,
+    seed: settings?.seed ?? null,
+    running: settings?.running ?? false,
+    archived: !active,
+    population: population ?? 0
+  }));
+}
+
+// Store a copy of a world under a new name; the copy starts paused
+export async function cloneSimulation(name: string, world: WorldState, timeline: TimelineEvent[]) {
+  const clone = await createSimulation(name, world, timeline);
+
+  for (const event of timeline) {
+    await addTimelineEvent(clone.id, event);
+  }
+
+  return clone;
+}
+
+// Archive or unarchive a simulation
+export async function setSimulationArchived(simulationId: number, archived: boolean) {
+  const [simulation] = await db.update(simulations)
+    .set({ active: !archived })
+    .where(eq(simulations.id, simulationId))
+    .returning({ id: simulations.id, active: simulations.active });
+
+  // Archived simulations are not resumed after a restart
+  if (simulation && archived) {
+    await setSimulationRunning(simulationId, false);
+  }
+
   return simulation;
 }
 
+// Check that a simulation exists without loading its world
+export async function simulationExists(simulationId: number): Promise<boolean> {
+  const simulation = await db.query.simulations.findFirst({
+    where: eq(simulations.id, simulationId),
+    columns: { id: true }
+  });
+  return simulation !== undefined;
+}
+
+// Delete a simulation together with all its data
+export async function deleteSimulation(simulationId: number) {
+  await db.delete(agentMemories).where(eq(agentMemories.simulation_id, simulationId));
+  await db.delete(agents).where(eq(agents.simulation_id, simulationId));
+  await db.delete(resources).where(eq(resources.simulation_id, simulationId));
+  await db.delete(timelineEvents).where(eq(timelineEvents.simulation_id, simulationId));
+  await db.delete(simulationSnapshots).where(eq(simulationSnapshots.simulation_id, simulationId));
+  await db.delete(agentLineage).where(eq(agentLineage.simulation_id, simulationId));
+
+  const deleted = await db.delete(simulations)
+    .where(eq(simulations.id, simulationId))
+    .returning({ id: simulations.id });
+
+  return deleted.length > 0;
+}
+
+// Remember when a simulation was last opened
+export async function markSimulationViewed(simulationId: number) {
+  await db.update(simulations)
+    .set({ last_viewed: new Date() })
+    .where(eq(simulations.id, simulationId));
+}
+
 // Save simulation state
-export async function saveSimulationState(simulationId: number, state: WorldState) {
+export async function saveSimulationState(
+  simulationId: number,
+  state: WorldState,
+  timeline: TimelineEvent[] = []
+) {
+  const existing = await db.query.simulations.findFirst({
+    where: eq(simulations.id, simulationId),
+    columns: { settings: true }
+  });
+
   // Update simulation
   await db.update(simulations)
     .set({
@@ -52,9 +192,14 @@ export async function saveSimulationState(simulationId: number, state: WorldStat
       day_night_cycle: state.dayNightCycle,
       last_updated: new Date(),
       settings: {
+        ...existing?.settings,
         timeScale: state.timeScale,
-        environmentalParameters: state.environmentalParameters
-      }
+        seed: state.seed,
+        rngState: state.rngState,
+        environmentalParameters: state.environmentalParameters,
+        worldSettings: state.settings
+      },
+      state: createWorldSnapshot(state, timeline)
     })
     .where(eq(simulations.id, simulationId));
 
@@ -63,12 +208,208 @@ export async function saveSimulationState(simulationId: number, state: WorldStat
     await updateAgent(simulationId, agent);
   }
 
+  // Agents that are no longer part of the world have died
+  const livingIds = state.agents.map(agent => agent.id);
+  await db.update(agents)
+    .set({ active: false, updated_at: new Date() })
+    .where(livingIds.length > 0
+      ? and(eq(agents.simulation_id, simulationId), notInArray(agents.id, livingIds))
+      : eq(agents.simulation_id, simulationId));
+
   // Update resources
   for (const resource of state.resources) {
     await updateResource(simulationId, resource);
   }
 }
 
+// Record whether the server-side loop is running a simulation
+export async function setSimulationRunning(simulationId: number, running: boolean) {
+  const existing = await db.query.simulations.findFirst({
+    where: eq(simulations.id, simulationId),
+    columns: { settings: true }
+  });
+  if (!existing?.settings) return;
+
+  await db.update(simulations)
+    .set({ settings: { ...existing.settings, running } })
+    .where(eq(simulations.id, simulationId));
+}
+
+// Get simulations the server-side loop was running before a restart
+export async function getRunningSimulationIds(): Promise<number[]> {
+  const rows = await db.query.simulations.findMany({
+    where: eq(simulations.active, true),
+    columns: { id: true, settings: true }
+  });
+  return rows.filter(row => row.settings?.running).map(row => row.id);
+}
+
+// Load the world state of a simulation
+export async function loadSimulationState(simulationId: number): Promise<LoadedSimulation | undefined> {
+  const stored = await db.query.simulations.findFirst({
+    where: eq(simulations.id, simulationId),
+    columns: { state: true, settings: true }
+  });
+  if (!stored) return undefined;
+
+  // Prefer the complete snapshot, fall back to the rows for older simulations
+  if (stored.state) {
+    const { world, timeline } = restoreWorldSnapshot(stored.state);
+    return {
+      world,
+      timeline,
+      running: stored.settings?.running ?? false,
+      timeScale: stored.settings?.timeScale ?? world.timeScale
+    };
+  }
+
+  return loadSimulationStateFromRows(simulationId);
+}
+
+// Rebuild a world state from the stored rows (simulations saved before snapshots existed)
+async function loadSimulationStateFromRows(simulationId: number): Promise<LoadedSimulation | undefined> {
+  const simulation = await db.query.simulations.findFirst({
+    where: eq(simulations.id, simulationId),
+    with: {
+      agents: true,
+      resources: true,
+      timelineEvents: true
+    }
+  });
+  if (!simulation) return undefined;
+
+  const settings = simulation.settings;
+  const seed = settings?.seed ?? simulationId;
+
+  // The cell grid is derived from the seed, so regenerate it
+  const baseWorld = initializeWorld(seed, settings?.worldSettings);
+  // Agents stored before brains and genomes existed get fresh ones
+  const rng = createRandom(seed);
+
+  const livingAgents: Agent[] = [];
+  for (const row of simulation.agents.filter(agent => agent.active)) {
+    const memories = await getAgentMemories(row.id, simulationId);
+    const memory: Agent['memory'] = memories.reverse().map(memory => ({
+      timestamp: memory.timestamp,
+      type: memory.memory_type as Agent['memory'][number]['type'],
+      data: memory.data,
+      intensity: memory.intensity ?? 1
+    }));
+    const agent: Omit<Agent, 'genome'> = {
+      id: row.id,
+      position: { x: row.position_x, y: row.position_y, z: row.position_z },
+      rotation: { x: row.rotation_x ?? 0, y: row.rotation_y ?? 0, z: row.rotation_z ?? 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      scale: row.scale ?? 1,
+      color: row.color,
+      energy: row.energy ?? 100,
+      age: row.age ?? 0,
+      lifespan: row.lifespan ?? 1000,
+      generation: row.generation ?? 1,
+      perceptionRadius: row.perception_radius ?? 10,
+      movementSpeed: row.movement_speed ?? 0.05,
+      sensorValues: {
+        visualInput: [],
+        auditoryInput: [],
+        tactileInput: [],
+        proximity: [],
+        resourceLevels: { light: 0, food: 0, water: 0 }
+      },
+      memory,
+      // Generalized memories, signals and relationships are not stored in rows; survivors acquire them again
+      longTermMemory: [],
+      lexicon: [],
+      relationships: [],
+      reproductionThreshold: reproductionThreshold(baseWorld.settings.consciousnessModel),
+      mutationRate: row.mutation_rate ?? 0.1,
+      consciousnessValue: row.consciousness_value ?? 0,
+      lastReproductionTime: row.last_reproduction_time ?? 0,
+      lastAction: (row.last_action ?? 'idle') as AgentAction,
+      reproductionCooldown: row.reproduction_cooldown ?? simulationConfig.agents.reproductionSettings.cooldown,
+      traits: row.traits ?? baseWorld.agents[0].traits,
+      needs: row.needs ?? { hunger: 0, thirst: 0, fatigue: 0 },
+      matePreferences: { ...simulationConfig.agents.mating.defaultPreferences },
+      offspringCount: memory.filter(entry => entry.type === 'action' && entry.data?.action === 'reproduce').length,
+      matingType: row.mating_type ?? 0,
+      trophicLevel: (row.trophic_level ?? 'herbivore') as TrophicLevel,
+      asexuality: simulationConfig.agents.reproductionSettings.founderAsexuality,
+      altruism: simulationConfig.agents.cooperation.founderAltruism,
+      parentIds: birthParents(memory),
+      speciesId: '',
+      brain: row.brain ?? createBrain(rng),
+      brainState: [],
+      consciousnessHistory: []
+    };
+    // Genomes stored before the mate preference, asexuality and altruism loci existed carry the founders' values
+    const storedGenome = row.genome as Genome | null;
+    const genome = storedGenome ? completeGenome(storedGenome, agent, rng) : genomeFromPhenotype(agent, rng);
+    const { matePreferences, asexuality, altruism } = expressGenome(genome, agent);
+    livingAgents.push({ ...agent, matePreferences, asexuality, altruism, genome });
+  }
+
+  const storedResources: Resource[] = simulation.resources
+    .filter(resource => resource.active)
+    .map(resource => ({
+      id: resource.resource_id,
+      type: resource.type as Resource['type'],
+      position: { x: resource.position_x, y: resource.position_y, z: resource.position_z },
+      amount: resource.amount ?? 100,
+      regenerationRate: resource.regeneration_rate ?? 0.1,
+      lastRegeneration: resource.last_regeneration ?? 0,
+      harvesters: resource.harvesters ?? undefined
+    }));
+
+  // The species history is not stored in rows, so regroup the survivors
+  const { agents: classifiedAgents, species } = updateSpecies(
+    livingAgents,
+    [],
+    simulation.time_elapsed,
+    simulation.time_elapsed,
+    rng
+  );
+
+  const world: WorldState = {
+    ...baseWorld,
+    time: simulation.time_elapsed,
+    timeScale: settings?.timeScale ?? 1,
+    timeElapsed: simulation.time_elapsed,
+    dayNightCycle: simulation.day_night_cycle,
+    agents: classifiedAgents,
+    resources: storedResources,
+    environmentalParameters: {
+      ...baseWorld.environmentalParameters,
+      ...(settings?.environmentalParameters as Partial<EnvironmentalParameters> | undefined)
+    },
+    statistics: calculateStatistics(classifiedAgents, baseWorld.settings),
+    cellGrid: updateCellGrid(baseWorld.cellGrid, classifiedAgents),
+    rngState: settings?.rngState ?? baseWorld.rngState,
+    species,
+    // Neither is the consciousness history, which starts over from the survivors
+    consciousnessHistory: recordPopulationSample([], classifiedAgents, simulation.time_elapsed, simulation.time_elapsed),
+    // Groups are detected again on the next step
+    groups: [],
+    trophicHistory: recordTrophicCensus([], classifiedAgents, simulation.time_elapsed, simulation.time_elapsed)
+  };
+
+  const timeline: TimelineEvent[] = simulation.timelineEvents
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(event => ({
+      id: `event-${event.id}`,
+      timestamp: event.timestamp,
+      title: event.title,
+      description: event.description ?? '',
+      type: event.event_type as TimelineEvent['type'],
+      significance: event.significance ?? 1
+    }));
+
+  return {
+    world,
+    timeline,
+    running: settings?.running ?? false,
+    timeScale: settings?.timeScale ?? 1
+  };
+}
+
 // Create an agent
 export async function createAgent(simulationId: number, agent: Agent) {
   await db.insert(agents).values({
@@ -91,12 +432,18 @@ export async function createAgent(simulationId: number, agent: Agent) {
     perception_radius: agent.perceptionRadius,
     movement_speed: agent.movementSpeed,
     mutation_rate: agent.mutationRate,
-    traits: agent.traits
+    traits: agent.traits,
+    needs: agent.needs,
+    genome: agent.genome,
+    brain: agent.brain,
+    mating_type: agent.matingType,
+    trophic_level: agent.trophicLevel
   });
 
   // Create initial memories
   for (const memory of agent.memory) {
     await db.insert(agentMemories).values({
+      simulation_id: simulationId,
       agent_id: agent.id,
       timestamp: memory.timestamp,
       memory_type: memory.type,
@@ -109,7 +456,7 @@ export async function createAgent(simulationId: number, agent: Agent) {
 // Update an agent
 export async function updateAgent(simulationId: number, agent: Agent) {
   const existingAgent = await db.query.agents.findFirst({
-    where: eq(agents.id, agent.id)
+    where: and(eq(agents.simulation_id, simulationId), eq(agents.id, agent.id))
   });
 
   if (existingAgent) {
@@ -125,13 +472,26 @@ export async function updateAgent(simulationId: number, agent: Agent) {
         energy: agent.energy,
         age: agent.age,
         lifespan: agent.lifespan,
+        generation: agent.generation,
+        rotation_x: agent.rotation.x,
+        rotation_z: agent.rotation.z,
         consciousness_value: agent.consciousnessValue,
         last_reproduction_time: agent.lastReproductionTime,
         last_action: agent.lastAction,
         reproduction_cooldown: agent.reproductionCooldown,
+        perception_radius: agent.perceptionRadius,
+        movement_speed: agent.movementSpeed,
+        mutation_rate: agent.mutationRate,
+        traits: agent.traits,
+        needs: agent.needs,
+        genome: agent.genome,
+        brain: agent.brain,
+        mating_type: agent.matingType,
+        trophic_level: agent.trophicLevel,
+        active: true,
         updated_at: new Date()
       })
-      .where(eq(agents.id, agent.id));
+      .where(and(eq(agents.simulation_id, simulationId), eq(agents.id, agent.id)));
   } else {
     // Create new agent
     await createAgent(simulationId, agent);
@@ -149,14 +509,15 @@ export async function createResource(simulationId: number, resource: Resource) {
     position_z: resource.position.z,
     amount: resource.amount,
     regeneration_rate: resource.regenerationRate,
-    last_regeneration: resource.lastRegeneration
+    last_regeneration: resource.lastRegeneration,
+    harvesters: resource.harvesters ?? null
   });
 }
 
 // Update a resource
 export async function updateResource(simulationId: number, resource: Resource) {
   const existingResource = await db.query.resources.findFirst({
-    where: eq(resources.resource_id, resource.id)
+    where: and(eq(resources.simulation_id, simulationId), eq(resources.resource_id, resource.id))
   });
 
   if (existingResource) {
@@ -169,7 +530,7 @@ export async function updateResource(simulationId: number, resource: Resource) {
         position_z: resource.position.z,
         last_regeneration: resource.lastRegeneration
       })
-      .where(eq(resources.resource_id, resource.id));
+      .where(and(eq(resources.simulation_id, simulationId), eq(resources.resource_id, resource.id)));
   } else {
     // Create new resource
     await createResource(simulationId, resource);
@@ -177,8 +538,9 @@ export async function updateResource(simulationId: number, resource: Resource) {
 }
 
 // Add a memory to an agent
-export async function addAgentMemory(agentId: string, memory: any) {
+export async function addAgentMemory(simulationId: number, agentId: string, memory: any) {
   await db.insert(agentMemories).values({
+    simulation_id: simulationId,
     agent_id: agentId,
     timestamp: memory.timestamp,
     memory_type: memory.type,
@@ -188,9 +550,9 @@ export async function addAgentMemory(agentId: string, memory: any) {
 }
 
 // Get an agent's memories
-export async function getAgentMemories(agentId: string) {
+export async function getAgentMemories(agentId: string, simulationId: number) {
   return await db.query.agentMemories.findMany({
-    where: eq(agentMemories.agent_id, agentId),
+    where: and(eq(agentMemories.simulation_id, simulationId), eq(agentMemories.agent_id, agentId)),
     orderBy: (agentMemories, { desc }) => [desc(agentMemories.timestamp)]
   });
 }
@@ -213,4 +575,132 @@ export async function getTimelineEvents(simulationId: number) {
     where: eq(timelineEvents.simulation_id, simulationId),
     orderBy: (timelineEvents, { asc }) => [asc(timelineEvents.timestamp)]
   });
-}
\ No newline at end of file
+}
+
+// Lineage row of a record
+function lineageRow(simulationId: number, record: LineageRecord) {
+  return {
+    simulation_id: simulationId,
+    agent_id: record.agentId,
+    parent_ids: record.parentIds,
+    generation: record.generation,
+    species_id: record.speciesId,
+    color: record.color,
+    birth_time: record.birthTime,
+    death_time: record.deathTime ?? null,
+    death_cause: record.deathCause ?? null,
+    consciousness: record.consciousness
+  };
+}
+
+// Record lineage entries; agents that already have one are skipped
+export async function recordLineage(simulationId: number, records: LineageRecord[]) {
+  if (records.length === 0) return;
+
+  await db.insert(agentLineage)
+    .values(records.map(record => lineageRow(simulationId, record)))
+    .onConflictDoNothing({ target: [agentLineage.simulation_id, agentLineage.agent_id] });
+}
+
+// Make the lineage match a restored world at `time`: agents born after it are
+// forgotten, and the living agents of the world are recorded as alive again
+export async function rewindLineage(simulationId: number, livingRecords: LineageRecord[], time: number) {
+  await db.delete(agentLineage)
+    .where(and(eq(agentLineage.simulation_id, simulationId), gt(agentLineage.birth_time, time)));
+  if (livingRecords.length === 0) return;
+
+  await db.insert(agentLineage)
+    .values(livingRecords.map(record => lineageRow(simulationId, record)))
+    .onConflictDoUpdate({
+      target: [agentLineage.simulation_id, agentLineage.agent_id],
+      set: {
+        death_time: null,
+        death_cause: null,
+        species_id: sql`excluded.species_id`,
+        consciousness: sql`excluded.consciousness`
+      }
+    });
+}
+
+// Mark agents as dead in the lineage
+export async function recordLineageDeaths(simulationId: number, deaths: LineageDeath[]) {
+  for (const death of deaths) {
+    await db.update(agentLineage)
+      .set({
+        death_time: death.time,
+        death_cause: death.cause ?? null,
+        species_id: death.speciesId,
+        consciousness: death.consciousness
+      })
+      .where(and(eq(agentLineage.simulation_id, simulationId), eq(agentLineage.agent_id, death.agentId)));
+  }
+}
+
+// Get the complete lineage of a simulation in birth order
+export async function getLineage(simulationId: number): Promise<LineageRecord[]> {
+  const rows = await db.query.agentLineage.findMany({
+    where: eq(agentLineage.simulation_id, simulationId),
+    orderBy: (agentLineage, { asc }) => [asc(agentLineage.birth_time), asc(agentLineage.id)]
+  });
+
+  return rows.map(row => ({
+    agentId: row.agent_id,
+    parentIds: row.parent_ids,
+    generation: row.generation,
+    speciesId: row.species_id ?? '',
+    color: row.color,
+    birthTime: row.birth_time,
+    deathTime: row.death_time ?? undefined,
+    deathCause: (row.death_cause ?? undefined) as DeathCause | undefined,
+    consciousness: row.consciousness ?? 0
+  }));
+}
+
+// Copy the lineage of one simulation to another (used when cloning)
+export async function copyLineage(fromSimulationId: number, toSimulationId: number) {
+  await recordLineage(toSimulationId, await getLineage(fromSimulationId));
+}
+
+// Forget the lineage of a simulation (used when its world is reset)
+export async function clearLineage(simulationId: number) {
+  await db.delete(agentLineage).where(eq(agentLineage.simulation_id, simulationId));
+}
+
+// Save a named checkpoint of a simulation
+export async function createSnapshot(simulationId: number, name: string, snapshot: WorldSnapshot) {
+  const [record] = await db.insert(simulationSnapshots).values({
+    simulation_id: simulationId,
+    name,
+    version: snapshot.version,
+    time_elapsed: snapshot.world.timeElapsed,
+    data: snapshot
+  }).returning({
+    id: simulationSnapshots.id,
+    simulation_id: simulationSnapshots.simulation_id,
+    name: simulationSnapshots.name,
+    version: simulationSnapshots.version,
+    time_elapsed: simulationSnapshots.time_elapsed,
+    created_at: simulationSnapshots.created_at
+  });
+
+  return record;
+}
+
+// List the checkpoints of a simulation (without their data)
+export async function getSnapshots(simulationId: number) {
+  return await db.query.simulationSnapshots.findMany({
+    where: eq(simulationSnapshots.simulation_id, simulationId),
+    columns: { data: false },
+    orderBy: [desc(simulationSnapshots.created_at)]
+  });
+}
+
+// Get a single checkpoint including its world snapshot
+export async function getSnapshot(simulationId: number, snapshotId: number) {
+  return await db.query.simulationSnapshots.findFirst({
+    where: and(
+      eq(simulationSnapshots.simulation_id, simulationId),
+      eq(simulationSnapshots.id, snapshotId)
+    )
+  });
+}
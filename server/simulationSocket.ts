@@ -0,0 +1,98 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  SIMULATION_SOCKET_PATH,
+  ClientMessage,
+  ServerMessage,
+  parseClientMessage
+} from "../client/src/lib/simulationProtocol";
+import { getRunner } from "./simulationRunner";
+
+/**
+ * Attach the simulation WebSocket endpoint to the HTTP server.
+ *
+ * Each connection watches at most one simulation at a time. Upgrades for
+ * other paths (e.g. the Vite HMR socket) are left alone.
+ */
+export function attachSimulationSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "", "http://localhost");
+    if (pathname !== SIMULATION_SOCKET_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    let simulationId: number | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const send = (message: ServerMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    const leave = () => {
+      unsubscribe?.();
+      unsubscribe = null;
+      simulationId = null;
+    };
+
+    const handle = async (raw: RawData) => {
+      let message: ClientMessage;
+      try {
+        message = parseClientMessage(JSON.parse(raw.toString()));
+      } catch (error) {
+        send({ type: "error", message: error instanceof SyntaxError ? "Invalid message" : (error as Error).message });
+        return;
+      }
+
+      try {
+        switch (message.type) {
+          case "subscribe": {
+            leave();
+            const runner = await getRunner(message.simulationId);
+            if (!runner) {
+              send({ type: "error", message: `Simulation ${message.simulationId} not found` });
+              return;
+            }
+            simulationId = message.simulationId;
+            unsubscribe = runner.subscribe(send);
+            break;
+          }
+
+          case "unsubscribe":
+            leave();
+            break;
+
+          case "command": {
+            if (simulationId === null) {
+              send({ type: "error", message: "Not subscribed to a simulation" });
+              return;
+            }
+            const runner = await getRunner(simulationId);
+            runner?.execute(message.command);
+            break;
+          }
+        }
+      } catch (error) {
+        console.error("Error handling simulation socket message:", error);
+        send({ type: "error", message: "Failed to handle message" });
+      }
+    };
+
+    // Handle messages in order, a command must not overtake its subscribe
+    let queue = Promise.resolve();
+    ws.on("message", (raw) => {
+      queue = queue.then(() => handle(raw));
+    });
+
+    ws.on("close", leave);
+  });
+
+  return wss;
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, json, timestamp, doublePrecision, real } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, json, timestamp, doublePrecision, real, primaryKey, foreignKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -23,12 +24,16 @@ export const simulations = pgTable("simulations", {
   name: text("name").notNull(),
   created_at: timestamp("created_at").defaultNow().notNull(),
   last_updated: timestamp("last_updated").defaultNow().notNull(),
+  last_viewed: timestamp("last_viewed"), // When a client last selected this world
   time_elapsed: doublePrecision("time_elapsed").default(0).notNull(),
   day_night_cycle: doublePrecision("day_night_cycle").default(0).notNull(),
   year_count: integer("year_count").default(0).notNull(),
   active: boolean("active").default(true),
   settings: json("settings").$type<{
     timeScale: number;
+    seed: number;
+    rngState?: number;
+    running?: boolean;
     environmentalParameters: {
       temperature: number;
       lightLevel: number;
@@ -36,11 +41,15 @@ export const simulations = pgTable("simulations", {
       resourceDistribution: number;
       weatherCondition: string;
     };
+    worldSettings?: {
+      controller: 'utility' | 'neural';
+    };
   }>(),
+  state: json("state").$type<any>(), // Latest versioned world snapshot
 });
 
 export const agents = pgTable("agents", {
-  id: text("id").primaryKey(), // Could be 'adam', 'eve', or unique IDs
+  id: text("id").notNull(), // Could be 'adam', 'eve', or unique IDs (unique per simulation)
   simulation_id: integer("simulation_id").references(() => simulations.id).notNull(),
   position_x: doublePrecision("position_x").notNull(),
   position_y: doublePrecision("position_y").notNull(),
@@ -68,20 +77,53 @@ export const agents = pgTable("agents", {
     exploration: number;
     adaptability: number;
   }>(),
+  needs: json("needs").$type<{
+    hunger: number;
+    thirst: number;
+    fatigue: number;
+  }>(),
+  genome: json("genome").$type<{
+    genes: {
+      locus: string;
+      alleles: { value: number; dominant: boolean }[];
+    }[];
+  }>(),
+  brain: json("brain").$type<{
+    inputSize: number;
+    hiddenSize: number;
+    outputSize: number;
+    recurrent: boolean;
+    inputWeights: number[];
+    recurrentWeights: number[];
+    hiddenBias: number[];
+    outputWeights: number[];
+    outputBias: number[];
+  }>(),
+  mating_type: integer("mating_type").default(0),
+  trophic_level: text("trophic_level").default("herbivore"),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
   active: boolean("active").default(true),
-});
+}, (table) => [
+  // Every world starts with its own Adam and Eve, so IDs are scoped by simulation
+  primaryKey({ columns: [table.simulation_id, table.id] }),
+]);
 
 export const agentMemories = pgTable("agent_memories", {
   id: serial("id").primaryKey(),
-  agent_id: text("agent_id").references(() => agents.id).notNull(),
+  simulation_id: integer("simulation_id").references(() => simulations.id).notNull(),
+  agent_id: text("agent_id").notNull(),
   timestamp: doublePrecision("timestamp").notNull(),
   memory_type: text("memory_type").notNull(), // 'encounter', 'action', 'feedback', 'observation'
   data: json("data").$type<any>(),
   intensity: doublePrecision("intensity").default(1),
   created_at: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  foreignKey({
+    columns: [table.simulation_id, table.agent_id],
+    foreignColumns: [agents.simulation_id, agents.id],
+  }),
+]);
 
 export const resources = pgTable("resources", {
   id: serial("id").primaryKey(),
@@ -94,6 +136,7 @@ export const resources = pgTable("resources", {
   amount: doublePrecision("amount").default(100),
   regeneration_rate: doublePrecision("regeneration_rate").default(0.1),
   last_regeneration: doublePrecision("last_regeneration").default(0),
+  harvesters: integer("harvesters"), // Agents needed to harvest a large resource, null for ordinary ones
   created_at: timestamp("created_at").defaultNow(),
   active: boolean("active").default(true),
 });
@@ -109,3 +152,82 @@ export const timelineEvents = pgTable("timeline_events", {
   significance: doublePrecision("significance").default(1),
   created_at: timestamp("created_at").defaultNow(),
 });
+
+// Pedigree of every agent that ever lived in a simulation, including dead ones
+export const agentLineage = pgTable("agent_lineage", {
+  id: serial("id").primaryKey(),
+  simulation_id: integer("simulation_id").references(() => simulations.id).notNull(),
+  agent_id: text("agent_id").notNull(),
+  parent_ids: json("parent_ids").$type<string[]>().notNull(),
+  generation: integer("generation").notNull(),
+  species_id: text("species_id"),
+  color: text("color").notNull(),
+  birth_time: doublePrecision("birth_time").notNull(),
+  death_time: doublePrecision("death_time"),
+  death_cause: text("death_cause"), // 'starvation', 'dehydration', 'exhaustion', 'oldAge'
+  consciousness: doublePrecision("consciousness").default(0),
+}, (table) => [
+  unique().on(table.simulation_id, table.agent_id),
+]);
+
+// Named checkpoints of a simulation's complete world state
+export const simulationSnapshots = pgTable("simulation_snapshots", {
+  id: serial("id").primaryKey(),
+  simulation_id: integer("simulation_id").references(() => simulations.id).notNull(),
+  name: text("name").notNull(),
+  version: integer("version").notNull(),
+  time_elapsed: doublePrecision("time_elapsed").default(0).notNull(),
+  data: json("data").$type<any>().notNull(), // Versioned world snapshot
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Relations used by relational queries (`with: { ... }`)
+export const simulationsRelations = relations(simulations, ({ many }) => ({
+  agents: many(agents),
+  resources: many(resources),
+  timelineEvents: many(timelineEvents),
+  snapshots: many(simulationSnapshots),
+}));
+
+export const agentsRelations = relations(agents, ({ one, many }) => ({
+  simulation: one(simulations, {
+    fields: [agents.simulation_id],
+    references: [simulations.id],
+  }),
+  memories: many(agentMemories),
+}));
+
+export const agentMemoriesRelations = relations(agentMemories, ({ one }) => ({
+  agent: one(agents, {
+    fields: [agentMemories.simulation_id, agentMemories.agent_id],
+    references: [agents.simulation_id, agents.id],
+  }),
+}));
+
+export const resourcesRelations = relations(resources, ({ one }) => ({
+  simulation: one(simulations, {
+    fields: [resources.simulation_id],
+    references: [simulations.id],
+  }),
+}));
+
+export const timelineEventsRelations = relations(timelineEvents, ({ one }) => ({
+  simulation: one(simulations, {
+    fields: [timelineEvents.simulation_id],
+    references: [simulations.id],
+  }),
+}));
+
+export const agentLineageRelations = relations(agentLineage, ({ one }) => ({
+  simulation: one(simulations, {
+    fields: [agentLineage.simulation_id],
+    references: [simulations.id],
+  }),
+}));
+
+export const simulationSnapshotsRelations = relations(simulationSnapshots, ({ one }) => ({
+  simulation: one(simulations, {
+    fields: [simulationSnapshots.simulation_id],
+    references: [simulations.id],
+  }),
+}));